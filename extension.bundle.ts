@@ -28,3 +28,49 @@ export * from './src/openApi/OpenApiImportObject';
 export { treeUtils } from './src/utils/treeUtils';
 export * from './src/utils/azure';
 export * from './src/utils/nameUtil';
+export { gatewayUtil } from './src/utils/gatewayUtil';
+export { parameterUtil } from './src/utils/parameterUtil';
+export * from './src/operationConsole/ConsoleOperation';
+export * from './src/operationConsole/ConsoleRequestSender';
+export * from './src/operationConsole/ConsoleResponse';
+export * from './src/operationConsole/ConsoleTrace';
+export * from './src/operationConsole/SampleGenerator';
+export * from './src/operationConsole/IOperationTestResult';
+export * from './src/operationConsole/OperationTestSuite';
+export * from './src/operationConsole/HttpRequestFile';
+export * from './src/operationConsole/IDeviceCode';
+export * from './src/operationConsole/IOAuthServerSettings';
+export * from './src/operationConsole/OAuthTokenProvider';
+export * from './src/operationConsole/CodeSnippetGenerator';
+export * from './src/policy/IXmlElement';
+export * from './src/policy/IXmlProblem';
+export * from './src/policy/policyCatalog';
+export * from './src/policy/PolicyXmlParser';
+export * from './src/policy/PolicyValidator';
+export * from './src/policy/IPolicyError';
+export * from './src/policy/policyErrorUtil';
+export * from './src/policy/IScopedPolicy';
+export * from './src/policy/EffectivePolicyBuilder';
+export * from './src/policy/IPolicySnippet';
+export * from './src/policy/ITextEdit';
+export * from './src/policy/PolicySnippetInserter';
+export * from './src/policy/IExpressionType';
+export * from './src/policy/CSharpTypeParser';
+export * from './src/policy/PolicyExpressionModel';
+export * from './src/policy/systemTypesSource';
+export * from './src/policy/IMockContext';
+export * from './src/policy/expressionValues';
+export * from './src/policy/CSharpExpressionParser';
+export * from './src/policy/PolicyExpressionEvaluator';
+export * from './src/policy/PolicyTestRunner';
+export * from './src/policy/PolicyFragmentExpander';
+export * from './src/policy/xmlTextUtil';
+export * from './src/policy/IPolicyBulkChange';
+export * from './src/policy/PolicyBulkEditor';
+export * from './src/policy/PolicyNormalizer';
+export * from './src/openApi/openApiDocumentUtil';
+export * from './src/openApi/OpenApiReferenceChecker';
+export * from './src/openApi/IOpenApiDocument';
+export * from './src/openApi/apiChangePreview';
+export * from './src/openApi/OpenApiBreakingChangeDetector';
+export * from './src/openApi/OpenApiLinter';
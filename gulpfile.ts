@@ -19,6 +19,17 @@ function test(): cp.ChildProcess {
     return cp.spawn('node', ['./node_modules/vscode/bin/test'], { stdio: 'inherit', env });
 }
 
+// Runs the *.policytest.json files of POLICY_TESTS_PATH (default: the current folder), e.g. in CI. The runner is only loaded by this task.
+async function testPolicies(): Promise<void> {
+    const { PolicyTestRunner } = await import('./src/policy/PolicyTestRunner');
+    const runner = new PolicyTestRunner();
+    const results = await runner.run(path.resolve(env.POLICY_TESTS_PATH !== undefined ? env.POLICY_TESTS_PATH : '.'));
+    if (results.some(r => !r.passed)) {
+        throw new Error(`Policy tests failed.\n${runner.getSummary(results)}`);
+    }
+}
+
 exports['webpack-dev'] = () => gulp_webpack('development');
 exports['webpack-prod'] = () => gulp_webpack('production');
 exports.test = gulp.series(gulp_installAzureAccount, gulp_installRestClient, test);
+exports['test-policies'] = testPolicies;
@@ -0,0 +1,294 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ApiManagementModels } from "azure-arm-apimanagement";
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { parseError } from 'vscode-azureextensionui';
+import { emptyPolicyXml, policyFormat } from '../constants';
+import { ApisTreeItem } from '../explorer/ApisTreeItem';
+import { IServiceTreeRoot } from '../explorer/IServiceTreeRoot';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { IPolicyBulkChange, PolicyBulkAction } from '../policy/IPolicyBulkChange';
+import { PolicyBulkEditor } from '../policy/PolicyBulkEditor';
+import { createTemporaryFile, getDefaultWorkspacePath, getSessionWorkingFolderName } from '../utils/fsUtil';
+import { nonNullProp } from '../utils/nonNull';
+
+interface IPolicyTarget {
+    apiName: string;
+    operationName?: string;
+}
+
+interface IPolicyUpdate extends IPolicyTarget {
+    // Undefined when the API or operation had no policy.
+    originalPolicy?: string;
+    policy: string;
+}
+
+/**
+ * The original policies of a bulk change, written before the change is applied, so it can be rolled back.
+ */
+interface IRollbackLog {
+    resourceGroupName: string;
+    serviceName: string;
+    date: string;
+    change: IPolicyBulkChange;
+    entries: (IPolicyTarget & { originalPolicy?: string, status: "pending" | "applied" | "failed" | "rolledBack", error?: string })[];
+}
+
+/**
+ * Applies an insert, replace or remove change to the policies of many APIs or operations of a service, after a preview of the changes.
+ */
+export async function bulkApplyPolicy(node?: ApisTreeItem): Promise<void> {
+    if (!node) {
+        node = <ApisTreeItem>await ext.tree.showTreeItemPicker(ApisTreeItem.contextValue);
+    }
+
+    const root = node.root;
+    const targets = await askTargets(root);
+    const change = await askChange();
+
+    const editor = new PolicyBulkEditor();
+    const updates = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: localize("loadingPolicies", "Loading policies...") }, async () => {
+        const result: IPolicyUpdate[] = [];
+        for (const target of targets) {
+            const originalPolicy = await getPolicy(root, target);
+            const policy = editor.apply(originalPolicy !== undefined ? originalPolicy : emptyPolicyXml, change).text;
+            if (policy !== (originalPolicy !== undefined ? originalPolicy : emptyPolicyXml)) {
+                result.push({ ...target, originalPolicy, policy });
+            }
+        }
+        return result;
+    });
+    if (updates.length === 0) {
+        vscode.window.showInformationMessage(localize("noPolicyChanges", `The change doesn't modify any of the ${targets.length} policies.`));
+        return;
+    }
+
+    await showPreview(root, updates);
+    const apply: vscode.MessageItem = { title: localize("applyPolicyChange", "Apply") };
+    await ext.ui.showWarningMessage(localize("confirmBulkPolicyChange", `Apply the change to ${updates.length} of ${targets.length} policies?`), { modal: true }, apply);
+
+    const log: IRollbackLog = {
+        resourceGroupName: root.resourceGroupName,
+        serviceName: root.serviceName,
+        date: new Date().toISOString(),
+        change,
+        entries: updates.map(u => { return { apiName: u.apiName, operationName: u.operationName, originalPolicy: u.originalPolicy, status: <"pending">"pending" }; })
+    };
+    const logPath = await createTemporaryFile(`${root.serviceName}-bulk-policy-${Date.now()}.rollback.json`);
+    await writeLog(logPath, log);
+    ext.outputChannel.appendLine(localize("bulkPolicyRollbackLog", `The original policies are saved to '${logPath}'.`));
+
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: localize("applyingPolicyChange", "Applying the policy change...") }, async (progress) => {
+        for (let i = 0; i < updates.length; i++) {
+            progress.report({ message: `${i + 1}/${updates.length}`, increment: 100 / updates.length });
+            try {
+                await setPolicy(root, updates[i], updates[i].policy);
+                log.entries[i].status = "applied";
+            } catch (error) {
+                log.entries[i].status = "failed";
+                log.entries[i].error = parseError(error).message;
+                ext.outputChannel.appendLine(localize("bulkPolicyFailed", `Failed to update the policy of ${getLabel(updates[i])}: ${log.entries[i].error}`));
+            }
+            await writeLog(logPath, log);
+        }
+    });
+
+    showResult(log, logPath);
+}
+
+/**
+ * Restores the original policies of a bulk change from its rollback log.
+ */
+export async function rollBackBulkPolicyChange(node?: ApisTreeItem): Promise<void> {
+    if (!node) {
+        node = <ApisTreeItem>await ext.tree.showTreeItemPicker(ApisTreeItem.contextValue);
+    }
+
+    const root = node.root;
+    const logPath = (await ext.ui.showOpenDialog({
+        canSelectMany: false,
+        defaultUri: vscode.Uri.file(path.join(getDefaultWorkspacePath(), getSessionWorkingFolderName())),
+        filters: { "Rollback Log": ["json"] }
+    }))[0].fsPath;
+    // tslint:disable-next-line: no-unsafe-any
+    const log: IRollbackLog = await fse.readJson(logPath);
+    if (log.serviceName !== root.serviceName || log.resourceGroupName !== root.resourceGroupName) {
+        throw new Error(localize("rollbackLogOtherService", `The rollback log is for service '${log.serviceName}', not '${root.serviceName}'.`));
+    }
+
+    const entries = log.entries.filter(e => e.status === "applied");
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage(localize("nothingToRollBack", "The rollback log has no applied changes."));
+        return;
+    }
+    const rollBack: vscode.MessageItem = { title: localize("rollBack", "Roll Back") };
+    await ext.ui.showWarningMessage(localize("confirmRollBack", `Restore the original policies of ${entries.length} APIs and operations?`), { modal: true }, rollBack);
+
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: localize("rollingBackPolicies", "Restoring the original policies...") }, async (progress) => {
+        for (let i = 0; i < entries.length; i++) {
+            progress.report({ message: `${i + 1}/${entries.length}`, increment: 100 / entries.length });
+            try {
+                await setPolicy(root, entries[i], entries[i].originalPolicy);
+                entries[i].status = "rolledBack";
+            } catch (error) {
+                ext.outputChannel.appendLine(localize("rollBackFailed", `Failed to restore the policy of ${getLabel(entries[i])}: ${parseError(error).message}`));
+            }
+            await writeLog(logPath, log);
+        }
+    });
+
+    const failed = entries.filter(e => e.status !== "rolledBack").length;
+    const message = localize("rolledBack", `Restored ${entries.length - failed} of ${entries.length} policies.`);
+    if (failed > 0) {
+        ext.outputChannel.show();
+        vscode.window.showWarningMessage(message);
+    } else {
+        vscode.window.showInformationMessage(message);
+    }
+}
+
+async function askTargets(root: IServiceTreeRoot): Promise<IPolicyTarget[]> {
+    const operationsScope = localize("operationsScope", "Operations");
+    const scope = (await ext.ui.showQuickPick(
+        [{ label: localize("apisScope", "APIs") }, { label: operationsScope }],
+        { placeHolder: localize("selectBulkPolicyScope", "Change the policies of"), canPickMany: false })).label;
+    const tag = (await ext.ui.showInputBox({ prompt: localize("enterApiTag", "Only change APIs with this tag (leave empty for all APIs)") })).trim();
+
+    const apis = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: localize("loadingApis", "Loading APIs...") }, async () => {
+        return await listApis(root, tag);
+    });
+    if (apis.length === 0) {
+        throw new Error(tag ? localize("noTaggedApis", `No APIs are tagged '${tag}'.`) : localize("noApis", "The service has no APIs."));
+    }
+    const picks = await ext.ui.showQuickPick(
+        apis.map(a => {
+            const apiName = nonNullProp(a, "name");
+            return { label: a.displayName !== undefined ? a.displayName : apiName, description: apiName, picked: true, apiName };
+        }),
+        { placeHolder: localize("selectBulkPolicyApis", "Select the APIs to change"), canPickMany: true });
+
+    if (scope !== operationsScope) {
+        return picks.map(p => { return { apiName: p.apiName }; });
+    }
+    const targets: IPolicyTarget[] = [];
+    for (const pick of picks) {
+        let operations = await root.client.apiOperation.listByApi(root.resourceGroupName, root.serviceName, pick.apiName);
+        targets.push(...operations.map(o => { return { apiName: pick.apiName, operationName: nonNullProp(o, "name") }; }));
+        while (operations.nextLink) {
+            operations = await root.client.apiOperation.listByApiNext(operations.nextLink);
+            targets.push(...operations.map(o => { return { apiName: pick.apiName, operationName: nonNullProp(o, "name") }; }));
+        }
+    }
+    return targets;
+}
+
+async function askChange(): Promise<IPolicyBulkChange> {
+    const target = await ext.ui.showInputBox({
+        prompt: localize("enterPolicyTarget", "Enter the path of the elements to change, e.g. inbound or //set-header[@name='x-env']"),
+        validateInput: (value: string): string | undefined => {
+            try {
+                PolicyBulkEditor.parsePath(value);
+                return undefined;
+            } catch (error) {
+                return (<Error>error).message;
+            }
+        }
+    });
+    const actions: { label: string, description: string, action: PolicyBulkAction }[] = [
+        { label: localize("insertAction", "Insert"), description: localize("insertActionDescription", "Add XML as the last child of the elements"), action: "insert" },
+        { label: localize("replaceAction", "Replace"), description: localize("replaceActionDescription", "Replace the elements with XML"), action: "replace" },
+        { label: localize("removeAction", "Remove"), description: localize("removeActionDescription", "Remove the elements"), action: "remove" }
+    ];
+    const action = (await ext.ui.showQuickPick(actions, { placeHolder: localize("selectPolicyAction", `Select what to do with ${target}`), canPickMany: false })).action;
+    if (action === "remove") {
+        return { target, action };
+    }
+    const xml = await ext.ui.showInputBox({ prompt: localize("enterPolicyXml", `Enter the XML to ${action}, e.g. <set-header name="x-env" exists-action="override"><value>prod</value></set-header>`) });
+    return { target, action, xml };
+}
+
+async function listApis(root: IServiceTreeRoot, tag: string): Promise<ApiManagementModels.ApiContract[]> {
+    let collection = await root.client.api.listByService(root.resourceGroupName, root.serviceName);
+    const apis: ApiManagementModels.ApiContract[] = collection.slice();
+    while (collection.nextLink) {
+        collection = await root.client.api.listByServiceNext(collection.nextLink);
+        apis.push(...collection);
+    }
+    if (!tag) {
+        return apis;
+    }
+
+    const result: ApiManagementModels.ApiContract[] = [];
+    for (const api of apis) {
+        const tags = await root.client.tag.listByApi(root.resourceGroupName, root.serviceName, nonNullProp(api, "name"));
+        if (tags.some(t => t.displayName.toLowerCase() === tag.toLowerCase() || (t.name !== undefined && t.name.toLowerCase() === tag.toLowerCase()))) {
+            result.push(api);
+        }
+    }
+    return result;
+}
+
+async function getPolicy(root: IServiceTreeRoot, target: IPolicyTarget): Promise<string | undefined> {
+    try {
+        const policy = target.operationName !== undefined
+            ? await root.client.apiOperationPolicy.get(root.resourceGroupName, root.serviceName, target.apiName, target.operationName, { format: policyFormat })
+            : await root.client.apiPolicy.get(root.resourceGroupName, root.serviceName, target.apiName, { format: policyFormat });
+        return policy.value;
+    } catch (error) {
+        const errorType = parseError(error).errorType.toLowerCase();
+        if (errorType === 'notfound' || errorType === 'resourcenotfound') {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+// Deletes the policy when there is none to set, which restores the policies that didn't exist before a change.
+async function setPolicy(root: IServiceTreeRoot, target: IPolicyTarget, policy: string | undefined): Promise<void> {
+    const contract: ApiManagementModels.PolicyContract = { format: policyFormat, value: policy !== undefined ? policy : "" };
+    if (target.operationName !== undefined) {
+        await (policy !== undefined
+            ? root.client.apiOperationPolicy.createOrUpdate(root.resourceGroupName, root.serviceName, target.apiName, target.operationName, contract)
+            : root.client.apiOperationPolicy.deleteMethod(root.resourceGroupName, root.serviceName, target.apiName, target.operationName, '*'));
+    } else {
+        await (policy !== undefined
+            ? root.client.apiPolicy.createOrUpdate(root.resourceGroupName, root.serviceName, target.apiName, contract)
+            : root.client.apiPolicy.deleteMethod(root.resourceGroupName, root.serviceName, target.apiName, '*'));
+    }
+}
+
+// Shows the changes of all policies in one diff, each policy under a comment with its API and operation.
+async function showPreview(root: IServiceTreeRoot, updates: IPolicyUpdate[]): Promise<void> {
+    const before = updates.map(u => `<!-- ${getLabel(u)} -->\n${u.originalPolicy !== undefined ? u.originalPolicy : emptyPolicyXml}\n`).join("\n");
+    const after = updates.map(u => `<!-- ${getLabel(u)} -->\n${u.policy}\n`).join("\n");
+    const left = ext.readOnlyContent.setContent(`${root.serviceName}/bulk-change.original.policy.xml`, before);
+    const right = ext.readOnlyContent.setContent(`${root.serviceName}/bulk-change.changed.policy.xml`, after);
+    await vscode.commands.executeCommand('vscode.diff', left, right, localize("bulkPolicyPreview", `Policy changes (${updates.length})`));
+}
+
+function showResult(log: IRollbackLog, logPath: string): void {
+    const failed = log.entries.filter(e => e.status === "failed").length;
+    const message = localize("bulkPolicyApplied", `Changed ${log.entries.length - failed} of ${log.entries.length} policies. Roll back the change with its log '${path.basename(logPath)}'.`);
+    if (failed > 0) {
+        ext.outputChannel.show();
+        vscode.window.showWarningMessage(message);
+    } else {
+        vscode.window.showInformationMessage(message);
+    }
+}
+
+function getLabel(target: IPolicyTarget): string {
+    return target.operationName !== undefined
+        ? localize("operationPolicyLabel", `operation '${target.apiName}/${target.operationName}'`)
+        : localize("apiPolicyLabel", `API '${target.apiName}'`);
+}
+
+async function writeLog(logPath: string, log: IRollbackLog): Promise<void> {
+    await fse.writeFile(logPath, JSON.stringify(log, undefined, 4));
+}
@@ -0,0 +1,54 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as vscode from 'vscode';
+import { ApiTreeItem } from '../explorer/ApiTreeItem';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { IOpenApiDocument } from '../openApi/IOpenApiDocument';
+import { OpenApiBreakingChangeDetector } from '../openApi/OpenApiBreakingChangeDetector';
+import { openApiDocumentUtil } from '../openApi/openApiDocumentUtil';
+import { OpenApiParser } from '../openApi/OpenApiParser';
+import { apiUtil } from '../utils/apiUtil';
+
+/**
+ * Compares the deployed OpenAPI document of an API with a new one and opens a report of the changes. With the failOnBreakingApiChanges setting,
+ * breaking changes fail the check, so the new document can be published as a new version of the API instead.
+ */
+export async function checkBreakingChanges(node?: ApiTreeItem): Promise<void> {
+    if (!node) {
+        node = <ApiTreeItem>await ext.tree.showTreeItemPicker(ApiTreeItem.contextValue);
+    }
+    const root = node.root;
+
+    const uris = await ext.ui.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        openLabel: localize("compare", "Compare"),
+        filters: { OpenAPI: ["json", "yaml", "yml"] }
+    });
+    const filePath = uris[0].fsPath;
+    const openApiParser = new OpenApiParser();
+    const incoming = <IOpenApiDocument>await openApiParser.bundle(openApiDocumentUtil.parse((await fse.readFile(filePath)).toString(), filePath), filePath);
+
+    const changes = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: localize("checkingBreakingChanges", `Comparing the document with API '${root.apiName}'...`) }, async () => {
+        const deployed = <IOpenApiDocument>JSON.parse(await apiUtil.exportOpenApiDocument(root, root.apiName));
+        return new OpenApiBreakingChangeDetector(deployed, incoming).detect();
+    });
+
+    const uri = ext.readOnlyContent.setContent(`${root.serviceName}/${root.apiName}.breaking-changes.txt`, `${localize("breakingChangesTitle", `Changes to API '${root.apiName}'`)}\n\n${OpenApiBreakingChangeDetector.getReport(changes)}`);
+    await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(uri), { preview: false });
+
+    const breakingCount = changes.filter(c => c.breaking).length;
+    if (breakingCount === 0) {
+        vscode.window.showInformationMessage(localize("noBreakingChanges", `The document has no breaking changes to API '${root.apiName}'.`));
+    } else if (apiUtil.isFailOnBreakingChangesEnabled()) {
+        throw new Error(localize("breakingChangesFound", `The document has ${breakingCount} breaking changes to API '${root.apiName}'. Publish it as a new version of the API instead.`));
+    } else {
+        vscode.window.showWarningMessage(localize("breakingChangesWarning", `The document has ${breakingCount} breaking changes to API '${root.apiName}'.`));
+    }
+}
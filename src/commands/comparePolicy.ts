@@ -0,0 +1,87 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { AzureTreeItem, parseError } from 'vscode-azureextensionui';
+import { emptyGlobalPolicyXml, emptyPolicyXml, policyFormat } from '../constants';
+import { ApiPolicyTreeItem } from '../explorer/ApiPolicyTreeItem';
+import { IApiTreeRoot } from '../explorer/IApiTreeRoot';
+import { IOperationTreeRoot } from '../explorer/IOperationTreeRoot';
+import { IProductTreeRoot } from '../explorer/IProductTreeRoot';
+import { IServiceTreeRoot } from '../explorer/IServiceTreeRoot';
+import { OperationPolicyTreeItem } from '../explorer/OperationPolicyTreeItem';
+import { ProductPolicyTreeItem } from '../explorer/ProductPolicyTreeItem';
+import { ServicePolicyTreeItem } from '../explorer/ServicePolicyTreeItem';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { PolicyNormalizer } from '../policy/PolicyNormalizer';
+import { nameUtil } from '../utils/nameUtil';
+
+const policyContextValues = [ServicePolicyTreeItem.contextValue, ProductPolicyTreeItem.contextValue, ApiPolicyTreeItem.contextValue, OperationPolicyTreeItem.contextValue];
+
+/**
+ * Opens a diff of two policies, of any scope and service. Both are normalized, so differences in whitespace and attribute order don't show.
+ */
+export async function comparePolicy(node?: AzureTreeItem<IServiceTreeRoot>): Promise<void> {
+    if (!node) {
+        node = <AzureTreeItem<IServiceTreeRoot>>await ext.tree.showTreeItemPicker(policyContextValues);
+    }
+    const other = <AzureTreeItem<IServiceTreeRoot>>await ext.tree.showTreeItemPicker(policyContextValues);
+
+    const left = node;
+    const policies = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: localize("loadingPoliciesToCompare", "Loading the policies...") }, async () => {
+        return await Promise.all([getPolicy(left), getPolicy(other)]);
+    });
+
+    const normalizer = new PolicyNormalizer({ sortAttributes: true, trimText: true });
+    const leftUri = ext.readOnlyContent.setContent(`compare/left/${nameUtil(left.root)}.policy.xml`, normalize(normalizer, policies[0]));
+    const rightUri = ext.readOnlyContent.setContent(`compare/right/${nameUtil(other.root)}.policy.xml`, normalize(normalizer, policies[1]));
+    await vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, localize("comparePolicyTitle", `${getPolicyLabel(left)} ↔ ${getPolicyLabel(other)}`));
+}
+
+async function getPolicy(node: AzureTreeItem<IServiceTreeRoot>): Promise<string> {
+    const root = node.root;
+    try {
+        switch (node.contextValue) {
+            case ProductPolicyTreeItem.contextValue:
+                return (await root.client.productPolicy.get(root.resourceGroupName, root.serviceName, (<IProductTreeRoot>root).productName, { format: policyFormat })).value;
+            case ApiPolicyTreeItem.contextValue:
+                return (await root.client.apiPolicy.get(root.resourceGroupName, root.serviceName, (<IApiTreeRoot>root).apiName, { format: policyFormat })).value;
+            case OperationPolicyTreeItem.contextValue:
+                return (await root.client.apiOperationPolicy.get(root.resourceGroupName, root.serviceName, (<IOperationTreeRoot>root).apiName, (<IOperationTreeRoot>root).opName, { format: policyFormat })).value;
+            default:
+                return (await root.client.policy.get(root.resourceGroupName, root.serviceName, { format: policyFormat })).value;
+        }
+    } catch (error) {
+        const errorType = parseError(error).errorType.toLowerCase();
+        if (errorType === 'notfound' || errorType === 'resourcenotfound') {
+            return node.contextValue === ServicePolicyTreeItem.contextValue ? emptyGlobalPolicyXml : emptyPolicyXml;
+        }
+        throw error;
+    }
+}
+
+// A policy that isn't well-formed is compared as it is.
+function normalize(normalizer: PolicyNormalizer, policy: string): string {
+    try {
+        return normalizer.normalize(policy);
+    } catch {
+        return policy;
+    }
+}
+
+function getPolicyLabel(node: AzureTreeItem<IServiceTreeRoot>): string {
+    const root = node.root;
+    switch (node.contextValue) {
+        case ProductPolicyTreeItem.contextValue:
+            return `${root.serviceName}/${(<IProductTreeRoot>root).productName}`;
+        case ApiPolicyTreeItem.contextValue:
+            return `${root.serviceName}/${(<IApiTreeRoot>root).apiName}`;
+        case OperationPolicyTreeItem.contextValue:
+            return `${root.serviceName}/${(<IOperationTreeRoot>root).apiName}/${(<IOperationTreeRoot>root).opName}`;
+        default:
+            return root.serviceName;
+    }
+}
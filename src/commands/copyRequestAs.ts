@@ -0,0 +1,28 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { ApiOperationTreeItem } from "../explorer/ApiOperationTreeItem";
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { CodeSnippetGenerator } from '../operationConsole/CodeSnippetGenerator';
+import { ParameterForm } from '../operationConsole/ParameterForm';
+import { subscriptionUtil } from '../utils/subscriptionUtil';
+
+export async function copyRequestAs(node?: ApiOperationTreeItem): Promise<void> {
+    if (!node) {
+        node = <ApiOperationTreeItem>await ext.tree.showTreeItemPicker(ApiOperationTreeItem.contextValue);
+    }
+
+    const pick = await ext.ui.showQuickPick(CodeSnippetGenerator.languages.map(l => { return { label: l.label, description: '', language: l.language }; }), { placeHolder: localize('selectSnippetLanguage', 'Copy the request as'), canPickMany: false });
+
+    const subscriptionKey = await subscriptionUtil.askSubscriptionKey(node.root);
+    const parameterValues = new ParameterForm(node.root, node.operationContract).load();
+    const consoleOperation = await node.getConsoleOperation({ subscriptionKey, parameterValues });
+
+    const snippet = new CodeSnippetGenerator().generate(pick.language, consoleOperation);
+    await vscode.env.clipboard.writeText(snippet);
+    vscode.window.showInformationMessage(localize('copiedRequest', `Copied the request for operation '${node.root.opName}' as ${pick.label}.`));
+}
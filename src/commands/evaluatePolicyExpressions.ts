@@ -0,0 +1,97 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as vscode from 'vscode';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { toJson } from '../policy/expressionValues';
+import { IMockContext } from '../policy/IMockContext';
+import { PolicyDiagnosticsProvider } from '../policy/PolicyDiagnosticsProvider';
+import { PolicyExpressionEvaluator } from '../policy/PolicyExpressionEvaluator';
+
+const mockContextPattern = '**/*.context.json';
+const maxResultLength = 120;
+
+let resultDecoration: vscode.TextEditorDecorationType | undefined;
+
+export async function evaluatePolicyExpressions(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !PolicyDiagnosticsProvider.isPolicyDocument(editor.document)) {
+        throw new Error(localize("noPolicyEditorToEvaluate", "Open a policy to evaluate its expressions."));
+    }
+
+    const mockContext = await pickMockContext();
+    const results = new PolicyExpressionEvaluator(mockContext).evaluatePolicy(editor.document.getText());
+    if (results.length === 0) {
+        vscode.window.showInformationMessage(localize("noPolicyExpressions", "The policy has no expressions."));
+        return;
+    }
+
+    const decorations: vscode.DecorationOptions[] = [];
+    ext.outputChannel.appendLine(localize("evaluatedPolicyExpressions", `Policy expressions of ${editor.document.fileName}:`));
+    for (const result of results) {
+        const text = result.error !== undefined ? `⚠ ${result.error}` : `⇒ ${truncate(JSON.stringify(toJson(result.value !== undefined ? result.value : null)))}`;
+        const range = new vscode.Range(editor.document.positionAt(result.start), editor.document.positionAt(result.end));
+        decorations.push({ range, hoverMessage: text, renderOptions: { after: { contentText: ` ${text}` } } });
+        ext.outputChannel.appendLine(`  ${localize("policyExpressionLine", `Line ${range.start.line + 1}`)}: ${result.code} ${text}`);
+    }
+    editor.setDecorations(getResultDecoration(), decorations);
+
+    const failed = results.filter(r => r.error !== undefined).length;
+    if (failed > 0) {
+        vscode.window.showWarningMessage(localize("policyExpressionsFailed", `${failed} of ${results.length} expressions failed.`));
+    }
+}
+
+/**
+ * Lets the user pick a mock context file from the workspace or from disk. The default context has no headers, body or variables.
+ */
+async function pickMockContext(): Promise<IMockContext> {
+    const files = await vscode.workspace.findFiles(mockContextPattern, '**/node_modules/**');
+    const browse = localize("browseMockContext", "Browse...");
+    const picks: (vscode.QuickPickItem & { uri?: vscode.Uri })[] = [
+        ...files.map(file => { return { label: vscode.workspace.asRelativePath(file), uri: file }; }),
+        { label: browse, description: localize("mockContextFile", "A JSON file with the mock request context") },
+        { label: localize("defaultMockContext", "Default context"), description: localize("defaultMockContextDescription", "A GET request without headers or body") }
+    ];
+    const pick = await ext.ui.showQuickPick(picks, { placeHolder: localize("selectMockContext", "Select the mock request context to evaluate the expressions against"), canPickMany: false });
+
+    let uri = pick.uri;
+    if (pick.label === browse) {
+        uri = (await ext.ui.showOpenDialog({ canSelectMany: false, filters: { JSON: ['json'] } }))[0];
+    }
+    if (!uri) {
+        return {};
+    }
+    try {
+        // tslint:disable-next-line: no-unsafe-any
+        return await fse.readJson(uri.fsPath);
+    } catch (error) {
+        throw new Error(localize("invalidMockContext", `Couldn't read the mock context ${uri.fsPath}: ${(<Error>error).message}`));
+    }
+}
+
+// The results are shown after the expressions until the policy changes.
+function getResultDecoration(): vscode.TextEditorDecorationType {
+    if (!resultDecoration) {
+        const decoration = vscode.window.createTextEditorDecorationType({
+            after: { color: new vscode.ThemeColor('editorCodeLens.foreground'), fontStyle: 'italic', margin: '0 0 0 1em' }
+        });
+        resultDecoration = decoration;
+        ext.context.subscriptions.push(
+            decoration,
+            vscode.workspace.onDidChangeTextDocument(e => {
+                for (const editor of vscode.window.visibleTextEditors.filter(v => v.document === e.document)) {
+                    editor.setDecorations(decoration, []);
+                }
+            }));
+    }
+    return resultDecoration;
+}
+
+function truncate(text: string): string {
+    return text.length > maxResultLength ? `${text.substring(0, maxResultLength)}…` : text;
+}
@@ -9,6 +9,7 @@ import { ApisTreeItem } from "../explorer/ApisTreeItem";
 import { ServiceTreeItem } from '../explorer/ServiceTreeItem';
 import { ext } from "../extensionVariables";
 import { localize } from "../localize";
+import { openApiDocumentUtil } from '../openApi/openApiDocumentUtil';
 import { IOpenApiImportObject } from "../openApi/OpenApiImportObject";
 import { OpenApiParser } from '../openApi/OpenApiParser';
 import { apiUtil } from '../utils/apiUtil';
@@ -23,19 +24,23 @@ export async function importOpenApi(node?: ApisTreeItem, importUsingLink: boolea
     }
 
     let documentString: string | undefined;
+    let documentSource: string;
     if (!importUsingLink) {
         const uris = await askDocument();
         const uri = uris[0];
         const fileContent = await fse.readFile(uri.fsPath);
         documentString = fileContent.toString();
+        documentSource = uri.fsPath;
     } else {
         const openApiLink = await askLink();
         documentString = await requestUtil(openApiLink);
+        documentSource = openApiLink;
     }
 
     if (documentString !== undefined && documentString.trim() !== "") {
-        const documentJson = JSON.parse(documentString);
-        const document = await parseDocument(documentJson);
+        const documentJson = openApiDocumentUtil.parse(documentString, documentSource);
+        await ext.openApiDiagnostics.lintBeforeUpload(documentString, documentSource);
+        const document = await parseDocument(documentJson, documentSource);
         const apiName = await apiUtil.askApiName();
         window.withProgress(
             {
@@ -60,7 +65,7 @@ async function askDocument(): Promise<Uri[]> {
         canSelectMany: false,
         openLabel: "Import",
         filters: {
-            JSON: ["json"]
+            OpenAPI: ["json", "yaml", "yml"]
         }
     };
     const rootPath = workspace.rootPath;
@@ -89,9 +94,10 @@ async function askLink() : Promise<string> {
 }
 
 // tslint:disable: no-unsafe-any
-async function parseDocument(documentJson: any): Promise<IOpenApiImportObject> {
+async function parseDocument(documentJson: any, documentSource: string): Promise<IOpenApiImportObject> {
     try {
-        return await new OpenApiParser().parse(documentJson);
+        const openApiParser = new OpenApiParser();
+        return await openApiParser.parse(await openApiParser.bundle(documentJson, documentSource));
     } catch (error) {
        throw new Error(processError(error, localize("openApiJsonParseError", "Could not parse the provided OpenAPI document.")));
     }
@@ -0,0 +1,88 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { parseError } from 'vscode-azureextensionui';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { builtInPolicySnippets } from '../policy/builtInPolicySnippets';
+import { IPolicySnippet } from '../policy/IPolicySnippet';
+import { getPolicyDefinition, policySections } from '../policy/policyCatalog';
+import { PolicyDiagnosticsProvider } from '../policy/PolicyDiagnosticsProvider';
+import { PolicySnippetInserter } from '../policy/PolicySnippetInserter';
+import { getWorkspaceSetting } from '../vsCodeConfig/settings';
+
+const snippetPacksKey = 'policySnippetPacks';
+
+export async function insertPolicy(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !PolicyDiagnosticsProvider.isPolicyDocument(editor.document)) {
+        throw new Error(localize("noPolicyEditor", "Open a policy to insert a policy into it."));
+    }
+
+    const section = (await ext.ui.showQuickPick(policySections.map(s => { return { label: s, description: '', section: s }; }), { placeHolder: localize("selectPolicySection", "Select the section to insert the policy into"), canPickMany: false })).section;
+
+    const scope = ext.policyDiagnostics.getScope(editor.document.uri);
+    const snippets = [
+        ...builtInPolicySnippets.map(snippet => { return { snippet, pack: '' }; }),
+        ...await loadSnippetPacks()
+    ].filter(s => {
+        const definition = getPolicyDefinition(s.snippet.name);
+        return PolicySnippetInserter.getSections(s.snippet).indexOf(section) !== -1
+            && (scope === undefined || !definition || definition.scopes.indexOf(scope) !== -1);
+    }).sort((a, b) => a.snippet.name.localeCompare(b.snippet.name));
+
+    const pick = await ext.ui.showQuickPick(
+        snippets.map(s => { return { label: s.snippet.name, description: s.pack, detail: s.snippet.description, snippet: s.snippet }; }),
+        { placeHolder: localize("selectPolicy", `Select the policy to insert into ${section}`), canPickMany: false });
+
+    const values: { [name: string]: string } = {};
+    for (const parameter of pick.snippet.parameters ? pick.snippet.parameters : []) {
+        values[parameter.name] = await ext.ui.showInputBox({ prompt: parameter.prompt, value: parameter.defaultValue });
+    }
+
+    const inserter = new PolicySnippetInserter();
+    const document = editor.document;
+    const edit = inserter.getInsertEdit(document.getText(), section, document.offsetAt(editor.selection.active), inserter.render(pick.snippet, values));
+    await editor.edit(builder => builder.replace(new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)), edit.text));
+}
+
+/**
+ * Loads the snippet packs listed in the settings. A pack is a JSON file with an array of snippets, its path is relative to the workspace folder.
+ */
+async function loadSnippetPacks(): Promise<{ snippet: IPolicySnippet, pack: string }[]> {
+    const packs = getWorkspaceSetting<string[]>(snippetPacksKey);
+    const folders = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders.map(f => f.uri.fsPath) : [];
+    const result: { snippet: IPolicySnippet, pack: string }[] = [];
+    for (const pack of packs ? packs : []) {
+        const candidates = path.isAbsolute(pack) ? [pack] : folders.map(f => path.join(f, pack));
+        const packPath = await findExisting(candidates);
+        try {
+            if (!packPath) {
+                throw new Error(localize("snippetPackNotFound", "The file doesn't exist."));
+            }
+            // tslint:disable-next-line: no-unsafe-any
+            const snippets: IPolicySnippet[] = await fse.readJson(packPath);
+            if (!Array.isArray(snippets) || snippets.some(s => typeof s.name !== "string" || (typeof s.body !== "string" && !Array.isArray(s.body)))) {
+                throw new Error(localize("invalidSnippetPack", "Expected an array of snippets with a name and a body."));
+            }
+            result.push(...snippets.map(snippet => { return { snippet, pack: path.basename(pack) }; }));
+        } catch (error) {
+            vscode.window.showWarningMessage(localize("snippetPackFailed", `Couldn't load the policy snippet pack '${pack}': ${parseError(error).message}`));
+        }
+    }
+    return result;
+}
+
+async function findExisting(paths: string[]): Promise<string | undefined> {
+    for (const p of paths) {
+        if (await fse.pathExists(p)) {
+            return p;
+        }
+    }
+    return undefined;
+}
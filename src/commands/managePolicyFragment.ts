@@ -0,0 +1,61 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { DialogResponses } from 'vscode-azureextensionui';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { PolicyDiagnosticsProvider } from '../policy/PolicyDiagnosticsProvider';
+import { createFragmentMarker, getPolicyFragment } from '../policy/PolicyFragmentExpander';
+import { policyFragmentLibrary } from '../policy/policyFragmentLibrary';
+
+export async function insertPolicyFragment(): Promise<void> {
+    const editor = getPolicyEditor();
+    const fragments = await policyFragmentLibrary.load();
+    const names = Object.keys(fragments).sort();
+    if (names.length === 0) {
+        throw new Error(localize("noPolicyFragments", `The fragment library '${policyFragmentLibrary.getFolder()}' has no fragments. Create one from a selection in a policy.`));
+    }
+
+    const pick = await ext.ui.showQuickPick(
+        names.map(name => { return { label: name, detail: (<string>fragments[name]).trim().split(/\r?\n/)[0] }; }),
+        { placeHolder: localize("selectPolicyFragment", "Select the fragment to include"), canPickMany: false });
+    await editor.edit(builder => builder.replace(editor.selection, createFragmentMarker(pick.label)));
+}
+
+/**
+ * Saves the selected policies to the fragment library and replaces them with the marker of the fragment.
+ */
+export async function createPolicyFragment(): Promise<void> {
+    const editor = getPolicyEditor();
+    const selection = editor.selection;
+    const content = editor.document.getText(selection).trim();
+    if (content.length === 0) {
+        throw new Error(localize("noFragmentSelection", "Select the policies to make a fragment of."));
+    }
+
+    const fragments = await policyFragmentLibrary.load();
+    const name = await ext.ui.showInputBox({
+        prompt: localize("enterFragmentName", "Enter the name of the fragment"),
+        validateInput: (value: string): string | undefined => {
+            return /^[\w.\-]+$/.test(value) ? undefined : localize("invalidFragmentName", "Fragment names can only have letters, digits, '_', '.' and '-'.");
+        }
+    });
+    if (getPolicyFragment(fragments, name) !== undefined) {
+        await ext.ui.showWarningMessage(localize("overwriteFragment", `The fragment '${name}' already exists. Do you want to overwrite it?`), { modal: true }, DialogResponses.yes);
+    }
+
+    const filePath = await policyFragmentLibrary.save(name, `${content}\n`);
+    await editor.edit(builder => builder.replace(selection, createFragmentMarker(name)));
+    ext.outputChannel.appendLine(localize("savedFragment", `Saved the fragment '${name}' to '${filePath}'.`));
+}
+
+function getPolicyEditor(): vscode.TextEditor {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !PolicyDiagnosticsProvider.isPolicyDocument(editor.document)) {
+        throw new Error(localize("noPolicyEditorForFragment", "Open a policy to use policy fragments."));
+    }
+    return editor;
+}
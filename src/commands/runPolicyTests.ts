@@ -0,0 +1,44 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { OpenDialogOptions, ProgressLocation, Uri, window, workspace } from 'vscode';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { PolicyTestRunner } from '../policy/PolicyTestRunner';
+
+export async function runPolicyTests(): Promise<void> {
+    const folder = (await askFolder())[0];
+    const runner = new PolicyTestRunner();
+    const results = await window.withProgress({ location: ProgressLocation.Notification, title: localize("runningPolicyTests", "Running policy tests...") }, async () => {
+        return await runner.run(folder.fsPath);
+    });
+
+    ext.outputChannel.appendLine(runner.getSummary(results));
+    ext.outputChannel.show();
+
+    const failed = results.filter(r => !r.passed).length;
+    if (results.length === 0) {
+        window.showInformationMessage(localize("noPolicyTests", `No policy tests found in ${folder.fsPath}.`));
+    } else if (failed > 0) {
+        window.showErrorMessage(localize("policyTestsFailed", `${failed} of ${results.length} policy tests failed.`));
+    } else {
+        window.showInformationMessage(localize("policyTestsPassed", `All ${results.length} policy tests passed.`));
+    }
+}
+
+async function askFolder(): Promise<Uri[]> {
+    const openDialogOptions: OpenDialogOptions = {
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: localize("runPolicyTestsLabel", "Run Tests")
+    };
+
+    const rootPath = workspace.rootPath;
+    if (rootPath) {
+        openDialogOptions.defaultUri = Uri.file(rootPath);
+    }
+    return await ext.ui.showOpenDialog(openDialogOptions);
+}
@@ -0,0 +1,142 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ApiContract } from "azure-arm-apimanagement/lib/models";
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { UserCancelledError } from 'vscode-azureextensionui';
+import { ApiOperationTreeItem } from "../explorer/ApiOperationTreeItem";
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { ConsoleHeader } from '../operationConsole/ConsoleHeader';
+import { ConsoleOperation } from '../operationConsole/ConsoleOperation';
+import { subscriptionKeyVariable } from '../operationConsole/ConsoleRequest';
+import { HttpRequestFile } from '../operationConsole/HttpRequestFile';
+import { IConsoleOptions } from '../operationConsole/IConsoleOptions';
+import { getGlobalSetting, getWorkspaceOnlySetting, getWorkspaceSetting, updateGlobalSetting, updateWorkspaceSetting } from '../vsCodeConfig/settings';
+
+const collectionFolderKey = 'testCollectionFolder';
+const defaultCollectionFolder = 'apim-requests';
+const restClientPrefix = 'rest-client';
+const environmentVariablesKey = 'environmentVariables';
+const hostVariable = 'host';
+const apiVersionVariable = 'apiVersion';
+
+interface IEnvironments {
+    [name: string]: { [name: string]: string };
+}
+
+/**
+ * Saves the test request to <workspace>/<collection folder>/<service>/<api>/<operation>.http, using REST Client environment variables
+ * for the gateway host, subscription key and API version. An existing file is merged with the latest operation contract.
+ * The host and API version are stored in the workspace settings, which are usually committed with the collection; the subscription key
+ * is stored in the user settings only.
+ */
+export async function saveOperationRequest(node: ApiOperationTreeItem, options: IConsoleOptions): Promise<void> {
+    const workspaceFolder = await askWorkspaceFolder();
+    const environment = await ext.ui.showInputBox({
+        prompt: localize("enterEnvironmentName", "Enter the name of the REST Client environment for this service"),
+        value: node.root.serviceName
+    });
+
+    const results = await Promise.all([
+        // Keys and tokens go to the REST Client environment or are left out, not into the saved request
+        node.getConsoleOperation(Object.assign({}, options, {
+            subscriptionKey: options.subscriptionKey !== undefined ? `{{${subscriptionKeyVariable}}}` : undefined,
+            authorization: undefined
+        })),
+        node.root.client.api.get(node.root.resourceGroupName, node.root.serviceName, node.root.apiName)]);
+    const consoleOperation = results[0];
+    const api = results[1];
+
+    const collectionFolder = getWorkspaceSetting<string>(collectionFolderKey, workspaceFolder.uri.fsPath);
+    const filePath = path.join(
+        workspaceFolder.uri.fsPath,
+        collectionFolder ? collectionFolder : defaultCollectionFolder,
+        node.root.serviceName,
+        node.root.apiName,
+        `${node.root.opName}.http`);
+
+    let requestFile = createRequestFile(node, consoleOperation, api);
+    if (await fse.pathExists(filePath)) {
+        const existingFile = HttpRequestFile.parse((await fse.readFile(filePath)).toString());
+        requestFile = existingFile.merge(requestFile);
+    }
+    await fse.ensureDir(path.dirname(filePath));
+    await fse.writeFile(filePath, requestFile.toString());
+
+    await updateEnvironment(workspaceFolder, environment, consoleOperation.hostName, api.apiVersion);
+    if (options.subscriptionKey !== undefined) {
+        await updateUserEnvironment(environment, options.subscriptionKey);
+    }
+
+    const document: vscode.TextDocument = await vscode.workspace.openTextDocument(filePath);
+    await vscode.window.showTextDocument(document);
+    ext.outputChannel.appendLine(localize("savedRequest", `Saved request for operation '${node.root.opName}' to '${filePath}' with environment '${environment}'.`));
+}
+
+async function askWorkspaceFolder(): Promise<vscode.WorkspaceFolder> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) {
+        throw new Error(localize("noWorkspaceFolder", "Open a folder to save test requests to the workspace."));
+    } else if (folders.length === 1) {
+        return folders[0];
+    }
+
+    const folder = await vscode.window.showWorkspaceFolderPick({ placeHolder: localize("selectWorkspaceFolder", "Select the workspace folder to save the request to") });
+    if (!folder) {
+        throw new UserCancelledError();
+    }
+    return folder;
+}
+
+function createRequestFile(node: ApiOperationTreeItem, consoleOperation: ConsoleOperation, api: ApiContract): HttpRequestFile {
+    const requestFile = new HttpRequestFile();
+    requestFile.preamble = [
+        `# @name ${node.root.opName}`,
+        `# ${consoleOperation.name} (API '${node.root.apiName}', service '${node.root.serviceName}')`
+    ];
+    requestFile.method = consoleOperation.method;
+    requestFile.url = consoleOperation.requestUrl.replace(`://${consoleOperation.hostName}`, `://{{${hostVariable}}}`);
+    requestFile.headers = consoleOperation.request.headers.filter(header => header.name && header.value);
+    requestFile.body = consoleOperation.request.body;
+
+    const versionSet = api.apiVersionSet;
+    if (api.apiVersion && versionSet) {
+        if (versionSet.versioningScheme === "Segment") {
+            const apiPath = api.path ? `/${api.path}` : "";
+            requestFile.url = requestFile.url.replace(`{{${hostVariable}}}${apiPath}/${api.apiVersion}`, `{{${hostVariable}}}${apiPath}/{{${apiVersionVariable}}}`);
+        } else if (versionSet.versioningScheme === "Query" && versionSet.versionQueryName) {
+            requestFile.url = requestFile.url.replace(`${versionSet.versionQueryName}=${api.apiVersion}`, `${versionSet.versionQueryName}={{${apiVersionVariable}}}`);
+        } else if (versionSet.versioningScheme === "Header" && versionSet.versionHeaderName) {
+            const versionHeader = new ConsoleHeader();
+            versionHeader.name = versionSet.versionHeaderName;
+            versionHeader.value = `{{${apiVersionVariable}}}`;
+            requestFile.headers.push(versionHeader);
+        }
+    }
+
+    return requestFile;
+}
+
+async function updateEnvironment(workspaceFolder: vscode.WorkspaceFolder, environment: string, hostName: string, apiVersion: string | undefined): Promise<void> {
+    const environments = Object.assign({}, getWorkspaceOnlySetting<IEnvironments>(environmentVariablesKey, workspaceFolder.uri.fsPath, restClientPrefix));
+    const variables = Object.assign({}, environments[environment]);
+    variables[hostVariable] = hostName;
+    delete variables[subscriptionKeyVariable];
+    if (apiVersion) {
+        variables[apiVersionVariable] = apiVersion;
+    }
+    environments[environment] = variables;
+    await updateWorkspaceSetting(environmentVariablesKey, environments, workspaceFolder.uri.fsPath, restClientPrefix);
+}
+
+// REST Client merges the environments of the user settings with the ones of the workspace, so the key is defined without being committed.
+async function updateUserEnvironment(environment: string, subscriptionKey: string): Promise<void> {
+    const environments = Object.assign({}, getGlobalSetting<IEnvironments>(environmentVariablesKey, restClientPrefix));
+    environments[environment] = Object.assign({}, environments[environment], { [subscriptionKeyVariable]: subscriptionKey });
+    await updateGlobalSetting(environmentVariablesKey, environments, restClientPrefix);
+}
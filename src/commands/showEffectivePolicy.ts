@@ -0,0 +1,71 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { AzureTreeItem, parseError } from 'vscode-azureextensionui';
+import { emptyGlobalPolicyXml, emptyPolicyXml, policyFormat } from '../constants';
+import { ApiOperationTreeItem } from '../explorer/ApiOperationTreeItem';
+import { IOperationTreeRoot } from '../explorer/IOperationTreeRoot';
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { EffectivePolicyBuilder } from '../policy/EffectivePolicyBuilder';
+import { IScopedPolicy } from '../policy/IScopedPolicy';
+
+/**
+ * Shows the policy that runs for requests to the operation. The policies of the global, product, API and operation scopes are merged locally,
+ * because the management API version the client uses has no export of the calculated policy of an operation.
+ */
+export async function showEffectivePolicy(node?: AzureTreeItem<IOperationTreeRoot>): Promise<void> {
+    if (!node) {
+        node = <ApiOperationTreeItem>await ext.tree.showTreeItemPicker(ApiOperationTreeItem.contextValue);
+    }
+
+    const root = node.root;
+    const productName = await askProduct(root);
+
+    const content = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: localize("calculatingEffectivePolicy", "Calculating the effective policy...") }, async () => {
+        const policies: IScopedPolicy[] = [
+            { label: localize("globalScope", "Global"), xml: await getPolicyOrDefault(async () => (await root.client.policy.get(root.resourceGroupName, root.serviceName, { format: policyFormat })).value, emptyGlobalPolicyXml) }
+        ];
+        if (productName !== undefined) {
+            policies.push({ label: localize("productScope", `Product '${productName}'`), xml: await getPolicyOrDefault(async () => (await root.client.productPolicy.get(root.resourceGroupName, root.serviceName, productName, { format: policyFormat })).value) });
+        }
+        policies.push(
+            { label: localize("apiScope", `API '${root.apiName}'`), xml: await getPolicyOrDefault(async () => (await root.client.apiPolicy.get(root.resourceGroupName, root.serviceName, root.apiName, { format: policyFormat })).value) },
+            { label: localize("operationScope", `Operation '${root.opName}'`), xml: await getPolicyOrDefault(async () => (await root.client.apiOperationPolicy.get(root.resourceGroupName, root.serviceName, root.apiName, root.opName, { format: policyFormat })).value) });
+        return new EffectivePolicyBuilder().build(policies);
+    });
+
+    const uri = ext.readOnlyContent.setContent(`${root.serviceName}/${root.apiName}/${root.opName}${productName !== undefined ? `-${productName}` : ""}.effective.policy.xml`, content);
+    const document = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(document, { preview: false });
+}
+
+/**
+ * The product policy that runs depends on the subscription used for the request, so the user picks one of the products of the API.
+ */
+async function askProduct(root: IOperationTreeRoot): Promise<string | undefined> {
+    const products = await root.client.apiProduct.listByApis(root.resourceGroupName, root.serviceName, root.apiName);
+    if (products.length === 0) {
+        return undefined;
+    }
+
+    const noProduct = { label: localize("noProduct", "No product"), description: localize("noProductDescription", "Requests without a product subscription"), name: <string | undefined>undefined };
+    const picks = products.map(p => { return { label: p.displayName, description: p.name, name: p.name }; });
+    const pick = await ext.ui.showQuickPick([...picks, noProduct], { placeHolder: localize("selectProductForPolicy", "Calculate the policy for requests with a subscription to"), canPickMany: false });
+    return pick.name;
+}
+
+async function getPolicyOrDefault(getPolicy: () => Promise<string>, defaultPolicy: string = emptyPolicyXml): Promise<string> {
+    try {
+        return await getPolicy();
+    } catch (error) {
+        const errorType = parseError(error).errorType.toLowerCase();
+        if (errorType === 'notfound' || errorType === 'resourcenotfound') {
+            return defaultPolicy;
+        }
+        throw error;
+    }
+}
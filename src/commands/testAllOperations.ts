@@ -0,0 +1,134 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ApiManagementModels } from "azure-arm-apimanagement";
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { parseError } from 'vscode-azureextensionui';
+import { ApiOperationsTreeItem } from "../explorer/ApiOperationsTreeItem";
+import { ApiTreeItem } from "../explorer/ApiTreeItem";
+import { IApiTreeRoot } from "../explorer/IApiTreeRoot";
+import { IOperationTreeRoot } from "../explorer/IOperationTreeRoot";
+import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { ConsoleRequestSender } from '../operationConsole/ConsoleRequestSender';
+import { IConsoleOptions } from '../operationConsole/IConsoleOptions';
+import { IOperationTestResult } from '../operationConsole/IOperationTestResult';
+import { OperationConsole } from '../operationConsole/OperationConsole';
+import { OperationTestSuite } from '../operationConsole/OperationTestSuite';
+import { ParameterForm } from '../operationConsole/ParameterForm';
+import { authorizationUtil } from '../utils/authorizationUtil';
+import { createTemporaryFile } from "../utils/fsUtil";
+import { gatewayUtil } from '../utils/gatewayUtil';
+import { nameUtil } from '../utils/nameUtil';
+import { nonNullProp } from '../utils/nonNull';
+import { subscriptionUtil } from '../utils/subscriptionUtil';
+import { writeToEditor } from '../utils/vscodeUtils';
+import { getWorkspaceSetting } from '../vsCodeConfig/settings';
+
+const testConcurrencyKey = 'testConcurrency';
+const defaultTestConcurrency = 4;
+
+export async function testAllOperations(node?: ApiTreeItem | ApiOperationsTreeItem): Promise<void> {
+    if (!node) {
+        node = <ApiTreeItem>await ext.tree.showTreeItemPicker(ApiTreeItem.contextValue);
+    }
+
+    const root = node.root;
+    const operations = await listOperations(root);
+    if (operations.length === 0) {
+        vscode.window.showInformationMessage(localize("noOperationsToTest", `API '${root.apiName}' has no operations to test.`));
+        return;
+    }
+
+    const subscriptionKey = await subscriptionUtil.askSubscriptionKey(root);
+    const authorization = await authorizationUtil.askAuthorizationHeader(root);
+    const gatewayUrl = await gatewayUtil.askGatewayUrl(root);
+    const concurrencySetting = getWorkspaceSetting<number>(testConcurrencyKey);
+    const concurrency = concurrencySetting !== undefined && concurrencySetting > 0 ? concurrencySetting : defaultTestConcurrency;
+
+    const suite = new OperationTestSuite(root.apiName);
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: localize("testingOperations", `Testing ${operations.length} operations of API '${root.apiName}'...`),
+            cancellable: false
+        },
+        async (progress) => {
+            let completed = 0;
+            await suite.run(operations, concurrency, async (operation) => {
+                const result = await testOperation(root, operation, { subscriptionKey, gatewayUrl, authorization });
+                completed++;
+                progress.report({ message: `${completed}/${operations.length}`, increment: 100 / operations.length });
+                return result;
+            });
+        }
+    );
+
+    ext.outputChannel.appendLine(localize("testAllOperationsCompleted", `Tested ${suite.results.length} operations of API '${root.apiName}': ${suite.failures} failed.`));
+
+    const fileName = `${nameUtil(root)}-test-results.log`;
+    const localFilePath: string = await createTemporaryFile(fileName);
+    const document: vscode.TextDocument = await vscode.workspace.openTextDocument(localFilePath);
+    const textEditor: vscode.TextEditor = await vscode.window.showTextDocument(document);
+    await writeToEditor(textEditor, suite.toSummaryString());
+    await textEditor.document.save();
+
+    const exportJUnit = localize("exportJUnit", "Export as JUnit XML");
+    const message = localize("testAllOperationsResult", `${suite.results.length - suite.failures} of ${suite.results.length} operations passed.`);
+    const pick = suite.failures > 0 ? await vscode.window.showWarningMessage(message, exportJUnit) : await vscode.window.showInformationMessage(message, exportJUnit);
+    if (pick === exportJUnit) {
+        await exportJUnitXml(root, suite);
+    }
+}
+
+async function testOperation(apiRoot: IApiTreeRoot, operation: ApiManagementModels.OperationContract, options: IConsoleOptions): Promise<IOperationTestResult> {
+    const root: IOperationTreeRoot = Object.assign({}, apiRoot, { opName: nonNullProp(operation, "name") });
+    const expectedStatusCodes = OperationTestSuite.getExpectedStatusCodes(operation);
+    const result: IOperationTestResult = {
+        name: operation.displayName,
+        method: operation.method.toUpperCase(),
+        requestUrl: operation.urlTemplate,
+        expectedStatusCodes: expectedStatusCodes,
+        elapsed: 0,
+        passed: false
+    };
+
+    try {
+        const parameterValues = new ParameterForm(root, operation).load();
+        const consoleOperation = await new OperationConsole().buildConsoleOperation(root, Object.assign({}, options, { parameterValues }));
+        result.requestUrl = consoleOperation.requestUrl;
+        const response = await new ConsoleRequestSender().send(consoleOperation);
+        result.statusCode = response.statusCode;
+        result.elapsed = response.elapsed;
+        result.passed = OperationTestSuite.isExpectedStatusCode(response.statusCode, expectedStatusCodes);
+    } catch (error) {
+        result.error = parseError(error).message;
+    }
+
+    return result;
+}
+
+async function listOperations(root: IApiTreeRoot): Promise<ApiManagementModels.OperationContract[]> {
+    let operationCollection = await root.client.apiOperation.listByApi(root.resourceGroupName, root.serviceName, root.apiName);
+    const operations: ApiManagementModels.OperationContract[] = operationCollection.slice();
+    while (operationCollection.nextLink) {
+        operationCollection = await root.client.apiOperation.listByApiNext(operationCollection.nextLink);
+        operations.push(...operationCollection);
+    }
+    return operations;
+}
+
+async function exportJUnitXml(root: IApiTreeRoot, suite: OperationTestSuite): Promise<void> {
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.workspace.rootPath ? vscode.Uri.file(path.join(vscode.workspace.rootPath, `${nameUtil(root)}-junit.xml`)) : undefined,
+        filters: { "JUnit XML": ["xml"] }
+    });
+    if (uri) {
+        await fse.writeFile(uri.fsPath, suite.toJUnitXml());
+        vscode.window.showInformationMessage(localize("exportedJUnit", `Exported test results to '${uri.fsPath}'.`));
+    }
+}
@@ -4,23 +4,102 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as vscode from 'vscode';
+import { parseError } from 'vscode-azureextensionui';
+import { traceLocationHeader } from '../constants';
 import { ApiOperationTreeItem } from "../explorer/ApiOperationTreeItem";
 import { ext } from '../extensionVariables';
+import { localize } from '../localize';
+import { ConsoleRequestSender } from '../operationConsole/ConsoleRequestSender';
+import { ConsoleResponse } from '../operationConsole/ConsoleResponse';
+import { IConsoleOptions } from '../operationConsole/IConsoleOptions';
+import { ParameterForm } from '../operationConsole/ParameterForm';
+import { authorizationUtil } from '../utils/authorizationUtil';
 import { createTemporaryFile } from "../utils/fsUtil";
+import { gatewayUtil } from '../utils/gatewayUtil';
 import { nameUtil } from '../utils/nameUtil';
+import { subscriptionUtil } from '../utils/subscriptionUtil';
 import { writeToEditor } from '../utils/vscodeUtils';
+import { saveOperationRequest } from './saveOperationRequest';
 
 export async function testOperation(node?: ApiOperationTreeItem): Promise<void> {
     if (!node) {
         node = <ApiOperationTreeItem>await ext.tree.showTreeItemPicker(ApiOperationTreeItem.contextValue);
     }
 
+    const sendRequest = localize('sendRequest', 'Send request');
+    const openInRestClient = localize('openInRestClient', 'Open as .http file (REST Client)');
+    const saveToWorkspace = localize('saveToWorkspace', 'Save to workspace collection (REST Client)');
+    const option = await ext.ui.showQuickPick([sendRequest, openInRestClient, saveToWorkspace].map((s) => { return { label: s, description: '', detail: '' }; }), { placeHolder: 'How do you want to test the operation?', canPickMany: false });
+
+    const contentType = await askContentType(node);
+    const parameterValues = await new ParameterForm(node.root, node.operationContract).show();
+    const subscriptionKey = await subscriptionUtil.askSubscriptionKey(node.root);
+    const authorization = await authorizationUtil.askAuthorizationHeader(node.root);
+    const gatewayUrl = await gatewayUtil.askGatewayUrl(node.root);
+    const options: IConsoleOptions = { subscriptionKey, contentType, parameterValues, gatewayUrl, authorization };
+
+    if (option.label === sendRequest) {
+        await sendOperationRequest(node, options);
+    } else if (option.label === saveToWorkspace) {
+        await saveOperationRequest(node, options);
+    } else {
+        await openOperationRequest(node, options);
+    }
+}
+
+async function askContentType(node: ApiOperationTreeItem): Promise<string | undefined> {
+    const request = node.operationContract.request;
+    const contentTypes = request && request.representations ? request.representations.map(r => r.contentType) : [];
+    if (contentTypes.length <= 1) {
+        return undefined;
+    }
+
+    const pick = await ext.ui.showQuickPick(contentTypes.map((s) => { return { label: s, description: '', detail: '' }; }), { placeHolder: localize('selectContentType', 'Select the content type of the request body'), canPickMany: false });
+    return pick.label;
+}
+
+async function openOperationRequest(node: ApiOperationTreeItem, options: IConsoleOptions): Promise<void> {
     // using https://github.com/Huachao/vscode-restclient
     const fileName = `${nameUtil(node.root)}.http`;
     const localFilePath: string = await createTemporaryFile(fileName);
-    const data: string = await node.getOperationTestInfo();
+    const data: string = await node.getOperationTestInfo(options);
     const document: vscode.TextDocument = await vscode.workspace.openTextDocument(localFilePath);
     const textEditor: vscode.TextEditor = await vscode.window.showTextDocument(document);
     await writeToEditor(textEditor, data);
     await textEditor.document.save();
 }
+
+async function sendOperationRequest(node: ApiOperationTreeItem, options: IConsoleOptions): Promise<void> {
+    const consoleOperation = await node.getConsoleOperation(options);
+    const response: ConsoleResponse = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: localize("sendingRequest", `Sending ${consoleOperation.method} ${consoleOperation.requestUrl} ...`),
+            cancellable: false
+        },
+        async () => new ConsoleRequestSender().send(consoleOperation)
+    );
+
+    ext.outputChannel.appendLine(localize("requestCompleted", `${consoleOperation.method} ${consoleOperation.requestUrl} completed with status ${response.statusCode} in ${response.elapsed} ms.`));
+
+    const fileName = `${nameUtil(node.root)}-response.http`;
+    const localFilePath: string = await createTemporaryFile(fileName);
+    const document: vscode.TextDocument = await vscode.workspace.openTextDocument(localFilePath);
+    const textEditor: vscode.TextEditor = await vscode.window.showTextDocument(document, vscode.ViewColumn.Beside, true);
+    await writeToEditor(textEditor, response.toDisplayString());
+    await textEditor.document.save();
+
+    const traceLocation = response.getHeaderValue(traceLocationHeader);
+    if (traceLocation) {
+        await showTrace(`${consoleOperation.method} ${consoleOperation.name}`, traceLocation);
+    }
+}
+
+async function showTrace(title: string, traceLocation: string): Promise<void> {
+    try {
+        const trace = await new ConsoleRequestSender().getTrace(traceLocation);
+        await ext.traceTree.showTrace(title, trace);
+    } catch (error) {
+        ext.outputChannel.appendLine(localize("traceDownloadFailed", `Could not download the request trace: ${parseError(error).message}`));
+    }
+}
@@ -101,3 +101,5 @@ export const emptyPolicyXml =
 </policies>`;
 
 export const sessionFolderKey = "currentSessionWorkingFolder";
+
+export const traceLocationHeader = "Ocp-Apim-Trace-Location";
@@ -7,6 +7,8 @@ import { ApiManagementModels } from "azure-arm-apimanagement";
 import { ProgressLocation, window } from "vscode";
 import { AzureParentTreeItem, AzureTreeItem, DialogResponses, ISubscriptionRoot, UserCancelledError } from "vscode-azureextensionui";
 import { localize } from "../localize";
+import { ConsoleOperation } from "../operationConsole/ConsoleOperation";
+import { IConsoleOptions } from "../operationConsole/IConsoleOptions";
 import { OperationConsole } from "../operationConsole/OperationConsole";
 import { nonNullProp } from "../utils/nonNull";
 import { treeUtils } from "../utils/treeUtils";
@@ -76,8 +78,12 @@ export class ApiOperationTreeItem extends AzureParentTreeItem<IOperationTreeRoot
         }
     }
 
-    public async getOperationTestInfo(): Promise<string> {
-        return await new OperationConsole().buildRequestInfo(this.root);
+    public async getOperationTestInfo(options?: IConsoleOptions): Promise<string> {
+        return await new OperationConsole().buildRequestInfo(this.root, options);
+    }
+
+    public async getConsoleOperation(options?: IConsoleOptions): Promise<ConsoleOperation> {
+        return await new OperationConsole().buildConsoleOperation(this.root, options);
     }
 
     private createRoot(subRoot: ISubscriptionRoot): IOperationTreeRoot {
@@ -9,6 +9,7 @@ import { AzureParentTreeItem, AzureTreeItem, DialogResponses, ISubscriptionRoot,
 import { localize } from "../localize";
 import { getResourceGroupFromId } from "../utils/azure";
 import { nonNullProp, nonNullValue } from "../utils/nonNull";
+import { subscriptionUtil } from "../utils/subscriptionUtil";
 import { treeUtils } from '../utils/treeUtils';
 import { ApiOperationTreeItem } from "./ApiOperationTreeItem";
 import { ApiPolicyTreeItem } from "./ApiPolicyTreeItem";
@@ -91,8 +92,7 @@ export class ServiceTreeItem extends AzureParentTreeItem<IServiceTreeRoot> {
     }
 
     public async copySubscriptionKey(): Promise<string> {
-        const subscription = await this.root.client.subscription.get(this.root.resourceGroupName, this.root.serviceName, "master");
-        return subscription.secondaryKey;
+        return await subscriptionUtil.getMasterSubscriptionKey(this.root);
     }
 
     public pickTreeItemImpl(expectedContextValue: string | RegExp): AzureTreeItem<IServiceTreeRoot> | undefined {
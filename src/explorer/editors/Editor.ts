@@ -87,6 +87,22 @@ export abstract class Editor<ContextT> implements vscode.Disposable {
         }
     }
 
+    protected getOpenDocument(context: ContextT): vscode.TextDocument | undefined {
+        const entry = Object.keys(this.fileMap).map((fsPath: string) => this.fileMap[fsPath]).find(([, c]: [vscode.TextDocument, ContextT]) => c === context);
+        return entry ? entry[0] : undefined;
+    }
+
+    // The local file of the editor of the context. Without an editor, the data is written to a new local file, so that diagnostics can show in it.
+    protected async getLocalFilePath(context: ContextT, data: string): Promise<string> {
+        const filePath: string | undefined = Object.keys(this.fileMap).find((fsPath: string) => this.fileMap[fsPath][1] === context);
+        if (filePath) {
+            return filePath;
+        }
+        const localFilePath: string = await createTemporaryFile(await this.getFilename(context));
+        await fse.writeFile(localFilePath, data);
+        return localFilePath;
+    }
+
     protected appendLineToOutput(value: string): void {
         ext.outputChannel.appendLine(value);
         ext.outputChannel.show(true);
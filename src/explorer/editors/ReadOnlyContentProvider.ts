@@ -0,0 +1,39 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+/**
+ * Serves generated documents that are not meant to be edited or uploaded, such as the effective policy of an operation.
+ */
+export class ReadOnlyContentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    public static readonly scheme: string = "azureapim-readonly";
+
+    private readonly contents: { [path: string]: string | undefined } = {};
+    private readonly onDidChangeEmitter: vscode.EventEmitter<vscode.Uri> = new vscode.EventEmitter<vscode.Uri>();
+
+    public get onDidChange(): vscode.Event<vscode.Uri> {
+        return this.onDidChangeEmitter.event;
+    }
+
+    /**
+     * Sets the content of the document at the path and returns its uri. The extension of the path decides the language of the document.
+     */
+    public setContent(path: string, content: string): vscode.Uri {
+        const uri = vscode.Uri.parse(`${ReadOnlyContentProvider.scheme}:/${path}`);
+        this.contents[uri.path] = content;
+        this.onDidChangeEmitter.fire(uri);
+        return uri;
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        const content = this.contents[uri.path];
+        return content !== undefined ? content : "";
+    }
+
+    public dispose(): void {
+        this.onDidChangeEmitter.dispose();
+    }
+}
@@ -4,61 +4,45 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { ApiManagementModels } from "azure-arm-apimanagement";
-import { WebResource } from "ms-rest";
-import * as request from 'request-promise';
 import { ProgressLocation, window } from "vscode";
-import { appendExtensionUserAgent } from "vscode-azureextensionui";
-import { openApiAcceptHeader, openApiExport, openApiSchema, showSavePromptConfigKey, swaggerAcceptHeader, swaggerExport, swaggerSchema } from "../../../constants";
+import { parseError } from "vscode-azureextensionui";
+import { showSavePromptConfigKey } from "../../../constants";
+import { ext } from "../../../extensionVariables";
 import { localize } from "../../../localize";
+import { OpenApiDocumentFormat, openApiDocumentUtil } from "../../../openApi/openApiDocumentUtil";
 import { IOpenApiImportObject } from "../../../openApi/OpenApiImportObject";
 import { OpenApiParser } from "../../../openApi/OpenApiParser";
+import { apiUtil } from "../../../utils/apiUtil";
 import { processError } from "../../../utils/errorUtil";
 import { nonNullProp } from "../../../utils/nonNull";
-import { signRequest } from "../../../utils/signRequest";
+import { getWorkspaceSetting } from "../../../vsCodeConfig/settings";
 import { ApiTreeItem } from "../../ApiTreeItem";
 import { Editor } from "../Editor";
 
+const openApiEditorFormatKey = "openApiEditorFormat";
+
 export class OpenApiEditor extends Editor<ApiTreeItem> {
     constructor() {
         super(showSavePromptConfigKey);
     }
 
     public async getData(context: ApiTreeItem): Promise<string> {
-        try {
-            // Check the supported schemas for API. If no schemas specified then assume open api 3.0
-            const schemas = await context.root.client.apiSchema.listByApi(context.root.resourceGroupName, context.root.serviceName, context.root.apiName);
-            let exportFormat: string = openApiExport;
-            let exportAcceptHeader: string = openApiAcceptHeader;
-            if (schemas.length > 0) {
-                const openApiSchemaSupported = schemas.find((s) => s.contentType === openApiSchema);
-                if (openApiSchemaSupported === undefined) {
-                    const swaggerSchemaSupported = schemas.find((s) => s.contentType === swaggerSchema);
-                    if (swaggerSchemaSupported !== undefined) {
-                        exportFormat = swaggerExport;
-                        exportAcceptHeader = swaggerAcceptHeader;
-                    } else {
-                        throw Error(localize("unSupportedSchema", `'${context.root.apiName}' does not support OpenAPI 2.0 or OpenAPI 3.0 schema.`));
-                    }
-                }
-            }
-
-            const responseDocument = await this.requestOpenAPIDocument(context, exportFormat, exportAcceptHeader);
-            const sourceDocument = await this.processDocument(context, responseDocument);
-            return JSON.stringify(sourceDocument, null, "\t");
-        } catch (error) {
-            throw new Error(processError(error, localize("getOpenAPIDocumentFailed", `Failed to retriev OpenAPI document for API ${context.root.apiName}.`)));
-        }
+        return this.getDocument(context, getEditorFormat());
     }
 
     // tslint:disable: no-unsafe-any
     public async updateData(context: ApiTreeItem, data: string): Promise<string> {
         let openApiDocument: IOpenApiImportObject | undefined;
         try {
-            const documentJson = JSON.parse(data);
+            // The document is read in the format it's written in, which is the one of the editor unless the setting changed since it was opened.
+            const format = openApiDocumentUtil.detectFormat(data);
+            const documentJson = openApiDocumentUtil.parse(data);
+            await ext.openApiDiagnostics.lintBeforeUpload(data, await this.getLocalFilePath(context, data));
             const openApiparser = new OpenApiParser();
             openApiDocument = await openApiparser.parse(documentJson);
 
             openApiparser.updateBackend(openApiDocument.sourceDocument, nonNullProp(context.apiContract, 'serviceUrl'));
+            await apiUtil.confirmApiChanges(context.root, context.root.apiName, openApiDocument, false);
 
             const swaggerJson = JSON.stringify(openApiDocument.sourceDocument);
             const payload: ApiManagementModels.ApiCreateOrUpdateParameter = {
@@ -77,16 +61,19 @@ export class OpenApiEditor extends Editor<ApiTreeItem> {
             ).then(async () => {
                 window.showInformationMessage(localize("updateOpenApiSucceded", `Changes to API '${context.apiContract.name}' were succefully uploaded to cloud.`));
                 await context.refresh();
-                return this.getData(context);
+                return this.getDocument(context, format);
             });
 
         } catch (error) {
+            if (parseError(error).isUserCancelledError) {
+                throw error;
+            }
             throw new Error(processError(error, localize("updateOpenApiFailed", `Changes to the OpenAPI document could not be uploaded to cloud.`)));
         }
     }
 
     public async getFilename(context: ApiTreeItem): Promise<string> {
-        return `${context.root.serviceName}-${context.root.apiName}-openapi.json`;
+        return `${context.root.serviceName}-${context.root.apiName}-openapi.${getEditorFormat()}`;
     }
 
     public async getSize(): Promise<number> {
@@ -97,23 +84,14 @@ export class OpenApiEditor extends Editor<ApiTreeItem> {
         return `Saving will update the API '${context.apiContract.name}'.`;
     }
 
-    // tslint:disable-next-line:no-any
-    private async requestOpenAPIDocument(context: ApiTreeItem, exportFormat: string, exportAcceptHeader: string) : Promise<any> {
-        const requestOptions: WebResource = new WebResource();
-        requestOptions.headers = {
-            ['Accept']: exportAcceptHeader,
-            ['User-Agent']: appendExtensionUserAgent()
-        };
-        requestOptions.url = this.buildAPIExportUrl(context, exportFormat);
-        await signRequest(requestOptions, context.root.client.credentials);
-        // tslint:disable-next-line: await-promise
-        return await request(requestOptions).promise();
-    }
-
-    private buildAPIExportUrl(context: ApiTreeItem, exportFormat: string) : string {
-        let url = `${context.root.environment.resourceManagerEndpointUrl}/subscriptions/${context.root.subscriptionId}/resourceGroups/${context.root.resourceGroupName}/providers/Microsoft.ApiManagement/service/${context.root.serviceName}/apis/${context.root.apiName}`;
-        url = `${url}?export=true&format=${exportFormat}&api-version=2019-01-01`;
-        return url;
+    private async getDocument(context: ApiTreeItem, format: OpenApiDocumentFormat): Promise<string> {
+        try {
+            const responseDocument = await apiUtil.exportOpenApiDocument(context.root, context.root.apiName);
+            const sourceDocument = await this.processDocument(context, responseDocument);
+            return openApiDocumentUtil.stringify(sourceDocument, format);
+        } catch (error) {
+            throw new Error(processError(error, localize("getOpenAPIDocumentFailed", `Failed to retriev OpenAPI document for API ${context.root.apiName}.`)));
+        }
     }
 
     // tslint:disable-next-line:no-any
@@ -136,3 +114,7 @@ export class OpenApiEditor extends Editor<ApiTreeItem> {
         return sourceDocument;
     }
 }
+
+function getEditorFormat(): OpenApiDocumentFormat {
+    return getWorkspaceSetting<string>(openApiEditorFormatKey) === "yaml" ? "yaml" : "json";
+}
@@ -6,6 +6,7 @@
 import { ApiManagementModels } from "azure-arm-apimanagement";
 import { AzureTreeItem } from "vscode-azureextensionui";
 import { emptyPolicyXml, policyFormat } from "../../../constants";
+import { PolicyScope } from "../../../policy/policyCatalog";
 import { IApiTreeRoot } from "../../IApiTreeRoot";
 import { BasePolicyEditor } from "./BasePolicyEditor";
 
@@ -23,4 +24,8 @@ export class ApiPolicyEditor extends BasePolicyEditor<IApiTreeRoot> {
     public getDefaultPolicy() : string {
         return emptyPolicyXml;
     }
+
+    public getPolicyScope(): PolicyScope {
+        return "api";
+    }
 }
@@ -4,11 +4,17 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { ApiManagementModels } from "azure-arm-apimanagement";
-import { window } from "vscode";
-import { AzureTreeItem, IParsedError, parseError } from "vscode-azureextensionui";
+import { TextDocument, window } from "vscode";
+import { AzureTreeItem, DialogResponses, IParsedError, parseError, UserCancelledError } from "vscode-azureextensionui";
 import { policyFormat, showSavePromptConfigKey } from "../../../constants";
 import { ext } from "../../../extensionVariables";
 import { localize } from "../../../localize";
+import { PolicyScope } from "../../../policy/policyCatalog";
+import { policyErrorUtil } from "../../../policy/policyErrorUtil";
+import { PolicyFormattingProvider } from "../../../policy/PolicyFormattingProvider";
+import { IFragmentExpansion, PolicyFragmentExpander, toSourceOffset } from "../../../policy/PolicyFragmentExpander";
+import { policyFragmentLibrary } from "../../../policy/policyFragmentLibrary";
+import { PolicyValidator } from "../../../policy/PolicyValidator";
 import { errorUtil, processError } from "../../../utils/errorUtil";
 import { nameUtil } from "../../../utils/nameUtil";
 import { promptOpenWorkingFolder } from "../../../utils/vscodeUtils";
@@ -23,10 +29,11 @@ export abstract class BasePolicyEditor<TRoot extends IServiceTreeRoot> extends E
     public abstract getDefaultPolicy() : string;
     public abstract getPolicy(context: AzureTreeItem<TRoot>): Promise<string>;
     public abstract updatePolicy(context: AzureTreeItem<TRoot>, policy: ApiManagementModels.PolicyContract): Promise<string>;
+    public abstract getPolicyScope(): PolicyScope;
 
     public async getData(context: AzureTreeItem<TRoot>): Promise<string> {
         try {
-            return await this.getPolicy(context);
+            return await this.downloadPolicy(context);
         } catch (error) {
 // tslint:disable: no-unsafe-any
             const err: IParsedError = parseError(error);
@@ -49,12 +56,23 @@ export abstract class BasePolicyEditor<TRoot extends IServiceTreeRoot> extends E
         return `${nameUtil(context.root)}.policy.cshtml`;
     }
 
+    // The fragment markers of the policy are expanded before the upload, and collapsed back in the policy downloaded after it.
+    // With normalizePolicyOnUpload, the policy was formatted when it was saved, so server errors are located in the saved text.
     public async updateData(context: AzureTreeItem<TRoot>, data: string): Promise<string> {
+        const expansion = new PolicyFragmentExpander(await policyFragmentLibrary.load()).expand(data);
+        await this.confirmUploadWithErrors(expansion.text);
+        const document = this.getOpenDocument(context);
         try {
-            await this.updatePolicy(context, <ApiManagementModels.PolicyContract>{ format: policyFormat, value: data});
+            await this.updatePolicy(context, <ApiManagementModels.PolicyContract>{ format: policyFormat, value: expansion.text});
+            if (document) {
+                ext.policyDiagnostics.clearServerErrors(document);
+            }
             window.showInformationMessage(localize("updatePolicySucceded", `Changes to policy were uploaded to cloud.`));
-            return await this.getPolicy(context);
+            return await this.downloadPolicy(context);
         } catch (error) {
+            if (document) {
+                this.showServerErrors(document, expansion, error);
+            }
             throw new Error(processError(error, localize("updatePolicyFailed", `Changes to policy were not uploaded to cloud.`)));
         }
     }
@@ -68,6 +86,41 @@ export abstract class BasePolicyEditor<TRoot extends IServiceTreeRoot> extends E
 
     public async showEditor(context: AzureTreeItem<TRoot>, sizeLimit?: number /* in Megabytes */): Promise<void> {
         await super.showEditor(context, sizeLimit);
+        if (window.activeTextEditor) {
+            ext.policyDiagnostics.setScope(window.activeTextEditor.document.uri, this.getPolicyScope());
+        }
         await promptOpenWorkingFolder();
     }
+
+    private async downloadPolicy(context: AzureTreeItem<TRoot>): Promise<string> {
+        const policy = await this.getPolicy(context);
+        const collapse = new PolicyFragmentExpander(await policyFragmentLibrary.load()).collapse(policy);
+        if (collapse.modifiedFragments.length > 0) {
+            ext.outputChannel.appendLine(localize("modifiedFragments", `The fragments ${collapse.modifiedFragments.join(", ")} of the policy differ from the fragment library in '${policyFragmentLibrary.getFolder()}', they are left expanded.`));
+        }
+        return PolicyFormattingProvider.isNormalizeOnUploadEnabled() ? PolicyFormattingProvider.normalizeDownload(collapse.text) : collapse.text;
+    }
+
+    // tslint:disable-next-line: no-any
+    private showServerErrors(document: TextDocument, expansion: IFragmentExpansion, error: any): void {
+        const parsedError: IParsedError = parseError(error);
+        if (parsedError.errorType.toLowerCase() === 'validationerror' && error.response) {
+            const body = error.response.body;
+            const errors = policyErrorUtil.parse(typeof body === "string" ? body : JSON.stringify(body));
+            if (errors.length > 0) {
+                ext.policyDiagnostics.setServerErrors(document, errors, expansion.text, offset => toSourceOffset(expansion, offset));
+            }
+        }
+    }
+
+    private async confirmUploadWithErrors(data: string): Promise<void> {
+        const errors = new PolicyValidator(this.getPolicyScope()).validate(data).filter(p => p.severity === "error");
+        if (errors.length > 0) {
+            const message = localize("policyHasErrors", `The policy has ${errors.length} error(s), the first one is: ${errors[0].message} Do you want to upload it anyway?`);
+            const result = await window.showWarningMessage(message, { modal: true }, DialogResponses.upload);
+            if (result !== DialogResponses.upload) {
+                throw new UserCancelledError();
+            }
+        }
+    }
 }
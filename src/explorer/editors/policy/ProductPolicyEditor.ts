@@ -6,6 +6,7 @@
 import { ApiManagementModels } from "azure-arm-apimanagement";
 import { AzureTreeItem } from "vscode-azureextensionui";
 import { emptyPolicyXml, policyFormat } from "../../../constants";
+import { PolicyScope } from "../../../policy/policyCatalog";
 import { IProductTreeRoot } from "../../IProductTreeRoot";
 import { BasePolicyEditor } from "./BasePolicyEditor";
 
@@ -23,4 +24,8 @@ export class ProductPolicyEditor extends BasePolicyEditor<IProductTreeRoot> {
     public getDefaultPolicy() : string {
         return emptyPolicyXml;
     }
+
+    public getPolicyScope(): PolicyScope {
+        return "product";
+    }
 }
@@ -6,6 +6,7 @@
 import { ApiManagementModels } from "azure-arm-apimanagement";
 import { AzureTreeItem } from "vscode-azureextensionui";
 import { emptyGlobalPolicyXml, policyFormat } from "../../../constants";
+import { PolicyScope } from "../../../policy/policyCatalog";
 import { IServiceTreeRoot } from "../../IServiceTreeRoot";
 import { BasePolicyEditor } from "./BasePolicyEditor";
 
@@ -23,4 +24,8 @@ export class ServicePolicyEditor extends BasePolicyEditor<IServiceTreeRoot> {
     public getDefaultPolicy() : string {
         return emptyGlobalPolicyXml;
     }
+
+    public getPolicyScope(): PolicyScope {
+        return "global";
+    }
 }
@@ -10,20 +10,30 @@ import * as vscode from 'vscode';
 import { AzureParentTreeItem, AzureTreeDataProvider, AzureTreeItem, AzureUserInput, createTelemetryReporter, IActionContext, registerCommand, registerEvent, registerUIExtensionVariables } from 'vscode-azureextensionui';
 import { addApiToGateway } from './commands/addApiToGateway';
 import { addApiToProduct } from './commands/addApiToProduct';
+import { bulkApplyPolicy, rollBackBulkPolicyChange } from './commands/bulkApplyPolicy';
+import { checkBreakingChanges } from './commands/checkBreakingChanges';
+import { comparePolicy } from './commands/comparePolicy';
+import { copyRequestAs } from './commands/copyRequestAs';
 import { copySubscriptionKey } from './commands/copySubscriptionKey';
 import { createService } from './commands/createService';
 import { deleteNode } from './commands/deleteNode';
 import { copyDockerRunCommand, generateKubernetesDeployment } from './commands/deployGateway';
+import { evaluatePolicyExpressions } from './commands/evaluatePolicyExpressions';
 import { extractAPI, extractService } from './commands/extract';
 import { generateNewGatewayToken } from './commands/generateNewGatewayToken';
 import { importFunctionApp } from './commands/importFunctionApp/importFunctionApp';
 import { importFunctionAppToApi } from './commands/importFunctionApp/importFunctionApp';
 import { importOpenApi } from './commands/importOpenApi';
 import { importWebApp, importWebAppToApi } from './commands/importWebApp/importWebApp';
+import { insertPolicy } from './commands/insertPolicy';
 import { createNamedValue, updateNamedValue } from './commands/manageNamedValue';
+import { createPolicyFragment, insertPolicyFragment } from './commands/managePolicyFragment';
 import { openInPortal } from './commands/openInPortal';
 import { openWorkingFolder } from './commands/openWorkingFolder';
+import { runPolicyTests } from './commands/runPolicyTests';
 import { setupWorkingFolder } from './commands/setupWorkingFolder';
+import { showEffectivePolicy } from './commands/showEffectivePolicy';
+import { testAllOperations } from './commands/testAllOperations';
 import { testOperation } from './commands/testOperation';
 import { doubleClickDebounceDelay } from './constants';
 import { ApiManagementProvider } from './explorer/ApiManagementProvider';
@@ -39,6 +49,7 @@ import { ApiPolicyEditor } from './explorer/editors/policy/ApiPolicyEditor';
 import { OperationPolicyEditor } from './explorer/editors/policy/OperationPolicyEditor';
 import { ProductPolicyEditor } from './explorer/editors/policy/ProductPolicyEditor';
 import { ServicePolicyEditor } from './explorer/editors/policy/ServicePolicyEditor';
+import { ReadOnlyContentProvider } from './explorer/editors/ReadOnlyContentProvider';
 import { GatewayApisTreeItem } from './explorer/GatewayApisTreeItem';
 import { GatewayApiTreeItem } from './explorer/GatewayApiTreeItem';
 import { GatewayTreeItem } from './explorer/GatewayTreeItem';
@@ -52,6 +63,11 @@ import { ProductTreeItem } from './explorer/ProductTreeItem';
 import { ServicePolicyTreeItem } from './explorer/ServicePolicyTreeItem';
 import { ServiceTreeItem } from './explorer/ServiceTreeItem';
 import { ext } from './extensionVariables';
+import { OpenApiDiagnosticsProvider } from './openApi/OpenApiDiagnosticsProvider';
+import { TraceTreeDataProvider, traceViewId } from './operationConsole/TraceTreeDataProvider';
+import { PolicyDiagnosticsProvider, policyFileExtension } from './policy/PolicyDiagnosticsProvider';
+import { PolicyExpressionProvider } from './policy/PolicyExpressionProvider';
+import { PolicyFormattingProvider } from './policy/PolicyFormattingProvider';
 
 // this method is called when your extension is activated
 // your extension is activated the very first time the command is executed
@@ -71,6 +87,33 @@ export function activateInternal(context: vscode.ExtensionContext) {
     context.subscriptions.push(tree);
     context.subscriptions.push(vscode.window.registerTreeDataProvider('azureApiManagementExplorer', tree));
 
+    const traceTree = new TraceTreeDataProvider();
+    ext.traceTree = traceTree;
+    context.subscriptions.push(traceTree);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider(traceViewId, traceTree));
+
+    const policyDiagnostics = new PolicyDiagnosticsProvider();
+    ext.policyDiagnostics = policyDiagnostics;
+    context.subscriptions.push(policyDiagnostics);
+
+    const openApiDiagnostics = new OpenApiDiagnosticsProvider();
+    ext.openApiDiagnostics = openApiDiagnostics;
+    context.subscriptions.push(openApiDiagnostics);
+
+    const policyExpressions = new PolicyExpressionProvider();
+    const policySelector: vscode.DocumentSelector = { pattern: `**/*${policyFileExtension}` };
+    context.subscriptions.push(vscode.languages.registerCompletionItemProvider(policySelector, policyExpressions, '.'));
+    context.subscriptions.push(vscode.languages.registerHoverProvider(policySelector, policyExpressions));
+
+    const policyFormatting = new PolicyFormattingProvider();
+    context.subscriptions.push(policyFormatting);
+    context.subscriptions.push(vscode.languages.registerDocumentFormattingEditProvider(policySelector, policyFormatting));
+
+    const readOnlyContent = new ReadOnlyContentProvider();
+    ext.readOnlyContent = readOnlyContent;
+    context.subscriptions.push(readOnlyContent);
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(ReadOnlyContentProvider.scheme, readOnlyContent));
+
     registerCommand('azureApiManagement.Refresh', async (node?: AzureTreeItem) => await tree.refresh(node));
     registerCommand('azureApiManagement.selectSubscriptions', () => vscode.commands.executeCommand("azure-account.selectSubscriptions"));
     registerCommand('azureApiManagement.LoadMore', async (node: AzureTreeItem) => await tree.loadMore(node));
@@ -81,8 +124,20 @@ export function activateInternal(context: vscode.ExtensionContext) {
     registerCommand('azureApiManagement.deleteApi', async (node?: AzureTreeItem) => await deleteNode(ApiTreeItem.contextValue, node));
     registerCommand('azureApiManagement.deleteOperation', async (node?: AzureTreeItem) => await deleteNode(ApiOperationTreeItem.contextValue, node));
     registerCommand('azureApiManagement.testOperation', testOperation);
+    registerCommand('azureApiManagement.testAllOperations', testAllOperations);
+    registerCommand('azureApiManagement.copyRequestAs', copyRequestAs);
+    registerCommand('azureApiManagement.showEffectivePolicy', showEffectivePolicy);
+    registerCommand('azureApiManagement.insertPolicy', insertPolicy);
+    registerCommand('azureApiManagement.evaluatePolicyExpressions', evaluatePolicyExpressions);
+    registerCommand('azureApiManagement.runPolicyTests', runPolicyTests);
+    registerCommand('azureApiManagement.insertPolicyFragment', insertPolicyFragment);
+    registerCommand('azureApiManagement.createPolicyFragment', createPolicyFragment);
+    registerCommand('azureApiManagement.bulkApplyPolicy', bulkApplyPolicy);
+    registerCommand('azureApiManagement.rollBackBulkPolicyChange', rollBackBulkPolicyChange);
+    registerCommand('azureApiManagement.comparePolicy', comparePolicy);
     registerCommand('azureApiManagement.importOpenApiByFile', async (node?: ApisTreeItem) => { await importOpenApi(node, false); });
     registerCommand('azureApiManagement.importOpenApiByLink', async (node?: ApisTreeItem) => { await importOpenApi(node, true); });
+    registerCommand('azureApiManagement.checkBreakingChanges', checkBreakingChanges);
     registerCommand('azureApiManagement.createNamedValue', async (node?: NamedValuesTreeItem) => { await createNamedValue(node); });
     registerCommand('azureApiManagement.deleteNamedValue', async (node?: AzureTreeItem) => await deleteNode(NamedValueTreeItem.contextValue, node));
     registerCommand('azureApiManagement.updateNamedValue', updateNamedValue);
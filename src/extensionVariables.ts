@@ -4,6 +4,10 @@
  *--------------------------------------------------------------------------------------------*/
 import { ExtensionContext, OutputChannel } from "vscode";
 import { AzureTreeDataProvider, IAzureUserInput, ITelemetryReporter } from "vscode-azureextensionui";
+import { ReadOnlyContentProvider } from "./explorer/editors/ReadOnlyContentProvider";
+import { OpenApiDiagnosticsProvider } from "./openApi/OpenApiDiagnosticsProvider";
+import { TraceTreeDataProvider } from "./operationConsole/TraceTreeDataProvider";
+import { PolicyDiagnosticsProvider } from "./policy/PolicyDiagnosticsProvider";
 
 /**
  * Namespace for common variables used throughout the extension. They must be initialized in the activate() method of extension.ts
@@ -14,4 +18,8 @@ export namespace ext {
     export let outputChannel: OutputChannel;
     export let ui: IAzureUserInput;
     export let reporter: ITelemetryReporter;
+    export let traceTree: TraceTreeDataProvider;
+    export let policyDiagnostics: PolicyDiagnosticsProvider;
+    export let openApiDiagnostics: OpenApiDiagnosticsProvider;
+    export let readOnlyContent: ReadOnlyContentProvider;
 }
@@ -0,0 +1,91 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IJsonSchema } from "../operationConsole/IJsonSchema";
+
+export type OpenApiOperationMethod = "get" | "put" | "post" | "delete" | "options" | "head" | "patch" | "trace";
+
+/**
+ * The parts of OpenAPI 3.0 and Swagger 2.0 documents that are compared and linted. Objects with a $ref may stand for the object they refer to.
+ * Documents come from users, so the code reading them still checks for values that are null or of the wrong type.
+ */
+export interface IOpenApiDocument {
+    openapi?: string;
+    swagger?: string;
+    info?: { description?: string };
+    host?: string;
+    servers?: {}[];
+    consumes?: string[];
+    produces?: string[];
+    paths?: { [urlTemplate: string]: IOpenApiPathItem };
+    definitions?: { [name: string]: IJsonSchema };
+    securityDefinitions?: { [name: string]: IOpenApiSecurityScheme };
+    components?: {
+        schemas?: { [name: string]: IJsonSchema };
+        parameters?: { [name: string]: IOpenApiParameter };
+        securitySchemes?: { [name: string]: IOpenApiSecurityScheme };
+    };
+}
+
+export interface IOpenApiPathItem {
+    $ref?: string;
+    parameters?: IOpenApiParameter[];
+    // tslint:disable-next-line: no-reserved-keywords
+    get?: IOpenApiOperation;
+    put?: IOpenApiOperation;
+    post?: IOpenApiOperation;
+    // tslint:disable-next-line: no-reserved-keywords
+    delete?: IOpenApiOperation;
+    options?: IOpenApiOperation;
+    head?: IOpenApiOperation;
+    patch?: IOpenApiOperation;
+    trace?: IOpenApiOperation;
+}
+
+export interface IOpenApiOperation {
+    operationId?: string;
+    summary?: string;
+    description?: string;
+    parameters?: IOpenApiParameter[];
+    requestBody?: IOpenApiRequestBody;
+    responses?: { [code: string]: IOpenApiResponse };
+    consumes?: string[];
+    produces?: string[];
+}
+
+// Swagger 2.0 parameters other than body parameters have their schema, like type and enum, in the parameter itself.
+export interface IOpenApiParameter {
+    $ref?: string;
+    name?: string;
+    // tslint:disable-next-line: no-reserved-keywords
+    in?: string;
+    required?: boolean;
+    schema?: IJsonSchema;
+}
+
+export interface IOpenApiRequestBody {
+    $ref?: string;
+    required?: boolean;
+    content?: { [contentType: string]: IOpenApiMediaType };
+}
+
+export interface IOpenApiResponse {
+    $ref?: string;
+    description?: string;
+    content?: { [contentType: string]: IOpenApiMediaType };
+    // Swagger 2.0
+    schema?: IJsonSchema;
+}
+
+export interface IOpenApiMediaType {
+    schema?: IJsonSchema;
+}
+
+export interface IOpenApiSecurityScheme {
+    // tslint:disable-next-line: no-reserved-keywords
+    type?: string;
+    // tslint:disable-next-line: no-reserved-keywords
+    in?: string;
+}
@@ -0,0 +1,301 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+import { IJsonSchema } from "../operationConsole/IJsonSchema";
+import { IOpenApiDocument, IOpenApiMediaType, IOpenApiOperation, IOpenApiParameter, IOpenApiPathItem } from "./IOpenApiDocument";
+import { openApiDocumentUtil } from "./openApiDocumentUtil";
+
+export interface IOpenApiChange {
+    breaking: boolean;
+    // The operation that changes, like GET /pets/{petId}.
+    operation: string;
+    message: string;
+}
+
+interface IOperationEntry {
+    label: string;
+    pathItem: IOpenApiPathItem;
+    operation: IOpenApiOperation;
+}
+
+interface IBody {
+    required: boolean;
+    // The schema of each content type.
+    content: { [contentType: string]: IJsonSchema | undefined };
+}
+
+// Schemas that include themselves are compared to this depth.
+const maxDepth = 10;
+
+/**
+ * Classifies the changes between the deployed OpenAPI document of an API and a new one. Changes that can break existing clients, like removed
+ * operations, new required parameters, narrowed enums or different response types, are breaking; additions are not.
+ * Request schemas are compared as input, which may only get more permissive, and response schemas as output, which may only get more specific.
+ */
+export class OpenApiBreakingChangeDetector {
+    private changes: IOpenApiChange[] = [];
+
+    constructor(private readonly deployed: IOpenApiDocument, private readonly incoming: IOpenApiDocument) {
+    }
+
+    public static getReport(changes: IOpenApiChange[]): string {
+        const lines: string[] = [];
+        if (changes.length === 0) {
+            lines.push(localize("noOpenApiChanges", "No operations, parameters or schemas change."));
+        }
+        for (const breaking of [true, false]) {
+            const items = changes.filter(c => c.breaking === breaking);
+            if (items.length > 0) {
+                lines.push(`${breaking ? localize("breakingChanges", "Breaking changes") : localize("nonBreakingChanges", "Non-breaking changes")} (${items.length})`);
+                lines.push(...items.map(c => `${breaking ? "!" : "+"} ${c.operation}: ${c.message}`), "");
+            }
+        }
+        return `${lines.join("\n").trim()}\n`;
+    }
+
+    public detect(): IOpenApiChange[] {
+        this.changes = [];
+        const deployedOperations = getOperations(this.deployed);
+        const incomingOperations = getOperations(this.incoming);
+        for (const key of Object.keys(deployedOperations)) {
+            const incoming = incomingOperations[key];
+            if (incoming === undefined) {
+                this.add(true, deployedOperations[key].label, localize("operationRemoved", "operation removed"));
+            } else {
+                this.compareOperations(deployedOperations[key], incoming);
+            }
+        }
+        Object.keys(incomingOperations).filter(key => deployedOperations[key] === undefined)
+            .forEach(key => this.add(false, incomingOperations[key].label, localize("operationAdded", "operation added")));
+        return this.changes;
+    }
+
+    private add(breaking: boolean, operation: string, message: string): void {
+        this.changes.push({ breaking, operation, message });
+    }
+
+    private compareOperations(deployed: IOperationEntry, incoming: IOperationEntry): void {
+        const label = incoming.label;
+        const deployedParameters = getParameters(this.deployed, deployed);
+        const incomingParameters = getParameters(this.incoming, incoming);
+        for (const key of Object.keys(incomingParameters)) {
+            const parameter = incomingParameters[key];
+            const name = `${parameter.in} parameter '${parameter.name}'`;
+            const existing = deployedParameters[key];
+            if (existing === undefined) {
+                // Path parameters are part of the URL template, so they are added and removed with the operation.
+                if (parameter.in !== "path") {
+                    this.add(!!parameter.required, label, parameter.required ? localize("requiredParameterAdded", `required ${name} added`) : localize("parameterAdded", `${name} added`));
+                }
+                continue;
+            }
+            if (!existing.required && !!parameter.required) {
+                this.add(true, label, localize("parameterNowRequired", `${name} is now required`));
+            } else if (!!existing.required && !parameter.required) {
+                this.add(false, label, localize("parameterNowOptional", `${name} is now optional`));
+            }
+            this.compareSchemas(label, name, getParameterSchema(existing), getParameterSchema(parameter), true, 0);
+        }
+        Object.keys(deployedParameters).filter(key => incomingParameters[key] === undefined && deployedParameters[key].in !== "path")
+            .forEach(key => this.add(false, label, localize("parameterRemoved", `${deployedParameters[key].in} parameter '${deployedParameters[key].name}' removed`)));
+
+        this.compareRequestBodies(label, getRequestBody(this.deployed, deployed.operation), getRequestBody(this.incoming, incoming.operation));
+        this.compareResponses(label, deployed.operation, incoming.operation);
+    }
+
+    private compareRequestBodies(label: string, deployed: IBody | undefined, incoming: IBody | undefined): void {
+        if (incoming === undefined) {
+            if (deployed !== undefined) {
+                this.add(false, label, localize("requestBodyRemoved", "request body removed"));
+            }
+            return;
+        } else if (deployed === undefined) {
+            this.add(incoming.required, label, incoming.required ? localize("requiredRequestBodyAdded", "required request body added") : localize("requestBodyAdded", "request body added"));
+            return;
+        }
+
+        if (!deployed.required && incoming.required) {
+            this.add(true, label, localize("requestBodyNowRequired", "request body is now required"));
+        }
+        for (const contentType of Object.keys(deployed.content)) {
+            if (incoming.content[contentType] === undefined) {
+                this.add(true, label, localize("requestContentTypeRemoved", `request body no longer accepts ${contentType}`));
+            } else {
+                this.compareSchemas(label, localize("requestBody", "request body"), deployed.content[contentType], incoming.content[contentType], true, 0);
+            }
+        }
+        Object.keys(incoming.content).filter(contentType => deployed.content[contentType] === undefined)
+            .forEach(contentType => this.add(false, label, localize("requestContentTypeAdded", `request body accepts ${contentType}`)));
+    }
+
+    private compareResponses(label: string, deployedOperation: IOpenApiOperation, incomingOperation: IOpenApiOperation): void {
+        const deployedResponses = getResponses(this.deployed, deployedOperation);
+        const incomingResponses = getResponses(this.incoming, incomingOperation);
+        for (const code of Object.keys(deployedResponses)) {
+            const name = localize("responseName", `response ${code}`);
+            const incoming = incomingResponses[code];
+            if (incoming === undefined) {
+                this.add(true, label, localize("responseRemoved", `${name} removed`));
+                continue;
+            }
+            const deployed = deployedResponses[code];
+            for (const contentType of Object.keys(deployed.content)) {
+                if (incoming.content[contentType] === undefined) {
+                    this.add(true, label, localize("responseContentTypeRemoved", `${name} no longer returns ${contentType}`));
+                } else {
+                    this.compareSchemas(label, name, deployed.content[contentType], incoming.content[contentType], false, 0);
+                }
+            }
+            Object.keys(incoming.content).filter(contentType => deployed.content[contentType] === undefined)
+                .forEach(contentType => this.add(false, label, localize("responseContentTypeAdded", `${name} also returns ${contentType}`)));
+        }
+        Object.keys(incomingResponses).filter(code => deployedResponses[code] === undefined)
+            .forEach(code => this.add(false, label, localize("responseAdded", `response ${code} added`)));
+    }
+
+    private compareSchemas(label: string, name: string, deployedSchema: IJsonSchema | undefined, incomingSchema: IJsonSchema | undefined, isInput: boolean, depth: number): void {
+        const deployed = openApiDocumentUtil.resolveRef(this.deployed, deployedSchema);
+        const incoming = openApiDocumentUtil.resolveRef(this.incoming, incomingSchema);
+        if (depth > maxDepth) {
+            return;
+        }
+
+        if (deployed.type !== undefined && incoming.type !== undefined && deployed.type !== incoming.type) {
+            this.add(true, label, localize("schemaTypeChanged", `type of ${name} changed from ${deployed.type} to ${incoming.type}`));
+            return;
+        }
+        this.compareEnums(label, name, deployed.enum, incoming.enum, isInput);
+        this.compareProperties(label, name, deployed, incoming, isInput, depth);
+        if (deployed.items !== undefined && incoming.items !== undefined) {
+            this.compareSchemas(label, `${name}[]`, deployed.items, incoming.items, isInput, depth + 1);
+        }
+    }
+
+    private compareEnums(label: string, name: string, deployed: {}[] | undefined, incoming: {}[] | undefined, isInput: boolean): void {
+        if (!Array.isArray(incoming)) {
+            return;
+        } else if (!Array.isArray(deployed)) {
+            // Restricting any value to a list narrows what requests may send; responses only get more specific.
+            this.add(isInput, label, localize("enumAdded", `${name} is restricted to ${formatValues(incoming)}`));
+            return;
+        }
+        const removed = deployed.filter(v => !containsValue(incoming, v));
+        const added = incoming.filter(v => !containsValue(deployed, v));
+        if (removed.length > 0) {
+            this.add(isInput, label, localize("enumValuesRemoved", `${name} no longer allows ${formatValues(removed)}`));
+        }
+        if (added.length > 0) {
+            // Clients may not handle values they haven't seen in responses before.
+            this.add(!isInput, label, localize("enumValuesAdded", `${name} also allows ${formatValues(added)}`));
+        }
+    }
+
+    private compareProperties(label: string, name: string, deployed: IJsonSchema, incoming: IJsonSchema, isInput: boolean, depth: number): void {
+        const deployedProperties = deployed.properties !== undefined && deployed.properties !== null ? deployed.properties : {};
+        const incomingProperties = incoming.properties !== undefined && incoming.properties !== null ? incoming.properties : {};
+        const deployedRequired: string[] = Array.isArray(deployed.required) ? deployed.required : [];
+        const incomingRequired: string[] = Array.isArray(incoming.required) ? incoming.required : [];
+        for (const property of Object.keys(incomingProperties)) {
+            const propertyName = `${name}.${property}`;
+            const required = incomingRequired.indexOf(property) !== -1;
+            if (deployedProperties[property] === undefined) {
+                this.add(isInput && required, label, required ? localize("requiredPropertyAdded", `required property ${propertyName} added`) : localize("propertyAdded", `property ${propertyName} added`));
+                continue;
+            }
+            if (isInput && required && deployedRequired.indexOf(property) === -1) {
+                this.add(true, label, localize("propertyNowRequired", `property ${propertyName} is now required`));
+            } else if (!isInput && !required && deployedRequired.indexOf(property) !== -1) {
+                this.add(true, label, localize("propertyNoLongerReturned", `property ${propertyName} may no longer be returned`));
+            }
+            this.compareSchemas(label, propertyName, deployedProperties[property], incomingProperties[property], isInput, depth + 1);
+        }
+        Object.keys(deployedProperties).filter(property => incomingProperties[property] === undefined)
+            .forEach(property => this.add(!isInput, label, localize("propertyRemoved", `property ${name}.${property} removed`)));
+    }
+}
+
+function getOperations(document: IOpenApiDocument): { [key: string]: IOperationEntry } {
+    const operations: { [key: string]: IOperationEntry } = {};
+    const paths = document.paths !== undefined && document.paths !== null ? document.paths : {};
+    for (const path of Object.keys(paths)) {
+        const pathItem = openApiDocumentUtil.resolveRef(document, paths[path]);
+        for (const method of openApiDocumentUtil.operationMethods) {
+            const operation = pathItem[method];
+            if (operation !== undefined) {
+                operations[openApiDocumentUtil.getOperationKey(method, path)] = { label: `${method.toUpperCase()} ${path}`, pathItem, operation };
+            }
+        }
+    }
+    return operations;
+}
+
+// The parameters of the path and the operation, except Swagger 2.0 body parameters, by location and name.
+function getParameters(document: IOpenApiDocument, entry: IOperationEntry): { [key: string]: IOpenApiParameter } {
+    const parameters: { [key: string]: IOpenApiParameter } = {};
+    const all = [...(Array.isArray(entry.pathItem.parameters) ? entry.pathItem.parameters : []), ...(Array.isArray(entry.operation.parameters) ? entry.operation.parameters : [])];
+    for (const parameter of all.map(p => openApiDocumentUtil.resolveRef(document, p)).filter(p => typeof p.name === "string" && p.in !== "body")) {
+        // Header names aren't case-sensitive.
+        const name = <string>parameter.name;
+        parameters[`${parameter.in} ${parameter.in === "header" ? name.toLowerCase() : name}`] = parameter;
+    }
+    return parameters;
+}
+
+// OpenAPI 3.0 parameters have a schema, Swagger 2.0 parameters are their own schema.
+function getParameterSchema(parameter: IOpenApiParameter): IJsonSchema {
+    return parameter.schema !== undefined ? parameter.schema : <IJsonSchema><{}>parameter;
+}
+
+function getRequestBody(document: IOpenApiDocument, operation: IOpenApiOperation): IBody | undefined {
+    if (operation.requestBody !== undefined) {
+        const requestBody = openApiDocumentUtil.resolveRef(document, operation.requestBody);
+        return { required: !!requestBody.required, content: getContentSchemas(requestBody.content) };
+    }
+    const parameters = Array.isArray(operation.parameters) ? operation.parameters.map(p => openApiDocumentUtil.resolveRef(document, p)) : [];
+    const bodyParameter = parameters.find(p => p.in === "body");
+    if (bodyParameter === undefined) {
+        return undefined;
+    }
+    const content: { [contentType: string]: IJsonSchema | undefined } = {};
+    getMediaTypes(operation.consumes !== undefined ? operation.consumes : document.consumes).forEach(contentType => content[contentType] = bodyParameter.schema);
+    return { required: !!bodyParameter.required, content };
+}
+
+function getResponses(document: IOpenApiDocument, operation: IOpenApiOperation): { [code: string]: IBody } {
+    const responses: { [code: string]: IBody } = {};
+    const operationResponses = operation.responses !== undefined && operation.responses !== null ? operation.responses : {};
+    for (const code of Object.keys(operationResponses)) {
+        const response = openApiDocumentUtil.resolveRef(document, operationResponses[code]);
+        let content: { [contentType: string]: IJsonSchema | undefined } = {};
+        if (response.content !== undefined) {
+            content = getContentSchemas(response.content);
+        } else if (response.schema !== undefined) {
+            getMediaTypes(operation.produces !== undefined ? operation.produces : document.produces).forEach(contentType => content[contentType] = response.schema);
+        }
+        responses[code] = { required: true, content };
+    }
+    return responses;
+}
+
+function getContentSchemas(content: { [contentType: string]: IOpenApiMediaType } | undefined): { [contentType: string]: IJsonSchema | undefined } {
+    const schemas: { [contentType: string]: IJsonSchema | undefined } = {};
+    const mediaTypes = content !== undefined && content !== null ? content : {};
+    Object.keys(mediaTypes).forEach(contentType => schemas[contentType] = mediaTypes[contentType].schema);
+    return schemas;
+}
+
+// Swagger 2.0 body parameters and responses without consumes or produces are JSON.
+function getMediaTypes(mediaTypes: string[] | undefined): string[] {
+    return Array.isArray(mediaTypes) && mediaTypes.length > 0 ? mediaTypes : ["application/json"];
+}
+
+function containsValue(values: {}[], value: {}): boolean {
+    return values.some(v => JSON.stringify(v) === JSON.stringify(value));
+}
+
+function formatValues(values: {}[]): string {
+    return values.map(v => JSON.stringify(v)).join(", ");
+}
@@ -0,0 +1,137 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as vscode from "vscode";
+import { DialogResponses, parseError, UserCancelledError } from "vscode-azureextensionui";
+import { ext } from "../extensionVariables";
+import { localize } from "../localize";
+import { getDefaultWorkspacePath } from "../utils/fsUtil";
+import { getWorkspaceSetting } from "../vsCodeConfig/settings";
+import { IOpenApiDocument } from "./IOpenApiDocument";
+import { openApiDocumentUtil } from "./openApiDocumentUtil";
+import { IOpenApiLintConfig, IOpenApiLintProblem, OpenApiLinter } from "./OpenApiLinter";
+
+const lintConfigFileKey = "openApiLintConfigFile";
+const defaultLintConfigFile = "apim-openapi-lint.json";
+
+/**
+ * Lints OpenAPI documents before they are imported or uploaded, with the rules of the workspace lint configuration file, and shows the
+ * problems as diagnostics in the file. Files that were linted are linted again as they change, until they are closed.
+ */
+export class OpenApiDiagnosticsProvider implements vscode.Disposable {
+    private readonly diagnostics: vscode.DiagnosticCollection;
+    private readonly lintedFiles: string[] = [];
+    private readonly disposables: vscode.Disposable[] = [];
+    private linter: OpenApiLinter | undefined;
+
+    constructor() {
+        this.diagnostics = vscode.languages.createDiagnosticCollection("apim-openapi");
+        this.disposables.push(
+            this.diagnostics,
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (this.linter !== undefined && this.lintedFiles.indexOf(e.document.uri.fsPath) !== -1) {
+                    this.showProblems(e.document, this.linter);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.diagnostics.delete(document.uri);
+                const index = this.lintedFiles.indexOf(document.uri.fsPath);
+                if (index !== -1) {
+                    this.lintedFiles.splice(index, 1);
+                }
+            }));
+    }
+
+    /**
+     * The lint configuration file. A relative file is in the first workspace folder, or in the extension working folder without a workspace.
+     */
+    public static getConfigFile(): string {
+        const setting = getWorkspaceSetting<string>(lintConfigFileKey);
+        const file = setting ? setting : defaultLintConfigFile;
+        if (path.isAbsolute(file)) {
+            return file;
+        }
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        return path.join(workspaceFolders && workspaceFolders.length > 0 ? workspaceFolders[0].uri.fsPath : getDefaultWorkspacePath(), file);
+    }
+
+    // Without a configuration file, the recommended rules apply.
+    public static async loadConfig(): Promise<IOpenApiLintConfig> {
+        const file = OpenApiDiagnosticsProvider.getConfigFile();
+        if (!await fse.pathExists(file)) {
+            return {};
+        }
+        try {
+            // tslint:disable-next-line: no-unsafe-any
+            return await fse.readJson(file);
+        } catch (error) {
+            throw new Error(localize("invalidLintConfig", `The OpenAPI lint configuration '${file}' isn't valid JSON: ${parseError(error).message}`));
+        }
+    }
+
+    /**
+     * Lints a document before it's imported or uploaded, and asks to continue when it has errors. The problems of a local file show as
+     * diagnostics, the ones of a link in the output.
+     */
+    public async lintBeforeUpload(text: string, source: string): Promise<void> {
+        this.linter = new OpenApiLinter(await OpenApiDiagnosticsProvider.loadConfig());
+        let problems: IOpenApiLintProblem[];
+        if (path.isAbsolute(source)) {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(source));
+            if (this.lintedFiles.indexOf(document.uri.fsPath) === -1) {
+                this.lintedFiles.push(document.uri.fsPath);
+            }
+            problems = this.showProblems(document, this.linter);
+        } else {
+            problems = this.linter.lint(<IOpenApiDocument>openApiDocumentUtil.parse(text, source), text);
+            problems.forEach(p => ext.outputChannel.appendLine(`${source}:${getLine(text, p.start)}: ${p.severity} ${p.rule}: ${p.message}`));
+        }
+
+        const errorCount = problems.filter(p => p.severity === "error").length;
+        if (problems.length > 0) {
+            ext.outputChannel.appendLine(localize("openApiLintSummary", `${source}: ${errorCount} lint errors, ${problems.length - errorCount} warnings and other problems.`));
+            ext.outputChannel.show(true);
+        }
+        if (errorCount > 0) {
+            const result = await vscode.window.showWarningMessage(
+                localize("confirmOpenApiLintErrors", `The OpenAPI document has ${errorCount} lint errors. Do you want to continue?`), { modal: true }, DialogResponses.yes, DialogResponses.cancel);
+            if (result !== DialogResponses.yes) {
+                throw new UserCancelledError();
+            }
+        }
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => { d.dispose(); });
+    }
+
+    private showProblems(document: vscode.TextDocument, linter: OpenApiLinter): IOpenApiLintProblem[] {
+        const text = document.getText();
+        let problems: IOpenApiLintProblem[];
+        try {
+            problems = linter.lint(<IOpenApiDocument>openApiDocumentUtil.parse(text, document.fileName), text);
+        } catch (error) {
+            problems = [{ rule: "syntax", severity: "error", message: parseError(error).message, start: 0, end: 0 }];
+        }
+        this.diagnostics.set(document.uri, problems.map(p => toDiagnostic(document, p)));
+        return problems;
+    }
+}
+
+function toDiagnostic(document: vscode.TextDocument, problem: IOpenApiLintProblem): vscode.Diagnostic {
+    const range = new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end));
+    const severity = problem.severity === "error" ? vscode.DiagnosticSeverity.Error
+        : problem.severity === "warning" ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information;
+    const diagnostic = new vscode.Diagnostic(range, problem.message, severity);
+    diagnostic.source = "apim";
+    diagnostic.code = problem.rule;
+    return diagnostic;
+}
+
+function getLine(text: string, offset: number): number {
+    return text.substring(0, offset).split("\n").length;
+}
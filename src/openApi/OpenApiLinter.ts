@@ -0,0 +1,216 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+import { IJsonSchema } from "../operationConsole/IJsonSchema";
+import { IOpenApiDocument, IOpenApiMediaType, IOpenApiOperation, IOpenApiPathItem, IOpenApiRequestBody, IOpenApiResponse, IOpenApiSecurityScheme } from "./IOpenApiDocument";
+import { openApiDocumentUtil } from "./openApiDocumentUtil";
+
+export type OpenApiLintSeverity = "error" | "warning" | "information" | "off";
+
+export interface IOpenApiLintConfig {
+    // The rule set the rules start from, "recommended" by default.
+    ruleSet?: string;
+    rules?: { [rule: string]: OpenApiLintSeverity };
+}
+
+export interface IOpenApiLintProblem {
+    rule: string;
+    severity: OpenApiLintSeverity;
+    message: string;
+    // The offsets of the key the problem is about, in the text of the document.
+    start: number;
+    end: number;
+}
+
+interface IRuleProblem {
+    rule: string;
+    message: string;
+    // The keys leading to the value the problem is about.
+    path: string[];
+}
+
+const ruleSets: { [name: string]: { [rule: string]: OpenApiLintSeverity } } = {
+    recommended: {
+        "operation-id": "warning",
+        "operation-id-unique": "error",
+        description: "information",
+        servers: "warning",
+        "inline-schema": "information",
+        "security-scheme": "warning"
+    },
+    strict: {
+        "operation-id": "error",
+        "operation-id-unique": "error",
+        description: "warning",
+        servers: "error",
+        "inline-schema": "warning",
+        "security-scheme": "error"
+    }
+};
+
+/**
+ * Checks an OpenAPI 2.0 or 3.0 document for problems that make its import fail or give the API poor metadata. Each rule has a severity
+ * in the rule set, which the rules of the configuration override; rules that are off aren't checked.
+ */
+export class OpenApiLinter {
+    private readonly severities: { [rule: string]: OpenApiLintSeverity };
+
+    constructor(config: IOpenApiLintConfig = {}) {
+        const ruleSet = config.ruleSet !== undefined ? config.ruleSet : "recommended";
+        if (ruleSets[ruleSet] === undefined) {
+            throw new Error(localize("unknownOpenApiRuleSet", `Unknown rule set '${ruleSet}'. Use one of ${Object.keys(ruleSets).join(", ")}.`));
+        }
+        this.severities = { ...ruleSets[ruleSet] };
+        const rules = config.rules !== undefined ? config.rules : {};
+        for (const rule of Object.keys(rules)) {
+            if (this.severities[rule] === undefined) {
+                throw new Error(localize("unknownOpenApiRule", `Unknown rule '${rule}'. The rules are ${Object.keys(ruleSets.recommended).join(", ")}.`));
+            } else if (["error", "warning", "information", "off"].indexOf(rules[rule]) === -1) {
+                throw new Error(localize("invalidOpenApiRuleSeverity", `The severity of rule '${rule}' must be error, warning, information or off.`));
+            }
+            this.severities[rule] = rules[rule];
+        }
+    }
+
+    public lint(document: IOpenApiDocument, text: string): IOpenApiLintProblem[] {
+        const problems = [
+            ...checkOperations(document),
+            ...checkServers(document),
+            ...checkInlineSchemas(document),
+            ...checkSecuritySchemes(document)
+        ];
+        if (document.info !== undefined && !document.info.description) {
+            problems.unshift({ rule: "description", message: localize("missingApiDescription", "The API has no description."), path: ["info"] });
+        }
+        return problems.filter(p => this.severities[p.rule] !== "off").map(p => {
+            const range = locate(text, p.path);
+            return { rule: p.rule, severity: this.severities[p.rule], message: p.message, start: range.start, end: range.end };
+        });
+    }
+}
+
+function forEachOperation(document: IOpenApiDocument, callback: (path: string[], operation: IOpenApiOperation, label: string) => void): void {
+    const paths = document.paths !== undefined && document.paths !== null ? document.paths : {};
+    for (const urlTemplate of Object.keys(paths)) {
+        const pathItem: IOpenApiPathItem = paths[urlTemplate] !== null ? paths[urlTemplate] : {};
+        for (const method of openApiDocumentUtil.operationMethods) {
+            const operation = pathItem[method];
+            if (operation !== undefined && operation !== null) {
+                callback(["paths", urlTemplate, method], operation, `${method.toUpperCase()} ${urlTemplate}`);
+            }
+        }
+    }
+}
+
+function checkOperations(document: IOpenApiDocument): IRuleProblem[] {
+    const problems: IRuleProblem[] = [];
+    const operationIds: { [operationId: string]: string } = {};
+    forEachOperation(document, (path, operation, label) => {
+        if (typeof operation.operationId !== "string" || !operation.operationId) {
+            problems.push({ rule: "operation-id", message: localize("missingOperationId", `${label} has no operationId, so the name of the operation is made up from its URL.`), path });
+        } else if (operationIds[operation.operationId] !== undefined) {
+            problems.push({
+                rule: "operation-id-unique",
+                message: localize("duplicateOperationId", `${label} has the same operationId '${operation.operationId}' as ${operationIds[operation.operationId]}. Operation names must be unique.`),
+                path: [...path, "operationId"]
+            });
+        } else {
+            operationIds[operation.operationId] = label;
+        }
+        if (!operation.summary && !operation.description) {
+            problems.push({ rule: "description", message: localize("missingOperationDescription", `${label} has no summary or description.`), path });
+        }
+    });
+    return problems;
+}
+
+function checkServers(document: IOpenApiDocument): IRuleProblem[] {
+    if (document.openapi !== undefined && (!Array.isArray(document.servers) || document.servers.length === 0)) {
+        return [{ rule: "servers", message: localize("missingServers", "The document has no servers, so the API has no backend URL."), path: ["openapi"] }];
+    } else if (document.swagger !== undefined && !document.host) {
+        return [{ rule: "servers", message: localize("missingHost", "The document has no host, so the API has no backend URL."), path: ["swagger"] }];
+    }
+    return [];
+}
+
+// Object schemas defined in the operation, instead of referenced from the definitions or components, aren't named types in API Management.
+function checkInlineSchemas(document: IOpenApiDocument): IRuleProblem[] {
+    const problems: IRuleProblem[] = [];
+    forEachOperation(document, (path, operation, label) => {
+        const schemas: { path: string[]; schema: IJsonSchema | undefined }[] = [];
+        const requestBody: IOpenApiRequestBody = operation.requestBody !== undefined && operation.requestBody !== null ? operation.requestBody : {};
+        getContentSchemas(requestBody.content).forEach(s => schemas.push({ path: [...path, "requestBody", ...s.path], schema: s.schema }));
+        (Array.isArray(operation.parameters) ? operation.parameters : []).filter(p => p !== null && p.in === "body")
+            .forEach(p => schemas.push({ path: [...path, "parameters", "schema"], schema: p.schema }));
+        const responses = operation.responses !== undefined && operation.responses !== null ? operation.responses : {};
+        for (const code of Object.keys(responses)) {
+            const response: IOpenApiResponse = responses[code] !== null ? responses[code] : {};
+            getContentSchemas(response.content).forEach(s => schemas.push({ path: [...path, "responses", code, ...s.path], schema: s.schema }));
+            if (response.schema !== undefined) {
+                schemas.push({ path: [...path, "responses", code, "schema"], schema: response.schema });
+            }
+        }
+        schemas.filter(s => isInlineObject(s.schema))
+            .forEach(s => problems.push({ rule: "inline-schema", message: localize("inlineSchema", `${label} has an inline object schema. Define it in the document's schemas and reference it, so it has a type name.`), path: s.path }));
+    });
+    return problems;
+}
+
+function getContentSchemas(content: { [contentType: string]: IOpenApiMediaType } | undefined): { path: string[]; schema: IJsonSchema | undefined }[] {
+    const mediaTypes = content !== undefined && content !== null ? content : {};
+    return Object.keys(mediaTypes)
+        .filter(contentType => mediaTypes[contentType] !== null && mediaTypes[contentType].schema !== undefined)
+        .map(contentType => ({ path: ["content", contentType, "schema"], schema: mediaTypes[contentType].schema }));
+}
+
+function isInlineObject(schema: IJsonSchema | undefined): boolean {
+    if (schema === undefined || schema === null || schema.$ref !== undefined) {
+        return false;
+    } else if (schema.type === "array") {
+        return isInlineObject(schema.items);
+    }
+    return schema.properties !== undefined;
+}
+
+// API Management imports API key schemes in a header or the query as the subscription key; other schemes need policies, like validate-jwt.
+function checkSecuritySchemes(document: IOpenApiDocument): IRuleProblem[] {
+    const problems: IRuleProblem[] = [];
+    const components = document.components;
+    const inComponents = components !== undefined && components !== null;
+    const schemes = components !== undefined && components !== null ? components.securitySchemes : document.securityDefinitions;
+    const allSchemes = schemes !== undefined && schemes !== null ? schemes : {};
+    for (const name of Object.keys(allSchemes)) {
+        const scheme: IOpenApiSecurityScheme = allSchemes[name] !== null ? allSchemes[name] : {};
+        if (scheme.type !== "apiKey" || (scheme.in !== "header" && scheme.in !== "query")) {
+            const path = inComponents ? ["components", "securitySchemes", name] : ["securityDefinitions", name];
+            const schemeType = scheme.type === "apiKey" ? `apiKey in ${scheme.in}` : scheme.type;
+            problems.push({ rule: "security-scheme", message: localize("unsupportedSecurityScheme", `API Management doesn't apply the '${schemeType}' security scheme '${name}'. Use a policy to secure the API instead.`), path });
+        }
+    }
+    return problems;
+}
+
+/**
+ * Finds the last key of the path in the JSON or YAML text, looking for each key after the one before it. Keys that aren't found, like the
+ * ones of generated paths, leave the range at the key before them.
+ */
+function locate(text: string, path: string[]): { start: number; end: number } {
+    let range = { start: 0, end: 0 };
+    let offset = 0;
+    for (const key of path) {
+        const escaped = key.replace(/[.*+?^${}()|[\]\\\/]/g, "\\$&");
+        const pattern = new RegExp(`(^|[{,\\s])("${escaped}"|'${escaped}'|${escaped})[ \\t]*:`, "gm");
+        pattern.lastIndex = offset;
+        const match = pattern.exec(text);
+        if (!match) {
+            break;
+        }
+        const start = match.index + match[1].length;
+        range = { start, end: start + match[2].length };
+        offset = range.end;
+    }
+    return range;
+}
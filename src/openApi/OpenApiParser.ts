@@ -3,12 +3,15 @@
  *  Licensed under the MIT License. See License.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as fse from 'fs-extra';
 import * as SwaggerParser from "swagger-parser";
 import { Uri } from "vscode";
 import { parseError } from "vscode-azureextensionui";
 import { ext } from "../extensionVariables";
 import { localize } from "../localize";
+import { requestUtil } from "../utils/requestUtil";
 import { IOpenApiImportObject } from "./OpenApiImportObject";
+import { OpenApiReferenceChecker } from "./OpenApiReferenceChecker";
 
 export class OpenApiParser {
     public async parse(source: string): Promise<IOpenApiImportObject> {
@@ -53,6 +56,21 @@ export class OpenApiParser {
         return importObject;
     }
 
+    // Bundles the files and links that the $refs of a document point to into the document, as the API is created from a single document.
+    // tslint:disable-next-line:no-any
+    public async bundle(source: any, location: string): Promise<any> {
+        // tslint:disable-next-line: no-unsafe-any
+        const references = await new OpenApiReferenceChecker(readDocument).check(source, location);
+        if (references.length === 0) {
+            return source;
+        }
+        try {
+            return await (<ISwaggerBundler><unknown>SwaggerParser).bundle(location, source, {});
+        } catch (e) {
+            throw new Error(localize("openApiBundleError", `Could not bundle the references of the OpenAPI document: ${parseError(e).message}`));
+        }
+    }
+
     public updateBasePath(source: object, basePath: string, proxyHostName: string) : void {
         const version = this.getOpenApiVersion(source);
 
@@ -103,6 +121,16 @@ export class OpenApiParser {
     }
 }
 
+async function readDocument(location: string): Promise<string> {
+    return OpenApiReferenceChecker.isLink(location) ? await requestUtil<string>(location) : (await fse.readFile(location)).toString();
+}
+
+// The typings don't have the overload that takes the location of the document, which $refs are resolved against, with the parsed document.
+interface ISwaggerBundler {
+    // tslint:disable-next-line:no-any
+    bundle(location: string, source: any, options: SwaggerParser.Options): Promise<any>;
+}
+
 interface IOpenApi20 {
     swagger: string;
     host: string;
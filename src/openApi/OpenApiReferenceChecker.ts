@@ -0,0 +1,123 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from "path";
+import * as url from "url";
+import { localize } from "../localize";
+import { openApiDocumentUtil } from "./openApiDocumentUtil";
+
+// Reads the text of a local file or of a link.
+export type OpenApiDocumentReader = (location: string) => Promise<string>;
+
+export interface IOpenApiReference {
+    ref: string;
+    // The file or link the reference is in, and the one it points to.
+    source: string;
+    target: string;
+}
+
+/**
+ * Follows the $refs of an OpenAPI document into the files and links they point to, which are resolved relative to the document that has the
+ * reference, and checks that each one can be read and has the referenced location. Errors name the reference and the file it's in.
+ */
+export class OpenApiReferenceChecker {
+    private readonly documents: { [location: string]: object } = {};
+
+    constructor(private readonly read: OpenApiDocumentReader) {
+    }
+
+    public static isLink(location: string): boolean {
+        return /^https?:\/\//i.test(location);
+    }
+
+    public static resolveLocation(source: string, refPath: string): string {
+        if (OpenApiReferenceChecker.isLink(refPath)) {
+            return refPath;
+        } else if (OpenApiReferenceChecker.isLink(source)) {
+            return url.resolve(source, refPath);
+        }
+        return path.resolve(path.dirname(source), decodeURI(refPath));
+    }
+
+    // Returns the references to other files and links, of the document and of the files it references.
+    public async check(document: object, source: string): Promise<IOpenApiReference[]> {
+        this.documents[source] = document;
+        const external: IOpenApiReference[] = [];
+        const pending: string[] = [source];
+        const visited: string[] = [source];
+        while (pending.length > 0) {
+            const location = <string>pending.shift();
+            for (const ref of getRefs(this.documents[location])) {
+                const hashIndex = ref.indexOf("#");
+                const refPath = hashIndex !== -1 ? ref.substring(0, hashIndex) : ref;
+                const target = refPath ? OpenApiReferenceChecker.resolveLocation(location, refPath) : location;
+                const reference: IOpenApiReference = { ref, source: location, target };
+                if (refPath) {
+                    external.push(reference);
+                }
+
+                const targetDocument = await this.load(reference);
+                resolvePointer(reference, targetDocument, hashIndex !== -1 ? ref.substring(hashIndex + 1) : "");
+                if (visited.indexOf(target) === -1) {
+                    visited.push(target);
+                    pending.push(target);
+                }
+            }
+        }
+        return external;
+    }
+
+    private async load(reference: IOpenApiReference): Promise<object> {
+        const loaded = this.documents[reference.target];
+        if (loaded !== undefined) {
+            return loaded;
+        }
+
+        let text: string;
+        try {
+            text = await this.read(reference.target);
+        } catch (error) {
+            // tslint:disable-next-line: no-unsafe-any
+            throw new Error(localize("openApiRefNotRead", `The reference '${reference.ref}' in '${reference.source}' couldn't be resolved, because '${reference.target}' couldn't be read: ${error.message}`));
+        }
+        try {
+            // tslint:disable-next-line: no-unsafe-any
+            this.documents[reference.target] = openApiDocumentUtil.parse(text, reference.target);
+        } catch (error) {
+            // tslint:disable-next-line: no-unsafe-any
+            throw new Error(localize("openApiRefNotParsed", `The reference '${reference.ref}' in '${reference.source}' couldn't be resolved. ${error.message}`));
+        }
+        return this.documents[reference.target];
+    }
+}
+
+function getRefs(value: {}): string[] {
+    const refs: string[] = [];
+    if (Array.isArray(value)) {
+        value.forEach(item => refs.push(...getRefs(<{}>item)));
+    } else if (typeof value === "object" && value !== null) {
+        const ref = (<{ $ref?: {} }>value).$ref;
+        if (typeof ref === "string") {
+            refs.push(ref);
+        }
+        for (const key of Object.keys(value)) {
+            refs.push(...getRefs((<{ [key: string]: {} }>value)[key]));
+        }
+    }
+    return refs.filter((ref, i) => refs.indexOf(ref) === i);
+}
+
+// Follows a JSON pointer like /components/schemas/Pet, where ~1 stands for / and ~0 for ~.
+function resolvePointer(reference: IOpenApiReference, document: {}, pointer: string): void {
+    let value = document;
+    for (const token of pointer.split("/").slice(1)) {
+        const key = decodeURIComponent(token).replace(/~1/g, "/").replace(/~0/g, "~");
+        const next = typeof value === "object" && value !== null ? (<{ [key: string]: {} }>value)[key] : undefined;
+        if (next === undefined) {
+            throw new Error(localize("openApiRefNotFound", `The reference '${reference.ref}' in '${reference.source}' couldn't be resolved, because '${reference.target}' has nothing at '${pointer}'.`));
+        }
+        value = next;
+    }
+}
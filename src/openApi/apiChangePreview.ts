@@ -0,0 +1,225 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { OperationContract, SchemaContract } from "azure-arm-apimanagement/lib/models";
+import { localize } from "../localize";
+import { IJsonSchema } from "../operationConsole/IJsonSchema";
+import { SampleGenerator } from "../operationConsole/SampleGenerator";
+import { stringifySorted } from "../utils/stringifySorted";
+import { IOpenApiDocument, IOpenApiOperation, IOpenApiParameter } from "./IOpenApiDocument";
+import { openApiDocumentUtil } from "./openApiDocumentUtil";
+
+export interface IApiParameterShape {
+    // path, query or header.
+    location: string;
+    name: string;
+    required: boolean;
+}
+
+export interface IApiOperationShape {
+    // The name and display name of an operation of the API. In a document, they are the operationId and summary, if it has them.
+    name?: string;
+    displayName?: string;
+    method: string;
+    urlTemplate: string;
+    parameters: IApiParameterShape[];
+    requestTypes: string[];
+    responses: string[];
+}
+
+export interface IApiShape {
+    operations: IApiOperationShape[];
+    schemas: { [name: string]: IJsonSchema };
+}
+
+export interface IApiOperationChange {
+    operation: IApiOperationShape;
+    details: string[];
+}
+
+export interface IApiChangeSet {
+    addedOperations: IApiOperationShape[];
+    removedOperations: IApiOperationShape[];
+    modifiedOperations: IApiOperationChange[];
+    addedSchemas: string[];
+    removedSchemas: string[];
+    modifiedSchemas: string[];
+}
+
+/**
+ * Compares the operations and schemas of an API with the ones of the OpenAPI document that is about to replace them. Operations are matched by
+ * method and URL template, whatever their template parameters are named.
+ */
+export namespace apiChangePreview {
+    export function getDocumentShape(document: IOpenApiDocument): IApiShape {
+        const operations: IApiOperationShape[] = [];
+        const paths = document.paths !== undefined && document.paths !== null ? document.paths : {};
+        for (const urlTemplate of Object.keys(paths)) {
+            const pathItem = openApiDocumentUtil.resolveRef(document, paths[urlTemplate]);
+            const pathParameters = Array.isArray(pathItem.parameters) ? pathItem.parameters : [];
+            for (const method of openApiDocumentUtil.operationMethods) {
+                const operation = pathItem[method];
+                if (operation !== undefined) {
+                    operations.push(getOperationShape(document, urlTemplate, method, pathParameters, operation));
+                }
+            }
+        }
+        const schemas = document.components !== undefined && document.components !== null ? document.components.schemas : document.definitions;
+        return { operations, schemas: schemas !== undefined && schemas !== null ? schemas : {} };
+    }
+
+    export function getContractShape(operations: OperationContract[], schemas: SchemaContract[]): IApiShape {
+        return {
+            operations: operations.map(operation => {
+                const request = operation.request !== undefined ? operation.request : {};
+                const parameters: IApiParameterShape[] = [
+                    ...(operation.templateParameters !== undefined ? operation.templateParameters : []).map(p => ({ location: "path", name: p.name, required: true })),
+                    ...(request.queryParameters !== undefined ? request.queryParameters : []).map(p => ({ location: "query", name: p.name, required: !!p.required })),
+                    ...(request.headers !== undefined ? request.headers : []).map(p => ({ location: "header", name: p.name, required: !!p.required }))
+                ];
+                return {
+                    name: operation.name,
+                    displayName: operation.displayName,
+                    method: operation.method.toUpperCase(),
+                    urlTemplate: operation.urlTemplate,
+                    parameters,
+                    requestTypes: (request.representations !== undefined ? request.representations : []).map(r => r.contentType),
+                    responses: (operation.responses !== undefined ? operation.responses : []).map(r => String(r.statusCode))
+                };
+            }),
+            schemas: SampleGenerator.getDefinitions(schemas)
+        };
+    }
+
+    export function compare(current: IApiShape, incoming: IApiShape): IApiChangeSet {
+        const changes: IApiChangeSet = { addedOperations: [], removedOperations: [], modifiedOperations: [], addedSchemas: [], removedSchemas: [], modifiedSchemas: [] };
+        for (const operation of incoming.operations) {
+            const existing = current.operations.find(o => getOperationKey(o) === getOperationKey(operation));
+            if (existing === undefined) {
+                changes.addedOperations.push(operation);
+            } else {
+                const details = compareOperations(existing, operation);
+                if (details.length > 0) {
+                    changes.modifiedOperations.push({ operation: existing, details });
+                }
+            }
+        }
+        changes.removedOperations = current.operations.filter(o => !incoming.operations.some(i => getOperationKey(i) === getOperationKey(o)));
+
+        for (const name of Object.keys(incoming.schemas)) {
+            if (current.schemas[name] === undefined) {
+                changes.addedSchemas.push(name);
+            } else if (stringifySorted(current.schemas[name]) !== stringifySorted(incoming.schemas[name])) {
+                changes.modifiedSchemas.push(name);
+            }
+        }
+        changes.removedSchemas = Object.keys(current.schemas).filter(name => incoming.schemas[name] === undefined);
+        return changes;
+    }
+
+    export function hasChanges(changes: IApiChangeSet): boolean {
+        return changes.addedOperations.length + changes.removedOperations.length + changes.modifiedOperations.length
+            + changes.addedSchemas.length + changes.removedSchemas.length + changes.modifiedSchemas.length > 0;
+    }
+
+    // Removed operations with a policy named in operationsWithPolicies are called out, as the policy is deleted with the operation.
+    export function getReport(apiName: string, changes: IApiChangeSet, operationsWithPolicies: string[] = []): string {
+        const lines = [localize("apiChangesTitle", `Changes to API '${apiName}'`), ""];
+        if (!hasChanges(changes)) {
+            lines.push(localize("noApiChanges", "No operations or schemas change."));
+        }
+        addSection(lines, localize("addedOperations", "Added operations"), changes.addedOperations.map(o => `+ ${getOperationLabel(o)}`));
+        addSection(lines, localize("removedOperations", "Removed operations"), changes.removedOperations.map(o => {
+            const policyNote = o.name !== undefined && operationsWithPolicies.indexOf(o.name) !== -1 ? ` ${localize("operationPolicyDeleted", "(its operation policy is deleted too)")}` : "";
+            return `- ${getOperationLabel(o)}${policyNote}`;
+        }));
+        addSection(lines, localize("modifiedOperations", "Modified operations"), changes.modifiedOperations.map(c => [`~ ${getOperationLabel(c.operation)}`, ...c.details.map(d => `    ${d}`)].join("\n")));
+        addSection(lines, localize("addedSchemas", "Added schemas"), changes.addedSchemas.map(s => `+ ${s}`));
+        addSection(lines, localize("removedSchemas", "Removed schemas"), changes.removedSchemas.map(s => `- ${s}`));
+        addSection(lines, localize("modifiedSchemas", "Modified schemas"), changes.modifiedSchemas.map(s => `~ ${s}`));
+        return `${lines.join("\n").trim()}\n`;
+    }
+
+    export function getOperationLabel(operation: IApiOperationShape): string {
+        const label = `${operation.method} ${operation.urlTemplate}`;
+        return operation.displayName !== undefined && operation.displayName !== label ? `${label} (${operation.displayName})` : label;
+    }
+}
+
+function getOperationShape(document: IOpenApiDocument, urlTemplate: string, method: string, pathParameters: IOpenApiParameter[], operation: IOpenApiOperation): IApiOperationShape {
+    const allParameters: IOpenApiParameter[] = [...pathParameters, ...(Array.isArray(operation.parameters) ? operation.parameters : [])].map(p => openApiDocumentUtil.resolveRef(document, p));
+    const parameters: IApiParameterShape[] = [];
+    // Parameters of the operation override the ones of the path with the same name and location.
+    for (const parameter of allParameters.filter(p => p.in === "path" || p.in === "query" || p.in === "header")) {
+        const index = parameters.findIndex(p => p.location === parameter.in && p.name === parameter.name);
+        const shape = { location: <string>parameter.in, name: <string>parameter.name, required: parameter.in === "path" || !!parameter.required };
+        if (index !== -1) {
+            parameters[index] = shape;
+        } else {
+            parameters.push(shape);
+        }
+    }
+
+    let requestTypes: string[] = [];
+    if (operation.requestBody !== undefined) {
+        const requestBody = openApiDocumentUtil.resolveRef(document, operation.requestBody);
+        requestTypes = Object.keys(requestBody.content !== undefined ? requestBody.content : {});
+    } else if (allParameters.some(p => p.in === "body" || p.in === "formData")) {
+        // Swagger 2.0 body and form parameters take the content types the operation consumes.
+        const consumes = operation.consumes !== undefined ? operation.consumes : document.consumes;
+        requestTypes = Array.isArray(consumes) ? consumes : [];
+    }
+
+    return {
+        name: operation.operationId,
+        displayName: operation.summary,
+        method: method.toUpperCase(),
+        urlTemplate,
+        parameters,
+        requestTypes,
+        responses: Object.keys(operation.responses !== undefined && operation.responses !== null ? operation.responses : {}).filter(code => code !== "default")
+    };
+}
+
+// Template parameters aren't compared, as they are part of the URL template and renaming them doesn't change the operation.
+function compareOperations(current: IApiOperationShape, incoming: IApiOperationShape): string[] {
+    const details: string[] = [];
+    const currentParameters = current.parameters.filter(p => p.location !== "path");
+    const incomingParameters = incoming.parameters.filter(p => p.location !== "path");
+    for (const parameter of incomingParameters) {
+        const existing = currentParameters.find(p => getParameterKey(p) === getParameterKey(parameter));
+        if (existing === undefined) {
+            details.push(localize("parameterAdded", `${parameter.required ? "required " : ""}${parameter.location} parameter '${parameter.name}' added`));
+        } else if (existing.required !== parameter.required) {
+            details.push(localize("parameterRequiredChanged", `${parameter.location} parameter '${parameter.name}' is now ${parameter.required ? "required" : "optional"}`));
+        }
+    }
+    currentParameters.filter(p => !incomingParameters.some(i => getParameterKey(i) === getParameterKey(p)))
+        .forEach(p => details.push(localize("parameterRemoved", `${p.location} parameter '${p.name}' removed`)));
+
+    addListChanges(details, localize("requestContentType", "request content type"), current.requestTypes, incoming.requestTypes);
+    addListChanges(details, localize("response", "response"), current.responses, incoming.responses);
+    return details;
+}
+
+function addListChanges(details: string[], label: string, current: string[], incoming: string[]): void {
+    incoming.filter(i => current.indexOf(i) === -1).forEach(i => details.push(localize("itemAdded", `${label} ${i} added`)));
+    current.filter(c => incoming.indexOf(c) === -1).forEach(c => details.push(localize("itemRemoved", `${label} ${c} removed`)));
+}
+
+function addSection(lines: string[], title: string, items: string[]): void {
+    if (items.length > 0) {
+        lines.push(`${title} (${items.length})`, ...items, "");
+    }
+}
+
+function getOperationKey(operation: IApiOperationShape): string {
+    return openApiDocumentUtil.getOperationKey(operation.method, operation.urlTemplate);
+}
+
+function getParameterKey(parameter: IApiParameterShape): string {
+    // Header names aren't case-sensitive.
+    return `${parameter.location} ${parameter.location === "header" ? parameter.name.toLowerCase() : parameter.name}`;
+}
@@ -0,0 +1,75 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as yaml from "js-yaml";
+import { localize } from "../localize";
+import { OpenApiOperationMethod } from "./IOpenApiDocument";
+
+export type OpenApiDocumentFormat = "json" | "yaml";
+
+export namespace openApiDocumentUtil {
+    export const operationMethods: OpenApiOperationMethod[] = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+    // The format of a file or link, by its extension.
+    export function getFormat(fileName: string): OpenApiDocumentFormat | undefined {
+        const path = fileName.split(/[?#]/)[0].toLowerCase();
+        if (path.endsWith(".json")) {
+            return "json";
+        } else if (path.endsWith(".yaml") || path.endsWith(".yml")) {
+            return "yaml";
+        }
+        return undefined;
+    }
+
+    // Without a known extension, a document that starts with '{' is JSON and anything else is YAML.
+    export function detectFormat(text: string, fileName?: string): OpenApiDocumentFormat {
+        const format = fileName !== undefined ? getFormat(fileName) : undefined;
+        if (format !== undefined) {
+            return format;
+        }
+        return text.trim().startsWith("{") ? "json" : "yaml";
+    }
+
+    // tslint:disable-next-line: no-any
+    export function parse(text: string, fileName?: string): any {
+        const format = detectFormat(text, fileName);
+        let document: {} | null | undefined;
+        try {
+            // The core schema reads dates like 2019-01-01 as strings, so versions aren't turned into timestamps.
+            document = format === "json" ? <{} | null>JSON.parse(text) : <{} | null | undefined>yaml.safeLoad(text, { schema: yaml.CORE_SCHEMA });
+        } catch (error) {
+            throw new Error(localize("openApiDocumentSyntaxError", `The OpenAPI document isn't valid ${format === "json" ? "JSON" : "YAML"}: ${(<Error>error).message}`));
+        }
+        if (typeof document !== "object" || document === null || Array.isArray(document)) {
+            throw new Error(localize("openApiDocumentNotObject", "The OpenAPI document must be an object."));
+        }
+        return document;
+    }
+
+    export function stringify(document: object, format: OpenApiDocumentFormat): string {
+        return format === "json" ? JSON.stringify(document, null, "\t") : yaml.safeDump(document, { noRefs: true, lineWidth: -1 });
+    }
+
+    // Follows references within the document, like #/components/parameters/limit. Anything else, and missing values, are returned as an empty object.
+    export function resolveRef<T extends { $ref?: string }>(document: {}, value: T | undefined): T {
+        const visited: string[] = [];
+        let resolved: { $ref?: string } | undefined = value;
+        while (resolved !== undefined && resolved !== null && typeof resolved.$ref === "string" && resolved.$ref.startsWith("#/") && visited.indexOf(resolved.$ref) === -1) {
+            visited.push(resolved.$ref);
+            let target: { [key: string]: {} | undefined } | undefined = document;
+            for (const token of resolved.$ref.substring(2).split("/")) {
+                target = target !== undefined && target !== null ? <{ [key: string]: {} | undefined } | undefined>target[decodeURIComponent(token).replace(/~1/g, "/").replace(/~0/g, "~")] : undefined;
+            }
+            resolved = target;
+        }
+        return resolved !== undefined && resolved !== null ? <T>resolved : <T>{};
+    }
+
+    // Operations are the same whatever their template parameters are named, and whether their URL template ends with / or not.
+    export function getOperationKey(method: string, urlTemplate: string): string {
+        const path = urlTemplate.split("?")[0].replace(/\{[^}]*\}/g, "{}").replace(/(.)\/$/, "$1");
+        return `${method.toUpperCase()} ${path}`;
+    }
+}
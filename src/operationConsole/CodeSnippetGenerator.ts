@@ -0,0 +1,117 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ConsoleHeader } from "./ConsoleHeader";
+import { ConsoleOperation } from "./ConsoleOperation";
+
+export type SnippetLanguage = "curl" | "powershell" | "csharp" | "python" | "javascript";
+
+/**
+ * Turns a console operation into a client code sample. The trace header is left out, it is only useful when testing from the extension.
+ */
+export class CodeSnippetGenerator {
+    public static readonly languages: { language: SnippetLanguage, label: string }[] = [
+        { language: "curl", label: "curl" },
+        { language: "powershell", label: "PowerShell (Invoke-RestMethod)" },
+        { language: "csharp", label: "C# (HttpClient)" },
+        { language: "python", label: "Python (requests)" },
+        { language: "javascript", label: "JavaScript (fetch)" }
+    ];
+
+    public generate(language: SnippetLanguage, consoleOperation: ConsoleOperation): string {
+        const headers = consoleOperation.request.headers.filter(h => h.name && h.value && h.name.toLowerCase() !== "ocp-apim-trace");
+        const body = consoleOperation.request.body;
+        switch (language) {
+            case "curl":
+                return this.generateCurl(consoleOperation, headers, body);
+            case "powershell":
+                return this.generatePowerShell(consoleOperation, headers, body);
+            case "csharp":
+                return this.generateCSharp(consoleOperation, headers, body);
+            case "python":
+                return this.generatePython(consoleOperation, headers, body);
+            default:
+                return this.generateJavaScript(consoleOperation, headers, body);
+        }
+    }
+
+    private generateCurl(consoleOperation: ConsoleOperation, headers: ConsoleHeader[], body: string): string {
+        const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+        const lines = [`curl -X ${consoleOperation.method} ${quote(consoleOperation.requestUrl)}`];
+        headers.forEach(h => lines.push(`  -H ${quote(`${h.name}: ${h.value}`)}`));
+        if (body) {
+            lines.push(`  --data-raw ${quote(body)}`);
+        }
+        return lines.join(" \\\n");
+    }
+
+    private generatePowerShell(consoleOperation: ConsoleOperation, headers: ConsoleHeader[], body: string): string {
+        const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+        const contentType = headers.find(h => h.name.toLowerCase() === "content-type");
+        const lines = ["$headers = @{"];
+        headers.filter(h => h !== contentType).forEach(h => lines.push(`    ${quote(h.name)} = ${quote(h.value)}`));
+        lines.push("}");
+
+        let invoke = `Invoke-RestMethod -Method ${toPascalCase(consoleOperation.method)} -Uri ${quote(consoleOperation.requestUrl)} -Headers $headers`;
+        if (body) {
+            lines.push("$body = @'", body, "'@");
+            invoke += " -Body $body";
+        }
+        if (contentType) {
+            invoke += ` -ContentType ${quote(contentType.value)}`;
+        }
+        lines.push(invoke);
+        return lines.join("\n");
+    }
+
+    private generateCSharp(consoleOperation: ConsoleOperation, headers: ConsoleHeader[], body: string): string {
+        const contentType = headers.find(h => h.name.toLowerCase() === "content-type");
+        const lines = [
+            "using (var client = new HttpClient())",
+            `using (var request = new HttpRequestMessage(new HttpMethod(${JSON.stringify(consoleOperation.method)}), ${JSON.stringify(consoleOperation.requestUrl)}))`,
+            "{"
+        ];
+        headers.filter(h => h !== contentType).forEach(h => lines.push(`    request.Headers.TryAddWithoutValidation(${JSON.stringify(h.name)}, ${JSON.stringify(h.value)});`));
+        if (body) {
+            const mediaType = contentType ? contentType.value : "text/plain";
+            lines.push(`    request.Content = new StringContent(@"${body.replace(/"/g, '""')}", Encoding.UTF8, ${JSON.stringify(mediaType)});`);
+        }
+        lines.push(
+            "    var response = await client.SendAsync(request);",
+            "    Console.WriteLine($\"{(int)response.StatusCode} {await response.Content.ReadAsStringAsync()}\");",
+            "}");
+        return lines.join("\n");
+    }
+
+    private generatePython(consoleOperation: ConsoleOperation, headers: ConsoleHeader[], body: string): string {
+        const lines = ["import requests", "", `url = ${JSON.stringify(consoleOperation.requestUrl)}`, "headers = {"];
+        headers.forEach(h => lines.push(`    ${JSON.stringify(h.name)}: ${JSON.stringify(h.value)},`));
+        lines.push("}");
+        if (body) {
+            lines.push(`data = ${JSON.stringify(body)}`, "");
+            lines.push(`response = requests.request(${JSON.stringify(consoleOperation.method)}, url, headers=headers, data=data)`);
+        } else {
+            lines.push("");
+            lines.push(`response = requests.request(${JSON.stringify(consoleOperation.method)}, url, headers=headers)`);
+        }
+        lines.push("print(response.status_code, response.text)");
+        return lines.join("\n");
+    }
+
+    private generateJavaScript(consoleOperation: ConsoleOperation, headers: ConsoleHeader[], body: string): string {
+        const lines = [`const response = await fetch(${JSON.stringify(consoleOperation.requestUrl)}, {`, `    method: ${JSON.stringify(consoleOperation.method)},`, "    headers: {"];
+        headers.forEach((h, index) => lines.push(`        ${JSON.stringify(h.name)}: ${JSON.stringify(h.value)}${index < headers.length - 1 ? "," : ""}`));
+        lines.push(body ? "    }," : "    }");
+        if (body) {
+            lines.push(`    body: ${JSON.stringify(body)}`);
+        }
+        lines.push("});", "console.log(response.status, await response.text());");
+        return lines.join("\n");
+    }
+}
+
+function toPascalCase(method: string): string {
+    return method.charAt(0).toUpperCase() + method.substring(1).toLowerCase();
+}
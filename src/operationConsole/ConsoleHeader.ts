@@ -9,14 +9,21 @@ export class ConsoleHeader {
     public name: string;
     public value: string;
     public required: boolean;
+    // tslint:disable-next-line: no-reserved-keywords
+    public type: string;
+    public values: string[];
 
     constructor(contract?: ParameterContract) {
         this.name = "";
         this.value = "";
         this.required = false;
+        this.type = "";
+        this.values = [];
 
         if (contract) {
             this.name = contract.name;
+            this.type = contract.type;
+            this.values = contract.values ? contract.values : [];
 
             if (contract.defaultValue) {
                 this.value = contract.defaultValue;
@@ -6,25 +6,34 @@
 import { OperationContract } from "azure-arm-apimanagement/lib/models";
 import { nonNullProp } from "../utils/nonNull";
 import { ConsoleParameter } from "./ConsoleParameter";
-import { ConsoleRequest } from "./ConsoleRequest";
+import { applyValue, ConsoleRequest } from "./ConsoleRequest";
+import { IConsoleOptions } from "./IConsoleOptions";
+import { SampleGenerator } from "./SampleGenerator";
 
 export class ConsoleOperation {
     public name: string;
     public method: string;
     public hostName: string;
     public uriTemplate: string;
+    public requestUrl: string;
     public templateParameters: ConsoleParameter[];
     public request: ConsoleRequest;
 
-    constructor(hostName: string, operationContract: OperationContract) {
+    constructor(hostName: string, operationContract: OperationContract, options: IConsoleOptions = {}, sampleGenerator?: SampleGenerator) {
         this.hostName = hostName;
         this.name = operationContract.displayName;
         this.method = operationContract.method.toUpperCase();
         this.uriTemplate = operationContract.urlTemplate;
-        this.request = new ConsoleRequest(nonNullProp(operationContract, "request"));
+        this.requestUrl = "";
+        this.request = new ConsoleRequest(nonNullProp(operationContract, "request"), options, sampleGenerator);
         this.templateParameters = operationContract.templateParameters ?  operationContract.templateParameters.map(parameterContract => new ConsoleParameter(parameterContract)) : [];
         if (this.uriTemplate && this.uriTemplate.length > 0 && this.uriTemplate[this.uriTemplate.length - 1] === "*") {
             this.templateParameters.push(new ConsoleParameter({ name: "*", values: [], type: "", required: false }));
         }
+
+        const parameterValues = options.parameterValues;
+        if (parameterValues) {
+            this.templateParameters.forEach(parameter => applyValue(parameter, parameterValues.template));
+        }
     }
 }
@@ -8,13 +8,23 @@ import { ParameterContract } from "azure-arm-apimanagement/lib/models";
 export class ConsoleParameter {
     public name: string;
     public value: string;
+    // tslint:disable-next-line: no-reserved-keywords
+    public type: string;
+    public required: boolean;
+    public values: string[];
 
     constructor(contract?: ParameterContract) {
         this.name = "";
         this.value = "";
+        this.type = "";
+        this.required = false;
+        this.values = [];
 
         if (contract) {
             this.name = contract.name;
+            this.type = contract.type;
+            this.required = !!contract.required;
+            this.values = contract.values ? contract.values : [];
 
             if (contract.defaultValue) {
                 this.value = contract.defaultValue;
@@ -3,9 +3,13 @@
  *  Licensed under the MIT License. See License.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { RequestContract } from "azure-arm-apimanagement/lib/models";
+import { RepresentationContract, RequestContract } from "azure-arm-apimanagement/lib/models";
 import { ConsoleHeader } from "./ConsoleHeader";
 import { ConsoleParameter } from "./ConsoleParameter";
+import { IConsoleOptions } from "./IConsoleOptions";
+import { SampleGenerator } from "./SampleGenerator";
+
+export const subscriptionKeyVariable = "subscriptionKey";
 
 export class ConsoleRequest {
     public queryParameters: ConsoleParameter[];
@@ -15,36 +19,79 @@ export class ConsoleRequest {
 
     private requestHeaders: ConsoleHeader[];
 
-    constructor(requestModel: RequestContract) {
+    constructor(requestModel: RequestContract, options: IConsoleOptions = {}, sampleGenerator?: SampleGenerator) {
         this.description = requestModel.description;
-        const representations = requestModel.representations ? requestModel.representations : [];
+        const representation = ConsoleRequest.getRepresentation(requestModel, options.contentType);
         this.queryParameters = requestModel.queryParameters ? requestModel.queryParameters.map(parameterContract => new ConsoleParameter(parameterContract)) : [];
         this.requestHeaders = requestModel.headers ? requestModel.headers.map(headerContract => new ConsoleHeader(headerContract)) : [];
-        this.headers = this.requestHeaders.filter(header => header.required);
         this.body = "";
 
-        if (representations.length > 0) {
-            if (representations[0].sample) {
-                this.body = representations[0].sample;
+        const parameterValues = options.parameterValues;
+        if (parameterValues) {
+            this.queryParameters.forEach(parameter => applyValue(parameter, parameterValues.query));
+            this.requestHeaders.forEach(header => applyValue(header, parameterValues.headers));
+            this.headers = this.requestHeaders.filter(header => header.value !== "");
+        } else {
+            this.headers = this.requestHeaders.filter(header => header.required);
+        }
+
+        if (representation) {
+            if (representation.sample) {
+                this.body = representation.sample;
+            } else if (representation.typeName && sampleGenerator && isJsonContentType(representation.contentType)) {
+                const sample = sampleGenerator.generate(representation.typeName);
+                if (sample !== undefined) {
+                    this.body = sample;
+                }
             }
 
-            const contentType = representations[0].contentType;
-            if (contentType && this.headers.find(h => h.name === "Content-Type") === undefined) {
+            if (representation.contentType && this.headers.find(h => h.name === "Content-Type") === undefined) {
                 const consoleHeader = new ConsoleHeader();
                 consoleHeader.name = "Content-Type";
-                consoleHeader.value = contentType;
+                consoleHeader.value = representation.contentType;
                 this.headers.push(consoleHeader);
             }
         }
 
-        const keyHeader = new ConsoleHeader();
-        keyHeader.name = "Ocp-Apim-Subscription-Key";
-        keyHeader.value = "{{SusbscriptionKey}}";
-        this.headers.push(keyHeader);
+        if (options.authorization !== undefined) {
+            this.headers = this.headers.filter(header => header.name.toLowerCase() !== "authorization");
+            const authorizationHeader = new ConsoleHeader();
+            authorizationHeader.name = "Authorization";
+            authorizationHeader.value = options.authorization;
+            this.headers.push(authorizationHeader);
+        }
+
+        if (options.subscriptionKey !== undefined) {
+            const keyHeader = new ConsoleHeader();
+            keyHeader.name = "Ocp-Apim-Subscription-Key";
+            keyHeader.value = options.subscriptionKey;
+            this.headers.push(keyHeader);
+        }
 
         const traceHeader = new ConsoleHeader();
         traceHeader.name = "Ocp-Apim-Trace";
         traceHeader.value = "true";
         this.headers.push(traceHeader);
     }
+
+    /**
+     * Returns the representation with the given content type, or the first one if no content type is given.
+     */
+    public static getRepresentation(requestModel: RequestContract, contentType?: string): RepresentationContract | undefined {
+        const representations = requestModel.representations ? requestModel.representations : [];
+        if (contentType !== undefined) {
+            return representations.find(r => r.contentType === contentType);
+        }
+        return representations.length > 0 ? representations[0] : undefined;
+    }
+}
+
+export function applyValue(parameter: { name: string, value: string }, values: { [name: string]: string }): void {
+    if (values[parameter.name] !== undefined) {
+        parameter.value = values[parameter.name];
+    }
+}
+
+function isJsonContentType(contentType: string | undefined): boolean {
+    return !contentType || /[/+]json(;|$)/i.test(contentType);
 }
@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Response } from 'request';
+import * as request from 'request-promise';
+import { requestUtil } from '../utils/requestUtil';
+import { ConsoleOperation } from "./ConsoleOperation";
+import { ConsoleResponse } from "./ConsoleResponse";
+import { ConsoleTrace } from './ConsoleTrace';
+
+export class ConsoleRequestSender {
+    public async send(consoleOperation: ConsoleOperation): Promise<ConsoleResponse> {
+        const headers: { [name: string]: string } = {};
+        consoleOperation.request.headers.forEach(header => {
+            if (header.name && header.value) {
+                headers[header.name] = header.value;
+            }
+        });
+
+        const requestOptions: request.OptionsWithUrl = {
+            method: consoleOperation.method,
+            url: consoleOperation.requestUrl,
+            headers: headers,
+            body: consoleOperation.request.body ? consoleOperation.request.body : undefined,
+            gzip: true,
+            // Return non 2xx responses instead of throwing, they are valid test results.
+            simple: false,
+            resolveWithFullResponse: true
+        };
+
+        const startTime = Date.now();
+        const response = await <Thenable<Response>>request(requestOptions).promise();
+        const elapsed = Date.now() - startTime;
+
+        return new ConsoleResponse(response.statusCode, response.statusMessage, response.headers, this.getBody(response), elapsed);
+    }
+
+    public async getTrace(traceLocation: string): Promise<ConsoleTrace> {
+        const trace: string = await requestUtil(traceLocation);
+        return new ConsoleTrace(JSON.parse(trace));
+    }
+
+    private getBody(response: Response): string {
+        // tslint:disable-next-line: no-unsafe-any
+        return response.body === undefined || response.body === null ? "" : String(response.body);
+    }
+}
@@ -0,0 +1,66 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ConsoleHeader } from "./ConsoleHeader";
+
+export class ConsoleResponse {
+    public statusCode: number;
+    public statusMessage: string;
+    public headers: ConsoleHeader[];
+    public body: string;
+    public elapsed: number; // milliseconds
+
+    constructor(statusCode: number, statusMessage: string, headers: { [name: string]: string | string[] | undefined }, body: string, elapsed: number) {
+        this.statusCode = statusCode;
+        this.statusMessage = statusMessage;
+        this.body = body;
+        this.elapsed = elapsed;
+        this.headers = [];
+
+        Object.keys(headers).forEach(name => {
+            const value = headers[name];
+            const values = Array.isArray(value) ? value : [value];
+            values.forEach(v => {
+                if (v !== undefined) {
+                    const consoleHeader = new ConsoleHeader();
+                    consoleHeader.name = name;
+                    consoleHeader.value = v;
+                    this.headers.push(consoleHeader);
+                }
+            });
+        });
+    }
+
+    public getHeaderValue(name: string): string | undefined {
+        const header = this.headers.find(h => h.name.toLowerCase() === name.toLowerCase());
+        return header ? header.value : undefined;
+    }
+
+    public toDisplayString(): string {
+        let responseSummary = `HTTP/1.1 ${this.statusCode} ${this.statusMessage}\n`;
+
+        this.headers.forEach(header => {
+            responseSummary += `${header.name}: ${header.value}\n`;
+        });
+
+        responseSummary += `\n${this.formatBody()}\n\n`;
+        responseSummary += `# Response time: ${this.elapsed} ms\n`;
+
+        return responseSummary;
+    }
+
+    private formatBody(): string {
+        const contentType = this.getHeaderValue("Content-Type");
+        if (contentType && contentType.toLowerCase().indexOf("json") !== -1) {
+            try {
+                // tslint:disable-next-line: no-unsafe-any
+                return JSON.stringify(JSON.parse(this.body), null, "\t");
+            } catch (error) {
+                // Not valid json, show the body as is.
+            }
+        }
+        return this.body;
+    }
+}
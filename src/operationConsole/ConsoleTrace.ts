@@ -0,0 +1,88 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// tslint:disable: no-any no-unsafe-any
+export const traceSections = ["inbound", "backend", "outbound", "on-error"];
+
+export class ConsoleTraceEntry {
+    public source: string;
+    public timestamp: string;
+    public elapsed: number; // milliseconds
+    public data: any;
+    public error: string | undefined;
+
+    constructor(entry: any, section: string) {
+        this.source = entry && entry.source ? String(entry.source) : "";
+        this.timestamp = entry && entry.timestamp ? String(entry.timestamp) : "";
+        this.elapsed = entry ? parseElapsed(entry.elapsed) : 0;
+        this.data = entry ? entry.data : undefined;
+        this.error = getTraceError(this.source, section, this.data);
+    }
+}
+
+export class ConsoleTraceSection {
+    public name: string;
+    public entries: ConsoleTraceEntry[];
+
+    constructor(name: string, entries: any[]) {
+        this.name = name;
+        this.entries = entries.map(entry => new ConsoleTraceEntry(entry, name));
+    }
+
+    public get hasErrors(): boolean {
+        return this.entries.some(entry => entry.error !== undefined);
+    }
+}
+
+export class ConsoleTrace {
+    public traceId: string;
+    public sections: ConsoleTraceSection[];
+
+    constructor(trace: any) {
+        this.traceId = trace && trace.traceId ? String(trace.traceId) : "";
+        const traceEntries = trace && trace.traceEntries ? trace.traceEntries : {};
+        this.sections = traceSections
+            .filter(name => Array.isArray(traceEntries[name]))
+            .map(name => new ConsoleTraceSection(name, traceEntries[name]));
+    }
+}
+
+// Elapsed time is a .NET TimeSpan string, e.g. "00:00:00.0012345".
+function parseElapsed(elapsed: any): number {
+    if (typeof elapsed === "number") {
+        return elapsed;
+    }
+
+    const matches = typeof elapsed === "string" ? elapsed.match(/^(?:(\d+)\.)?(\d+):(\d+):(\d+(?:\.\d+)?)$/) : null;
+    if (!matches) {
+        return 0;
+    }
+
+    const days = matches[1] ? Number(matches[1]) : 0;
+    const seconds = ((days * 24 + Number(matches[2])) * 60 + Number(matches[3])) * 60 + Number(matches[4]);
+    return Math.round(seconds * 1000000) / 1000;
+}
+
+function getTraceError(source: string, section: string, data: any): string | undefined {
+    if (data === undefined || data === null) {
+        return undefined;
+    }
+
+    if (typeof data === "object") {
+        const error = data.error !== undefined ? data.error : data.exception;
+        if (error !== undefined && error !== null) {
+            if (typeof error === "object") {
+                return error.message ? String(error.message) : JSON.stringify(error);
+            }
+            return String(error);
+        }
+
+        if ((section === "on-error" || source.toLowerCase().indexOf("error") !== -1) && data.message) {
+            return String(data.message);
+        }
+    }
+
+    return undefined;
+}
@@ -0,0 +1,129 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ConsoleHeader } from "./ConsoleHeader";
+
+const requestSeparator = "###";
+
+/**
+ * A single request in REST Client (.http) format. Anything after a `###` separator is kept as is.
+ */
+export class HttpRequestFile {
+    public preamble: string[] = [];
+    public method: string = "";
+    public url: string = "";
+    public httpVersion: string = "HTTP/1.1";
+    public headers: ConsoleHeader[] = [];
+    public body: string = "";
+    public trailer: string = "";
+
+    public static parse(text: string): HttpRequestFile {
+        const file = new HttpRequestFile();
+        const lines = text.replace(/\r\n/g, "\n").split("\n");
+        let index = 0;
+
+        while (index < lines.length && isPreambleLine(lines[index])) {
+            file.preamble.push(lines[index]);
+            index++;
+        }
+        while (file.preamble.length > 0 && file.preamble[file.preamble.length - 1].trim() === "") {
+            file.preamble.pop();
+        }
+
+        if (index < lines.length && !lines[index].startsWith(requestSeparator)) {
+            const parts = lines[index].trim().split(/\s+/);
+            file.method = parts[0];
+            file.url = parts.length > 1 ? parts[1] : "";
+            file.httpVersion = parts.length > 2 ? parts[2] : file.httpVersion;
+            index++;
+
+            while (index < lines.length && lines[index].trim() !== "" && !lines[index].startsWith(requestSeparator)) {
+                const separator = lines[index].indexOf(":");
+                const header = new ConsoleHeader();
+                header.name = separator !== -1 ? lines[index].substring(0, separator).trim() : lines[index].trim();
+                header.value = separator !== -1 ? lines[index].substring(separator + 1).trim() : "";
+                file.headers.push(header);
+                index++;
+            }
+
+            const bodyLines: string[] = [];
+            while (index < lines.length && !lines[index].startsWith(requestSeparator)) {
+                bodyLines.push(lines[index]);
+                index++;
+            }
+            file.body = bodyLines.join("\n").trim();
+        }
+
+        file.trailer = lines.slice(index).join("\n").trim();
+        return file;
+    }
+
+    public getHeader(name: string): ConsoleHeader | undefined {
+        return this.headers.find(h => h.name.toLowerCase() === name.toLowerCase());
+    }
+
+    /**
+     * Merges a request generated from the latest operation contract into this one.
+     * Method and URL come from the generated request, while query parameter values, headers and body edited by hand are kept.
+     */
+    public merge(generated: HttpRequestFile): HttpRequestFile {
+        const merged = new HttpRequestFile();
+        merged.preamble = this.preamble.length > 0 ? this.preamble : generated.preamble;
+        merged.method = generated.method;
+        merged.url = mergeUrl(this.url, generated.url);
+        merged.httpVersion = generated.httpVersion;
+        merged.headers = this.headers.concat(generated.headers.filter(h => this.getHeader(h.name) === undefined));
+        merged.body = this.body !== "" ? this.body : generated.body;
+        merged.trailer = this.trailer;
+        return merged;
+    }
+
+    public toString(): string {
+        const lines = this.preamble.length > 0 ? this.preamble.concat("") : [];
+        lines.push(`${this.method} ${this.url} ${this.httpVersion}`);
+        this.headers.forEach(header => lines.push(`${header.name}: ${header.value}`));
+        lines.push("");
+        if (this.body !== "") {
+            lines.push(this.body, "");
+        }
+        if (this.trailer !== "") {
+            lines.push(this.trailer, "");
+        }
+        return lines.join("\n");
+    }
+}
+
+function isPreambleLine(line: string): boolean {
+    const trimmed = line.trim();
+    return trimmed === "" || trimmed.startsWith("@") || trimmed.startsWith("//") || (trimmed.startsWith("#") && !trimmed.startsWith(requestSeparator));
+}
+
+function mergeUrl(existingUrl: string, generatedUrl: string): string {
+    const existingQuery = parseQuery(existingUrl);
+    const generatedQuery = parseQuery(generatedUrl);
+    if (existingQuery.length === 0) {
+        return generatedUrl;
+    }
+
+    const query = generatedQuery.map(parameter => {
+        const existing = existingQuery.find(p => p[0] === parameter[0]);
+        return existing ? existing : parameter;
+    });
+    existingQuery.filter(parameter => generatedQuery.find(p => p[0] === parameter[0]) === undefined).forEach(parameter => query.push(parameter));
+
+    const path = generatedUrl.split("?")[0];
+    return `${path}?${query.map(p => p[1] !== undefined ? `${p[0]}=${p[1]}` : p[0]).join("&")}`;
+}
+
+function parseQuery(url: string): [string, string | undefined][] {
+    const separator = url.indexOf("?");
+    if (separator === -1) {
+        return [];
+    }
+    return url.substring(separator + 1).split("&").filter(p => p !== "").map(p => {
+        const equals = p.indexOf("=");
+        return <[string, string | undefined]>(equals !== -1 ? [p.substring(0, equals), p.substring(equals + 1)] : [p, undefined]);
+    });
+}
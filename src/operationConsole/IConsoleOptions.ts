@@ -0,0 +1,14 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IParameterValues } from "./IParameterValues";
+
+export interface IConsoleOptions {
+    subscriptionKey?: string;
+    contentType?: string;
+    parameterValues?: IParameterValues;
+    gatewayUrl?: string; // protocol and host of the gateway, the managed gateway if not set
+    authorization?: string; // value of the Authorization header, e.g. "Bearer <token>"
+}
@@ -0,0 +1,25 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// The parts of JSON schemas, as in swagger definitions and OpenAPI components, that samples and comparisons use.
+export interface IJsonSchema {
+    $ref?: string;
+    // tslint:disable-next-line: no-reserved-keywords
+    type?: string;
+    format?: string;
+    example?: {};
+    // tslint:disable-next-line: no-reserved-keywords
+    default?: {};
+    // tslint:disable-next-line: no-reserved-keywords
+    enum?: {}[];
+    minimum?: number;
+    allOf?: IJsonSchema[];
+    oneOf?: IJsonSchema[];
+    anyOf?: IJsonSchema[];
+    items?: IJsonSchema;
+    properties?: { [name: string]: IJsonSchema };
+    required?: string[];
+    readOnly?: boolean;
+}
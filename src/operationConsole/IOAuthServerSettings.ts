@@ -0,0 +1,12 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface IOAuthServerSettings {
+    tokenEndpoint: string;
+    deviceAuthorizationEndpoint?: string;
+    clientId: string;
+    clientSecret?: string;
+    scope?: string;
+}
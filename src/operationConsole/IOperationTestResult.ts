@@ -0,0 +1,15 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface IOperationTestResult {
+    name: string;
+    method: string;
+    requestUrl: string;
+    statusCode?: number;
+    expectedStatusCodes: number[];
+    elapsed: number; // milliseconds
+    passed: boolean;
+    error?: string;
+}
@@ -0,0 +1,10 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface IParameterValues {
+    template: { [name: string]: string };
+    query: { [name: string]: string };
+    headers: { [name: string]: string };
+}
@@ -0,0 +1,149 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Response } from 'request';
+import * as request from 'request-promise';
+import { CancellationToken, Disposable } from 'vscode';
+import { UserCancelledError } from 'vscode-azureextensionui';
+import { localize } from '../localize';
+import { IDeviceCode } from './IDeviceCode';
+import { IOAuthServerSettings } from './IOAuthServerSettings';
+
+// tslint:disable: no-any no-unsafe-any
+const deviceCodeGrantType = "urn:ietf:params:oauth:grant-type:device_code";
+const expirySkew = 60; // seconds
+
+interface ICachedToken {
+    accessToken: string;
+    expiresOn: number;
+}
+
+/**
+ * Gets access tokens with the OAuth 2.0 client credentials or device code flow. Tokens are cached until shortly before they expire.
+ */
+export class OAuthTokenProvider {
+    private static tokenCache: { [key: string]: ICachedToken } = {};
+
+    public static clearCache(): void {
+        OAuthTokenProvider.tokenCache = {};
+    }
+
+    public async getClientCredentialsToken(settings: IOAuthServerSettings): Promise<string> {
+        return this.getCachedToken("client_credentials", settings, async () => {
+            const response = await this.post(settings.tokenEndpoint, this.getTokenForm(settings, { grant_type: "client_credentials" }));
+            return this.parseTokenResponse(response);
+        });
+    }
+
+    /**
+     * Starts the device code flow and polls the token endpoint until the user has signed in with the code passed to `onDeviceCode`,
+     * or until the wait is cancelled.
+     */
+    public async getDeviceCodeToken(settings: IOAuthServerSettings, onDeviceCode: (deviceCode: IDeviceCode) => void, cancellation?: CancellationToken): Promise<string> {
+        return this.getCachedToken("device_code", settings, async () => {
+            if (!settings.deviceAuthorizationEndpoint) {
+                throw new Error(localize("noDeviceAuthorizationEndpoint", "The authorization server doesn't have a device authorization endpoint."));
+            }
+
+            const form: { [name: string]: string } = { client_id: settings.clientId };
+            if (settings.scope) {
+                form.scope = settings.scope;
+            }
+            const deviceResponse = await this.post(settings.deviceAuthorizationEndpoint, form);
+            const device = this.parseJson(deviceResponse);
+            if (deviceResponse.statusCode !== 200 || !device.device_code) {
+                throw new Error(this.getErrorMessage(device, deviceResponse));
+            }
+
+            onDeviceCode({
+                userCode: String(device.user_code),
+                verificationUri: String(device.verification_uri ? device.verification_uri : device.verification_url),
+                message: device.message ? String(device.message) : undefined
+            });
+
+            let interval = typeof device.interval === "number" ? device.interval : 5;
+            const expiresOn = Date.now() + (typeof device.expires_in === "number" ? device.expires_in : 900) * 1000;
+            while (Date.now() < expiresOn) {
+                await this.wait(interval, cancellation);
+                if (cancellation !== undefined && cancellation.isCancellationRequested) {
+                    throw new UserCancelledError();
+                }
+                const response = await this.post(settings.tokenEndpoint, this.getTokenForm(settings, { grant_type: deviceCodeGrantType, device_code: String(device.device_code) }));
+                const body = this.parseJson(response);
+                if (body.error === "authorization_pending") {
+                    continue;
+                } else if (body.error === "slow_down") {
+                    interval += 5;
+                    continue;
+                }
+                return this.parseTokenResponse(response);
+            }
+
+            throw new Error(localize("deviceCodeExpired", "The device code expired before sign-in completed."));
+        });
+    }
+
+    private async getCachedToken(flow: string, settings: IOAuthServerSettings, acquireToken: () => Promise<ICachedToken>): Promise<string> {
+        const key = [flow, settings.tokenEndpoint, settings.clientId, settings.scope].join("|");
+        const cachedToken: ICachedToken | undefined = OAuthTokenProvider.tokenCache[key];
+        if (cachedToken !== undefined && cachedToken.expiresOn > Date.now()) {
+            return cachedToken.accessToken;
+        }
+
+        const token = await acquireToken();
+        OAuthTokenProvider.tokenCache[key] = token;
+        return token.accessToken;
+    }
+
+    // Waits for the next poll, or until the wait is cancelled.
+    private async wait(seconds: number, cancellation: CancellationToken | undefined): Promise<void> {
+        const listeners: Disposable[] = [];
+        await new Promise<void>((resolve: () => void): void => {
+            setTimeout(resolve, seconds * 1000);
+            if (cancellation !== undefined) {
+                listeners.push(cancellation.onCancellationRequested(resolve));
+            }
+        });
+        listeners.forEach(listener => listener.dispose());
+    }
+
+    private getTokenForm(settings: IOAuthServerSettings, form: { [name: string]: string }): { [name: string]: string } {
+        form.client_id = settings.clientId;
+        if (settings.clientSecret) {
+            form.client_secret = settings.clientSecret;
+        }
+        if (settings.scope) {
+            form.scope = settings.scope;
+        }
+        return form;
+    }
+
+    private async post(url: string, form: { [name: string]: string }): Promise<Response> {
+        return await <Thenable<Response>>request.post(url, { form: form, simple: false, resolveWithFullResponse: true }).promise();
+    }
+
+    private parseTokenResponse(response: Response): ICachedToken {
+        const body = this.parseJson(response);
+        if (response.statusCode !== 200 || !body.access_token) {
+            throw new Error(this.getErrorMessage(body, response));
+        }
+
+        const expiresIn = Number(body.expires_in ? body.expires_in : 3600);
+        return { accessToken: String(body.access_token), expiresOn: Date.now() + Math.max(expiresIn - expirySkew, 0) * 1000 };
+    }
+
+    private parseJson(response: Response): any {
+        try {
+            return typeof response.body === "string" ? JSON.parse(response.body) : response.body;
+        } catch {
+            return {};
+        }
+    }
+
+    private getErrorMessage(body: any, response: Response): string {
+        const description = body && body.error_description ? body.error_description : body && body.error ? body.error : response.statusMessage;
+        return localize("tokenRequestFailed", `Token request failed with status ${response.statusCode}: ${description}`);
+    }
+}
@@ -3,13 +3,46 @@
  *  Licensed under the MIT License. See License.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { ApiContract, ApiRevisionContract } from "azure-arm-apimanagement/lib/models";
+import { ApiContract, ApiRevisionContract, OperationContract } from "azure-arm-apimanagement/lib/models";
 import { IOperationTreeRoot } from "../explorer/IOperationTreeRoot";
 import { nonNullOrEmptyValue, nonNullProp } from "../utils/nonNull";
 import { ConsoleOperation } from "./ConsoleOperation";
+import { ConsoleRequest, subscriptionKeyVariable } from "./ConsoleRequest";
+import { IConsoleOptions } from "./IConsoleOptions";
+import { SampleGenerator } from "./SampleGenerator";
 
 export class OperationConsole {
-    public async buildRequestInfo(root: IOperationTreeRoot): Promise<string> {
+    /**
+     * Builds the request in REST Client (.http) format. The subscription key, if any, is written as a file variable
+     * that the subscription key header refers to.
+     */
+    public async buildRequestInfo(root: IOperationTreeRoot, options: IConsoleOptions = {}): Promise<string> {
+        const subscriptionKey = options.subscriptionKey !== undefined ? `{{${subscriptionKeyVariable}}}` : undefined;
+        const consoleOperation = await this.buildConsoleOperation(root, Object.assign({}, options, { subscriptionKey }));
+
+        let requestSummary = "";
+        if (options.subscriptionKey !== undefined) {
+            requestSummary += `@${subscriptionKeyVariable} = ${options.subscriptionKey}\n\n`;
+        }
+
+        requestSummary += `${consoleOperation.method} ${consoleOperation.requestUrl} HTTP/1.1\n`;
+
+        consoleOperation.request.headers.forEach(header => {
+            if (header.name && header.value) {
+                requestSummary += `${header.name}: ${header.value}\n`;
+            }
+        });
+
+        requestSummary += `\n\n${consoleOperation.request.body}`;
+
+        return requestSummary;
+    }
+
+    /**
+     * Builds the request with the subscription key, if any, inlined in the request headers.
+     * The body comes from the sample of the representation with the given content type, or is generated from the API schemas.
+     */
+    public async buildConsoleOperation(root: IOperationTreeRoot, options: IConsoleOptions = {}): Promise<ConsoleOperation> {
         const results = await Promise.all([
             root.client.apiManagementService.get(root.resourceGroupName, root.serviceName),
             root.client.api.get(root.resourceGroupName, root.serviceName, root.apiName),
@@ -20,8 +53,9 @@ export class OperationConsole {
         const api = results[1];
         const operation = results[2];
 
-        const hostName = nonNullProp(service, "gatewayUrl").split("/")[2];
-        const consoleOperation = new ConsoleOperation(hostName, operation);
+        const hostName = (options.gatewayUrl ? options.gatewayUrl : nonNullProp(service, "gatewayUrl")).split("/")[2];
+        const sampleGenerator = await this.getSampleGenerator(root, operation, options.contentType);
+        const consoleOperation = new ConsoleOperation(hostName, operation, options, sampleGenerator);
         let revision: ApiRevisionContract | undefined;
 
         if (api.apiRevision) {
@@ -29,24 +63,23 @@ export class OperationConsole {
             revision = revisions.find((r) => r.apiRevision === api.apiRevision);
         }
 
-        const url = `${this.getRequestUrl(consoleOperation, api, revision)}`;
-        const method = consoleOperation.method;
-
-        let requestSummary = `${method} ${url} HTTP/1.1\n`;
-
-        consoleOperation.request.headers.forEach(header => {
-            if (header.name && header.value) {
-                requestSummary += `${header.name}: ${header.value}\n`;
-            }
-        });
+        consoleOperation.requestUrl = this.getRequestUrl(consoleOperation, api, revision, options.gatewayUrl);
+        return consoleOperation;
+    }
 
-        requestSummary += `\n\n${consoleOperation.request.body}`;
+    private async getSampleGenerator(root: IOperationTreeRoot, operation: OperationContract, contentType: string | undefined): Promise<SampleGenerator | undefined> {
+        const representation = operation.request ? ConsoleRequest.getRepresentation(operation.request, contentType) : undefined;
+        if (!representation || representation.sample || !representation.typeName) {
+            return undefined;
+        }
 
-        return requestSummary;
+        const schemas = await root.client.apiSchema.listByApi(root.resourceGroupName, root.serviceName, root.apiName);
+        const referencedSchemas = schemas.filter(s => s.name === representation.schemaId);
+        return SampleGenerator.fromSchemas(referencedSchemas.length > 0 ? referencedSchemas : schemas);
     }
 
-    private getRequestUrl(consoleOperation: ConsoleOperation, api: ApiContract, revision: ApiRevisionContract | undefined): string {
-        const protocol = nonNullProp(api, "protocols").indexOf("https") !== -1 ? "https" : "http";
+    private getRequestUrl(consoleOperation: ConsoleOperation, api: ApiContract, revision: ApiRevisionContract | undefined, gatewayUrl: string | undefined): string {
+        const protocol = gatewayUrl ? gatewayUrl.split(":")[0] : nonNullProp(api, "protocols").indexOf("https") !== -1 ? "https" : "http";
         let urlTemplate = this.requestUrl(consoleOperation, api, revision);
         if (urlTemplate && urlTemplate.length > 0 && urlTemplate[urlTemplate.length - 1] === "*") {
             urlTemplate = urlTemplate.replace("*", "");
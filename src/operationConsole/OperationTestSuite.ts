@@ -0,0 +1,92 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { OperationContract } from "azure-arm-apimanagement/lib/models";
+import { xmlTextUtil } from "../policy/xmlTextUtil";
+import { IOperationTestResult } from "./IOperationTestResult";
+
+/**
+ * Runs a request for each operation of an API and collects pass/fail results by expected status code.
+ */
+export class OperationTestSuite {
+    public results: IOperationTestResult[] = [];
+
+    constructor(public readonly name: string) {
+    }
+
+    /**
+     * Status codes below 400 documented in the operation responses. Empty if none are documented, in which case any 2xx passes.
+     */
+    public static getExpectedStatusCodes(operation: OperationContract): number[] {
+        const responses = operation.responses ? operation.responses : [];
+        return responses.map(r => r.statusCode).filter(statusCode => statusCode < 400);
+    }
+
+    public static isExpectedStatusCode(statusCode: number, expectedStatusCodes: number[]): boolean {
+        return expectedStatusCodes.length > 0 ? expectedStatusCodes.indexOf(statusCode) !== -1 : statusCode >= 200 && statusCode < 300;
+    }
+
+    public get failures(): number {
+        return this.results.filter(r => !r.passed).length;
+    }
+
+    /**
+     * Runs the test for every item with at most `concurrency` tests in flight. Results keep the order of the items.
+     */
+    public async run<T>(items: T[], concurrency: number, runTest: (item: T) => Promise<IOperationTestResult>): Promise<void> {
+        const results: IOperationTestResult[] = [];
+        let next = 0;
+        const worker = async () => {
+            while (next < items.length) {
+                const index = next++;
+                results[index] = await runTest(items[index]);
+            }
+        };
+
+        const workers: Promise<void>[] = [];
+        for (let i = 0; i < Math.max(1, Math.min(concurrency, items.length)); i++) {
+            workers.push(worker());
+        }
+        await Promise.all(workers);
+        this.results = results;
+    }
+
+    public toSummaryString(): string {
+        const lines = [`${this.name}: ${this.results.length - this.failures} passed, ${this.failures} failed`, ""];
+        this.results.forEach(r => {
+            const status = r.statusCode !== undefined ? String(r.statusCode) : "---";
+            const expected = r.expectedStatusCodes.length > 0 ? r.expectedStatusCodes.join("|") : "2xx";
+            lines.push(`${r.passed ? "PASS" : "FAIL"}  ${status} (expected ${expected})  ${r.elapsed} ms  ${r.method} ${r.name}`);
+            lines.push(`      ${r.requestUrl}`);
+            if (r.error) {
+                lines.push(`      ${r.error}`);
+            }
+        });
+        return lines.join("\n");
+    }
+
+    public toJUnitXml(): string {
+        const time = (elapsed: number) => (elapsed / 1000).toFixed(3);
+        const totalTime = this.results.reduce((total, r) => total + r.elapsed, 0);
+        const lines = [
+            `<?xml version="1.0" encoding="UTF-8"?>`,
+            `<testsuites tests="${this.results.length}" failures="${this.failures}" time="${time(totalTime)}">`,
+            `  <testsuite name="${xmlTextUtil.escapeXml(this.name)}" tests="${this.results.length}" failures="${this.failures}" time="${time(totalTime)}">`
+        ];
+        this.results.forEach(r => {
+            const testCase = `    <testcase classname="${xmlTextUtil.escapeXml(this.name)}" name="${xmlTextUtil.escapeXml(`${r.method} ${r.name}`)}" time="${time(r.elapsed)}"`;
+            if (r.passed) {
+                lines.push(`${testCase}/>`);
+            } else {
+                const message = r.error ? r.error : `Unexpected status code ${r.statusCode}`;
+                lines.push(`${testCase}>`);
+                lines.push(`      <failure message="${xmlTextUtil.escapeXml(message)}">${xmlTextUtil.escapeXml(`${r.method} ${r.requestUrl}`)}</failure>`);
+                lines.push(`    </testcase>`);
+            }
+        });
+        lines.push(`  </testsuite>`, `</testsuites>`, "");
+        return lines.join("\n");
+    }
+}
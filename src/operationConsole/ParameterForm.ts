@@ -0,0 +1,154 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { OperationContract } from "azure-arm-apimanagement/lib/models";
+import { QuickPickItem, window } from "vscode";
+import { IOperationTreeRoot } from "../explorer/IOperationTreeRoot";
+import { ext } from "../extensionVariables";
+import { localize } from "../localize";
+import { parameterUtil } from "../utils/parameterUtil";
+import { ConsoleHeader } from "./ConsoleHeader";
+import { ConsoleParameter } from "./ConsoleParameter";
+import { IParameterValues } from "./IParameterValues";
+
+type ParameterKind = "template" | "query" | "headers";
+
+interface IFormField {
+    kind: ParameterKind;
+    parameter: ConsoleParameter | ConsoleHeader;
+}
+
+interface IFormFieldPickItem extends QuickPickItem {
+    field?: IFormField;
+}
+
+/**
+ * Multi-step quick input that lists the template, query and header parameters of an operation.
+ * The last values entered are remembered per operation.
+ */
+export class ParameterForm {
+    private readonly fields: IFormField[];
+    private readonly stateKey: string;
+
+    constructor(root: IOperationTreeRoot, operation: OperationContract) {
+        this.stateKey = `azureApiManagement.parameterValues/${root.serviceName}/${root.apiName}/${root.opName}`;
+        const request = operation.request;
+        this.fields = [
+            ...(operation.templateParameters ? operation.templateParameters : []).map(p => this.createField("template", new ConsoleParameter(p))),
+            ...(request && request.queryParameters ? request.queryParameters : []).map(p => this.createField("query", new ConsoleParameter(p))),
+            ...(request && request.headers ? request.headers : []).map(p => this.createField("headers", new ConsoleHeader(p)))
+        ];
+    }
+
+    public async show(): Promise<IParameterValues> {
+        this.restoreValues();
+
+        let done = this.fields.length === 0;
+        while (!done) {
+            const field = await this.pickField();
+            if (field) {
+                await this.editField(field);
+            } else {
+                const error = this.validate();
+                if (error !== undefined) {
+                    // don't wait
+                    window.showWarningMessage(error);
+                }
+                done = error === undefined;
+            }
+        }
+
+        const values = this.getValues();
+        await ext.context.globalState.update(this.stateKey, values);
+        return values;
+    }
+
+    /**
+     * Returns the remembered values, or the default values, without prompting.
+     */
+    public load(): IParameterValues {
+        this.restoreValues();
+        return this.getValues();
+    }
+
+    private createField(kind: ParameterKind, parameter: ConsoleParameter | ConsoleHeader): IFormField {
+        return { kind, parameter };
+    }
+
+    private async pickField(): Promise<IFormField | undefined> {
+        const picks: IFormFieldPickItem[] = [{ label: localize("continueWithParameters", "$(check) Continue with these values") }];
+        this.fields.forEach(field => {
+            const parameter = field.parameter;
+            const error = parameterUtil.validateValue(parameter, parameter.value);
+            picks.push({
+                label: `${error !== undefined ? "$(alert) " : ""}${parameter.name}`,
+                description: `${getKindLabel(field.kind)} · ${parameter.type ? parameter.type : "string"}${parameter.required ? ` · ${localize("required", "required")}` : ""}`,
+                detail: parameter.value !== "" ? parameter.value : localize("emptyValue", "(empty)"),
+                field: field
+            });
+        });
+
+        const pick = await ext.ui.showQuickPick(picks, { placeHolder: localize("selectParameter", "Select a parameter to edit, or continue to build the request"), canPickMany: false });
+        return pick.field;
+    }
+
+    private async editField(field: IFormField): Promise<void> {
+        const parameter = field.parameter;
+        if (parameter.values.length > 0) {
+            const picks: QuickPickItem[] = parameter.values.map(v => { return { label: v, description: v === parameter.value ? localize("currentValue", "current") : "" }; });
+            if (!parameter.required) {
+                picks.push({ label: "", description: localize("emptyValue", "(empty)") });
+            }
+            const pick = await ext.ui.showQuickPick(picks, { placeHolder: localize("selectParameterValue", `Select a value for '${parameter.name}'`), canPickMany: false });
+            parameter.value = pick.label;
+        } else {
+            parameter.value = await ext.ui.showInputBox({
+                prompt: localize("enterParameterValue", `Enter a value for '${parameter.name}'`),
+                value: parameter.value,
+                validateInput: (value: string) => parameterUtil.validateValue(parameter, value)
+            });
+        }
+    }
+
+    private validate(): string | undefined {
+        for (const field of this.fields) {
+            const error = parameterUtil.validateValue(field.parameter, field.parameter.value);
+            if (error !== undefined) {
+                return error;
+            }
+        }
+        return undefined;
+    }
+
+    private restoreValues(): void {
+        const values = ext.context.globalState.get<Partial<IParameterValues>>(this.stateKey);
+        if (values) {
+            this.fields.forEach(field => {
+                const kindValues = values[field.kind];
+                const value = kindValues ? kindValues[field.parameter.name] : undefined;
+                if (typeof value === "string") {
+                    field.parameter.value = value;
+                }
+            });
+        }
+    }
+
+    private getValues(): IParameterValues {
+        const values: IParameterValues = { template: {}, query: {}, headers: {} };
+        this.fields.forEach(field => values[field.kind][field.parameter.name] = field.parameter.value);
+        return values;
+    }
+}
+
+function getKindLabel(kind: ParameterKind): string {
+    switch (kind) {
+        case "template":
+            return localize("templateParameter", "template");
+        case "query":
+            return localize("queryParameter", "query");
+        default:
+            return localize("headerParameter", "header");
+    }
+}
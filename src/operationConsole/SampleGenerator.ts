@@ -0,0 +1,156 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { SchemaContract } from "azure-arm-apimanagement/lib/models";
+import { IJsonSchema } from "./IJsonSchema";
+
+const maxDepth = 8;
+
+// The content of a schema is in document in newer API versions and in value, as JSON text, in older ones.
+interface ISchemaContent {
+    document?: {};
+    value?: string;
+}
+
+interface ISchemaDocument {
+    definitions?: { [name: string]: IJsonSchema };
+    components?: { schemas?: { [name: string]: IJsonSchema } };
+    schemas?: { [name: string]: IJsonSchema };
+}
+
+/**
+ * Builds JSON request body skeletons from the type definitions of the API schemas (`apiSchema`).
+ */
+export class SampleGenerator {
+    constructor(private readonly definitions: { [name: string]: IJsonSchema }) {
+    }
+
+    public static fromSchemas(schemas: SchemaContract[]): SampleGenerator {
+        return new SampleGenerator(SampleGenerator.getDefinitions(schemas));
+    }
+
+    // The type definitions of the API schemas by name, whether the schemas are swagger definitions or OpenAPI components.
+    public static getDefinitions(schemas: SchemaContract[]): { [name: string]: IJsonSchema } {
+        const definitions: { [name: string]: IJsonSchema } = {};
+        schemas.forEach(schema => {
+            const document = getSchemaDocument(schema);
+            if (document) {
+                Object.assign(definitions, document.definitions, document.components && document.components.schemas, document.schemas);
+            }
+        });
+        return definitions;
+    }
+
+    public hasDefinition(typeName: string): boolean {
+        return this.definitions[typeName] !== undefined;
+    }
+
+    /**
+     * Returns a JSON sample for the named type, or undefined if the type is not defined in the schemas.
+     */
+    public generate(typeName: string): string | undefined {
+        if (!this.hasDefinition(typeName)) {
+            return undefined;
+        }
+        return JSON.stringify(this.generateValue(this.definitions[typeName], 0, [typeName]), null, 4);
+    }
+
+    private generateValue(schema: IJsonSchema | undefined, depth: number, visited: string[]): {} | undefined {
+        if (!schema || typeof schema !== "object" || depth > maxDepth) {
+            return undefined;
+        }
+
+        if (schema.example !== undefined) {
+            return schema.example;
+        }
+        if (schema.default !== undefined) {
+            return schema.default;
+        }
+        if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+            return schema.enum[0];
+        }
+
+        if (typeof schema.$ref === "string") {
+            const typeName = schema.$ref.split("/").pop();
+            if (!typeName || visited.indexOf(typeName) !== -1) {
+                return undefined;
+            }
+            return this.generateValue(this.definitions[typeName], depth + 1, visited.concat(typeName));
+        }
+
+        if (Array.isArray(schema.allOf)) {
+            return schema.allOf.reduce(
+                (result: {}, part: IJsonSchema) => {
+                    const value = this.generateValue(part, depth + 1, visited);
+                    return value && typeof value === "object" && !Array.isArray(value) ? Object.assign(result, value) : result;
+                },
+                {});
+        }
+
+        const alternatives = Array.isArray(schema.oneOf) ? schema.oneOf : schema.anyOf;
+        if (Array.isArray(alternatives) && alternatives.length > 0) {
+            return this.generateValue(alternatives[0], depth + 1, visited);
+        }
+
+        switch (schema.type) {
+            case "array":
+                return [this.generateValue(schema.items, depth + 1, visited)].filter(item => item !== undefined);
+            case "string":
+                return getStringSample(schema.format);
+            case "integer":
+            case "number":
+                return schema.minimum !== undefined ? schema.minimum : 0;
+            case "boolean":
+                return true;
+            case "object":
+            default:
+                return this.generateObject(schema, depth, visited);
+        }
+    }
+
+    private generateObject(schema: IJsonSchema, depth: number, visited: string[]): {} {
+        const result: { [name: string]: {} } = {};
+        const properties = schema.properties ? schema.properties : {};
+        Object.keys(properties).forEach(name => {
+            if (!properties[name].readOnly) {
+                const value = this.generateValue(properties[name], depth + 1, visited);
+                if (value !== undefined) {
+                    result[name] = value;
+                }
+            }
+        });
+        return result;
+    }
+}
+
+function getSchemaDocument(schema: SchemaContract): ISchemaDocument | undefined {
+    const content = <ISchemaContent>schema;
+    const document = content.document !== undefined ? content.document : content.value;
+    if (typeof document === "string") {
+        try {
+            return <ISchemaDocument>JSON.parse(document);
+        } catch {
+            return undefined;
+        }
+    }
+    return document;
+}
+
+function getStringSample(format: string | undefined): string {
+    switch (format) {
+        case "date-time":
+            return "2019-01-01T00:00:00Z";
+        case "date":
+            return "2019-01-01";
+        case "uuid":
+            return "00000000-0000-0000-0000-000000000000";
+        case "email":
+            return "user@example.com";
+        case "uri":
+            return "https://example.com";
+        default:
+            return "string";
+    }
+}
@@ -0,0 +1,63 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { localize } from '../localize';
+import { ConsoleTraceEntry } from './ConsoleTrace';
+import { ITraceNode } from './ITraceNode';
+
+// tslint:disable: no-any no-unsafe-any
+export class TraceEntryNode implements ITraceNode {
+    constructor(private readonly entry: ConsoleTraceEntry) {
+    }
+
+    public getTreeItem(): vscode.TreeItem {
+        const label = this.entry.error !== undefined ? `${this.entry.source} (${localize('error', 'error')})` : this.entry.source;
+        const item = new vscode.TreeItem(label, this.entry.error !== undefined ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+        item.description = `${this.entry.elapsed} ms`;
+        item.tooltip = this.entry.timestamp;
+        return item;
+    }
+
+    public getChildren(): ITraceNode[] {
+        const children: ITraceNode[] = [];
+        if (this.entry.error !== undefined) {
+            children.push(new TraceValueNode(localize('error', 'error'), this.entry.error));
+        }
+        return children.concat(getValueNodes(this.entry.data));
+    }
+}
+
+class TraceValueNode implements ITraceNode {
+    constructor(private readonly name: string, private readonly value: any) {
+    }
+
+    public getTreeItem(): vscode.TreeItem {
+        if (this.value !== null && typeof this.value === "object") {
+            return new vscode.TreeItem(this.name, vscode.TreeItemCollapsibleState.Collapsed);
+        }
+
+        const item = new vscode.TreeItem(this.name, vscode.TreeItemCollapsibleState.None);
+        item.description = String(this.value);
+        item.tooltip = String(this.value);
+        return item;
+    }
+
+    public getChildren(): ITraceNode[] {
+        return getValueNodes(this.value);
+    }
+}
+
+function getValueNodes(value: any): ITraceNode[] {
+    if (value === undefined || value === null) {
+        return [];
+    }
+
+    if (typeof value !== "object") {
+        return [new TraceValueNode(localize('value', 'value'), value)];
+    }
+
+    return Object.keys(value).map(key => new TraceValueNode(key, value[key]));
+}
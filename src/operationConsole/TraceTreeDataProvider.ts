@@ -0,0 +1,81 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { localize } from '../localize';
+import { ConsoleTrace, ConsoleTraceSection } from './ConsoleTrace';
+import { ITraceNode } from './ITraceNode';
+import { TraceEntryNode } from './TraceEntryNode';
+
+export const traceViewId = 'azureApiManagementTrace';
+export const hasTraceContextKey = 'azureApiManagement.hasTrace';
+
+export class TraceTreeDataProvider implements vscode.TreeDataProvider<ITraceNode>, vscode.Disposable {
+    private _onDidChangeTreeData: vscode.EventEmitter<ITraceNode | undefined> = new vscode.EventEmitter<ITraceNode | undefined>();
+    private _trace: ConsoleTrace | undefined;
+    private _title: string = "";
+
+    public get onDidChangeTreeData(): vscode.Event<ITraceNode | undefined> {
+        return this._onDidChangeTreeData.event;
+    }
+
+    public async showTrace(title: string, trace: ConsoleTrace): Promise<void> {
+        this._title = title;
+        this._trace = trace;
+        this._onDidChangeTreeData.fire();
+        await vscode.commands.executeCommand('setContext', hasTraceContextKey, true);
+    }
+
+    public getTreeItem(element: ITraceNode): vscode.TreeItem {
+        return element.getTreeItem();
+    }
+
+    public getChildren(element?: ITraceNode): ITraceNode[] {
+        if (element) {
+            return element.getChildren();
+        }
+
+        if (!this._trace) {
+            return [];
+        }
+
+        return [<ITraceNode>new TraceRootNode(this._title, this._trace)];
+    }
+
+    public dispose(): void {
+        this._onDidChangeTreeData.dispose();
+    }
+}
+
+class TraceRootNode implements ITraceNode {
+    constructor(private readonly title: string, private readonly trace: ConsoleTrace) {
+    }
+
+    public getTreeItem(): vscode.TreeItem {
+        const item = new vscode.TreeItem(this.title, vscode.TreeItemCollapsibleState.Expanded);
+        item.description = this.trace.traceId;
+        return item;
+    }
+
+    public getChildren(): ITraceNode[] {
+        return this.trace.sections.map(section => new TraceSectionNode(section));
+    }
+}
+
+class TraceSectionNode implements ITraceNode {
+    constructor(private readonly section: ConsoleTraceSection) {
+    }
+
+    public getTreeItem(): vscode.TreeItem {
+        const item = new vscode.TreeItem(this.section.name, this.section.hasErrors ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+        const elapsed = this.section.entries.reduce((max, entry) => Math.max(max, entry.elapsed), 0);
+        item.description = localize('traceSectionDescription', '{0} steps, {1} ms', this.section.entries.length, elapsed);
+        return item;
+    }
+
+    public getChildren(): ITraceNode[] {
+        return this.section.entries.map(entry => new TraceEntryNode(entry));
+    }
+}
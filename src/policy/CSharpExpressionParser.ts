@@ -0,0 +1,526 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+
+export type ExpressionNode =
+    { kind: "literal", value: string | number | boolean | null } |
+    { kind: "interpolation", parts: (string | ExpressionNode)[] } |
+    { kind: "identifier", name: string } |
+    { kind: "member", target: ExpressionNode, name: string, conditional: boolean } |
+    { kind: "call", target: ExpressionNode, typeArguments: string[], args: ExpressionNode[] } |
+    { kind: "index", target: ExpressionNode, args: ExpressionNode[], conditional: boolean } |
+    { kind: "unary", operator: string, operand: ExpressionNode } |
+    { kind: "binary", operator: string, left: ExpressionNode, right: ExpressionNode } |
+    { kind: "conditional", test: ExpressionNode, whenTrue: ExpressionNode, whenFalse: ExpressionNode } |
+    { kind: "lambda", parameters: string[], body: ExpressionNode } |
+    { kind: "cast", typeName: string, operand: ExpressionNode } |
+    { kind: "typeTest", operator: "is" | "as", typeName: string, operand: ExpressionNode } |
+    { kind: "new", typeName: string, args: ExpressionNode[], items?: ExpressionNode[] };
+
+export type StatementNode =
+    { kind: "block", statements: StatementNode[] } |
+    { kind: "declaration", name: string, value: ExpressionNode } |
+    { kind: "assignment", name: string, operator: string, value: ExpressionNode } |
+    { kind: "expression", expression: ExpressionNode } |
+    { kind: "return", value?: ExpressionNode } |
+    { kind: "if", test: ExpressionNode, whenTrue: StatementNode, whenFalse?: StatementNode } |
+    { kind: "foreach", name: string, collection: ExpressionNode, body: StatementNode };
+
+interface IToken {
+    kind: "identifier" | "number" | "string" | "verbatim" | "interpolated" | "char" | "punctuation" | "end";
+    value: string;
+    start: number;
+}
+
+const punctuations = ["??", "?.", "=>", "==", "!=", "<=", ">=", "&&", "||", "+=", "-=", "+", "-", "*", "/", "%", "<", ">", "!", "=", "(", ")", "[", "]", "{", "}", ".", ",", ";", ":", "?", "&", "|"];
+const binaryPrecedence: { [operator: string]: number | undefined } = {
+    "||": 1, "&&": 2, "|": 3, "&": 4, "==": 5, "!=": 5, "<": 6, ">": 6, "<=": 6, ">=": 6, is: 6, as: 6, "+": 7, "-": 7, "*": 8, "/": 8, "%": 8
+};
+const escapes: { [c: string]: string | undefined } = { n: "\n", r: "\r", t: "\t", 0: "\u0000", "\\": "\\", '"': '"', "'": "'" };
+
+/**
+ * Parses the C# of policy expressions: the single expression of @(...) and the statements of @{...}.
+ * Only the part of the language that policy expressions commonly use is understood, other syntax is reported as an error.
+ */
+export class CSharpExpressionParser {
+    private readonly tokens: IToken[];
+    private position: number = 0;
+
+    private constructor(private readonly code: string) {
+        this.tokens = tokenize(code);
+    }
+
+    public static parseExpression(code: string): ExpressionNode {
+        const parser = new CSharpExpressionParser(code);
+        const expression = parser.parseExpressionNode();
+        parser.expectEnd();
+        return expression;
+    }
+
+    public static parseStatements(code: string): StatementNode {
+        const parser = new CSharpExpressionParser(code);
+        const statements: StatementNode[] = [];
+        while (parser.peek().kind !== "end") {
+            statements.push(parser.parseStatement());
+        }
+        return { kind: "block", statements };
+    }
+
+    private parseStatement(): StatementNode {
+        const token = this.peek();
+        if (this.accept("{")) {
+            const statements: StatementNode[] = [];
+            while (!this.accept("}")) {
+                if (this.peek().kind === "end") {
+                    throw this.error(localize("expectedToken", "Expected '}'."));
+                }
+                statements.push(this.parseStatement());
+            }
+            return { kind: "block", statements };
+        }
+        if (this.acceptWord("return")) {
+            const value = this.peekIs(";") ? undefined : this.parseExpressionNode();
+            this.expect(";");
+            return { kind: "return", value };
+        }
+        if (this.acceptWord("if")) {
+            this.expect("(");
+            const test = this.parseExpressionNode();
+            this.expect(")");
+            const whenTrue = this.parseStatement();
+            const whenFalse = this.acceptWord("else") ? this.parseStatement() : undefined;
+            return { kind: "if", test, whenTrue, whenFalse };
+        }
+        if (this.acceptWord("foreach")) {
+            this.expect("(");
+            this.parseTypeName();
+            const name = this.expectIdentifier();
+            if (!this.acceptWord("in")) {
+                throw this.error(localize("expectedIn", "Expected 'in'."));
+            }
+            const collection = this.parseExpressionNode();
+            this.expect(")");
+            return { kind: "foreach", name, collection, body: this.parseStatement() };
+        }
+
+        const declaration = this.tryParse(() => {
+            this.parseTypeName();
+            const name = this.expectIdentifier();
+            this.expect("=");
+            return name;
+        });
+        if (declaration !== undefined) {
+            const value = this.parseExpressionNode();
+            this.expect(";");
+            return { kind: "declaration", name: declaration, value };
+        }
+
+        if (token.kind === "identifier") {
+            const next = this.tokens[this.position + 1];
+            if (next.kind === "punctuation" && (next.value === "=" || next.value === "+=" || next.value === "-=")) {
+                this.position += 2;
+                const value = this.parseExpressionNode();
+                this.expect(";");
+                return { kind: "assignment", name: token.value, operator: next.value, value };
+            }
+        }
+
+        const expression = this.parseExpressionNode();
+        this.expect(";");
+        return { kind: "expression", expression };
+    }
+
+    private parseExpressionNode(): ExpressionNode {
+        const lambda = this.tryParse(() => {
+            const parameters: string[] = [];
+            if (this.accept("(")) {
+                while (!this.accept(")")) {
+                    parameters.push(this.expectIdentifier());
+                    this.accept(",");
+                }
+            } else {
+                parameters.push(this.expectIdentifier());
+            }
+            this.expect("=>");
+            return parameters;
+        });
+        if (lambda) {
+            return { kind: "lambda", parameters: lambda, body: this.parseExpressionNode() };
+        }
+
+        const test = this.parseCoalescing();
+        if (this.accept("?")) {
+            const whenTrue = this.parseExpressionNode();
+            this.expect(":");
+            return { kind: "conditional", test, whenTrue, whenFalse: this.parseExpressionNode() };
+        }
+        return test;
+    }
+
+    private parseCoalescing(): ExpressionNode {
+        const left = this.parseBinary(1);
+        if (this.accept("??")) {
+            return { kind: "binary", operator: "??", left, right: this.parseCoalescing() };
+        }
+        return left;
+    }
+
+    private parseBinary(minPrecedence: number): ExpressionNode {
+        let left = this.parseUnary();
+        for (; ;) {
+            const token = this.peek();
+            const operator = token.kind === "punctuation" || token.value === "is" || token.value === "as" ? token.value : "";
+            const precedence = binaryPrecedence[operator];
+            if (precedence === undefined || precedence < minPrecedence) {
+                return left;
+            }
+            this.position++;
+            if (operator === "is" || operator === "as") {
+                left = { kind: "typeTest", operator, typeName: this.parseTypeName(), operand: left };
+            } else {
+                left = { kind: "binary", operator, left, right: this.parseBinary(precedence + 1) };
+            }
+        }
+    }
+
+    private parseUnary(): ExpressionNode {
+        const token = this.peek();
+        if (token.kind === "punctuation" && (token.value === "!" || token.value === "-" || token.value === "+")) {
+            this.position++;
+            return { kind: "unary", operator: token.value, operand: this.parseUnary() };
+        }
+
+        const cast = this.tryParse(() => {
+            this.expect("(");
+            const typeName = this.parseTypeName();
+            this.expect(")");
+            const next = this.peek();
+            const startsOperand = next.kind === "identifier" || next.kind === "number" || next.kind === "string" || next.kind === "verbatim"
+                || next.kind === "interpolated" || next.kind === "char" || (next.kind === "punctuation" && (next.value === "(" || next.value === "!"));
+            if (!startsOperand) {
+                throw this.error("");
+            }
+            return typeName;
+        });
+        if (cast !== undefined) {
+            return { kind: "cast", typeName: cast, operand: this.parseUnary() };
+        }
+        return this.parsePostfix(this.parsePrimary());
+    }
+
+    private parsePostfix(expression: ExpressionNode): ExpressionNode {
+        for (; ;) {
+            if (this.accept(".") || this.peekIs("?.")) {
+                const conditional = this.accept("?.");
+                const name = this.expectIdentifier();
+                expression = { kind: "member", target: expression, name, conditional };
+                const typeArguments = this.tryParse(() => {
+                    const args = this.parseTypeArguments();
+                    if (!this.peekIs("(")) {
+                        throw this.error("");
+                    }
+                    return args;
+                });
+                if (this.accept("(")) {
+                    expression = { kind: "call", target: expression, typeArguments: typeArguments ? typeArguments : [], args: this.parseArguments(")") };
+                }
+            } else if (this.accept("(")) {
+                expression = { kind: "call", target: expression, typeArguments: [], args: this.parseArguments(")") };
+            } else if (this.accept("[")) {
+                expression = { kind: "index", target: expression, args: this.parseArguments("]"), conditional: false };
+            } else {
+                return expression;
+            }
+        }
+    }
+
+    private parsePrimary(): ExpressionNode {
+        const position = this.position;
+        const token = this.next();
+        switch (token.kind) {
+            case "number":
+                return { kind: "literal", value: Number(token.value.replace(/[dDfFmMlLuU]+$/, "")) };
+            case "string":
+            case "char":
+            case "verbatim":
+                return { kind: "literal", value: token.value };
+            case "interpolated":
+                return { kind: "interpolation", parts: parseInterpolation(token.value) };
+            case "identifier":
+                switch (token.value) {
+                    case "true":
+                        return { kind: "literal", value: true };
+                    case "false":
+                        return { kind: "literal", value: false };
+                    case "null":
+                        return { kind: "literal", value: null };
+                    case "new":
+                        return this.parseNew();
+                    default:
+                        return { kind: "identifier", name: token.value };
+                }
+            case "punctuation":
+                if (token.value === "(") {
+                    const expression = this.parseExpressionNode();
+                    this.expect(")");
+                    return expression;
+                }
+                break;
+            default:
+        }
+        this.position = position;
+        throw this.error(token.kind === "end" ? localize("unexpectedEnd", "Unexpected end of the expression.") : localize("unexpectedToken", `Unexpected '${token.value}'.`));
+    }
+
+    private parseNew(): ExpressionNode {
+        const typeName = this.peekIs("[") ? "" : this.parseTypeName();
+        if (this.accept("[")) {
+            this.expect("]");
+            this.expect("{");
+            return { kind: "new", typeName: `${typeName}[]`, args: [], items: this.parseArguments("}") };
+        }
+        if (typeName.endsWith("[]")) {
+            this.expect("{");
+            return { kind: "new", typeName, args: [], items: this.parseArguments("}") };
+        }
+        this.expect("(");
+        return { kind: "new", typeName, args: this.parseArguments(")") };
+    }
+
+    private parseArguments(close: string): ExpressionNode[] {
+        const args: ExpressionNode[] = [];
+        while (!this.accept(close)) {
+            if (args.length > 0) {
+                this.expect(",");
+            }
+            // Named arguments like 'preserveContent: true' are passed by position.
+            this.tryParse(() => {
+                this.expectIdentifier();
+                this.expect(":");
+            });
+            args.push(this.parseExpressionNode());
+        }
+        return args;
+    }
+
+    private parseTypeName(): string {
+        let name = this.expectIdentifier();
+        while (this.accept(".")) {
+            name += `.${this.expectIdentifier()}`;
+        }
+        const typeArguments = this.tryParse(() => this.parseTypeArguments());
+        if (typeArguments) {
+            name += `<${typeArguments.join(", ")}>`;
+        }
+        if (this.accept("?")) {
+            name += "?";
+        }
+        while (this.peekIs("[") && this.tokens[this.position + 1].value === "]") {
+            this.position += 2;
+            name += "[]";
+        }
+        return name;
+    }
+
+    private parseTypeArguments(): string[] {
+        this.expect("<");
+        const typeArguments: string[] = [this.parseTypeName()];
+        while (this.accept(",")) {
+            typeArguments.push(this.parseTypeName());
+        }
+        this.expect(">");
+        return typeArguments;
+    }
+
+    // Runs the parse function and returns its result, or rewinds and returns undefined when it fails.
+    private tryParse<T>(parse: () => T): T | undefined {
+        const position = this.position;
+        try {
+            return parse();
+        } catch {
+            this.position = position;
+            return undefined;
+        }
+    }
+
+    private peek(): IToken {
+        return this.tokens[this.position];
+    }
+
+    private next(): IToken {
+        const token = this.tokens[this.position];
+        if (token.kind !== "end") {
+            this.position++;
+        }
+        return token;
+    }
+
+    private peekIs(punctuation: string): boolean {
+        const token = this.peek();
+        return token.kind === "punctuation" && token.value === punctuation;
+    }
+
+    private accept(punctuation: string): boolean {
+        if (this.peekIs(punctuation)) {
+            this.position++;
+            return true;
+        }
+        return false;
+    }
+
+    private acceptWord(word: string): boolean {
+        const token = this.peek();
+        if (token.kind === "identifier" && token.value === word) {
+            this.position++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(punctuation: string): void {
+        if (!this.accept(punctuation)) {
+            throw this.error(localize("expectedToken", `Expected '${punctuation}'.`));
+        }
+    }
+
+    private expectIdentifier(): string {
+        const token = this.peek();
+        if (token.kind !== "identifier") {
+            throw this.error(localize("expectedIdentifier", "Expected a name."));
+        }
+        this.position++;
+        return token.value;
+    }
+
+    private expectEnd(): void {
+        const token = this.peek();
+        if (token.kind !== "end") {
+            throw this.error(localize("unexpectedToken", `Unexpected '${token.value}'.`));
+        }
+    }
+
+    private error(message: string): Error {
+        const token = this.peek();
+        return new Error(localize("syntaxError", `${message} (column ${Math.min(token.start, this.code.length) + 1})`));
+    }
+}
+
+function tokenize(code: string): IToken[] {
+    const tokens: IToken[] = [];
+    let i = 0;
+    while (i < code.length) {
+        const c = code[i];
+        const start = i;
+        if (/\s/.test(c)) {
+            i++;
+        } else if (code.startsWith("//", i)) {
+            const end = code.indexOf("\n", i);
+            i = end === -1 ? code.length : end;
+        } else if (code.startsWith("/*", i)) {
+            const end = code.indexOf("*/", i + 2);
+            i = end === -1 ? code.length : end + 2;
+        } else if (/[A-Za-z_]/.test(c)) {
+            while (i < code.length && /\w/.test(code[i])) {
+                i++;
+            }
+            tokens.push({ kind: "identifier", value: code.substring(start, i), start });
+        } else if (/[0-9]/.test(c)) {
+            const match = <RegExpExecArray>/^[0-9]+(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?[dDfFmMlLuU]*/.exec(code.substring(i));
+            i += match[0].length;
+            tokens.push({ kind: "number", value: match[0], start });
+        } else if (c === '"' || c === "'") {
+            const end = readQuoted(code, i + 1, c, false);
+            tokens.push({ kind: c === '"' ? "string" : "char", value: unescape(code.substring(i + 1, end - 1)), start });
+            i = end;
+        } else if (code.startsWith('@"', i) || code.startsWith('$@"', i) || code.startsWith('@$"', i)) {
+            const open = code.indexOf('"', i);
+            const end = readQuoted(code, open + 1, '"', true);
+            const value = code.substring(open + 1, end - 1).replace(/""/g, '"');
+            tokens.push({ kind: open - i === 2 ? "interpolated" : "verbatim", value, start });
+            i = end;
+        } else if (code.startsWith('$"', i)) {
+            const end = readQuoted(code, i + 2, '"', false);
+            tokens.push({ kind: "interpolated", value: unescape(code.substring(i + 2, end - 1)), start });
+            i = end;
+        } else {
+            const punctuation = punctuations.find(p => code.startsWith(p, i));
+            if (!punctuation) {
+                throw new Error(localize("unexpectedCharacter", `Unexpected '${c}' (column ${i + 1})`));
+            }
+            tokens.push({ kind: "punctuation", value: punctuation, start });
+            i += punctuation.length;
+        }
+    }
+    tokens.push({ kind: "end", value: "", start: code.length });
+    return tokens;
+}
+
+// Returns the offset after the closing quote. Interpolation holes may contain strings with the same quote.
+function readQuoted(code: string, offset: number, quote: string, verbatim: boolean): number {
+    let i = offset;
+    while (i < code.length) {
+        const c = code[i];
+        if (c === "\\" && !verbatim) {
+            i += 2;
+        } else if (c === quote && verbatim && code[i + 1] === quote) {
+            i += 2;
+        } else if (c === quote) {
+            return i + 1;
+        } else {
+            i++;
+        }
+    }
+    throw new Error(localize("stringNotClosed", `String is not closed (column ${offset})`));
+}
+
+function unescape(text: string): string {
+    return text.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (match: string, escape: string) => {
+        if (escape.length === 5) {
+            return String.fromCharCode(parseInt(escape.substring(1), 16));
+        }
+        const value = escapes[escape];
+        return value !== undefined ? value : match;
+    });
+}
+
+function parseInterpolation(text: string): (string | ExpressionNode)[] {
+    const parts: (string | ExpressionNode)[] = [];
+    let literal = "";
+    let i = 0;
+    while (i < text.length) {
+        const c = text[i];
+        if ((c === "{" || c === "}") && text[i + 1] === c) {
+            literal += c;
+            i += 2;
+        } else if (c === "{") {
+            let depth = 1;
+            let end = i + 1;
+            while (end < text.length && depth > 0) {
+                if (text[end] === "{") {
+                    depth++;
+                } else if (text[end] === "}") {
+                    depth--;
+                }
+                end++;
+            }
+            if (literal) {
+                parts.push(literal);
+                literal = "";
+            }
+            // Format strings such as {value:N2} are ignored.
+            const hole = text.substring(i + 1, end - 1).replace(/:[^:"']*$/, "");
+            parts.push(CSharpExpressionParser.parseExpression(hole));
+            i = end;
+        } else {
+            literal += c;
+            i++;
+        }
+    }
+    if (literal) {
+        parts.push(literal);
+    }
+    return parts;
+}
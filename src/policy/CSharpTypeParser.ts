@@ -0,0 +1,134 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IExpressionMember, IExpressionType } from "./IExpressionType";
+
+const typeDeclaration = /^(?:(?:public|static|abstract|sealed|partial)\s+)*(interface|class|struct|enum)\s+(\w+)\s*(?:<([^>]*)>)?\s*(?::\s*([^{]+))?/;
+const property = /^(?:(?:public|static|virtual|override)\s+)*([\w.]+(?:<.+>)?(?:\[\])?\??)\s+(\w+)\s*\{\s*get;/;
+const method = /^(?:(?:public|static|virtual|override)\s+)*([\w.]+(?:<.+>)?(?:\[\])?\??)\s+(\w+)\s*(?:<([^>(]*)>)?\s*\((.*?)\)\s*(?:where\s+[^;]+)?(?:;|=>|$)/;
+const enumMember = /^(\w+)\s*(?:=\s*[^,]+)?,?$/;
+const modifiers = ["public", "private", "protected", "internal", "static", "return", "new", "throw"];
+
+/**
+ * Reads the public surface of C# type declarations like the ones in Context.cs: properties, methods, enum members and extension methods.
+ * Only declarations that are on a single line are understood, which is how the policy expression model is written.
+ */
+export function parseCSharpTypes(source: string): IExpressionType[] {
+    const types: IExpressionType[] = [];
+    let current: IExpressionType | undefined;
+    let typeDepth = 0;
+    let depth = 0;
+    let documentation: string[] = [];
+
+    for (const rawLine of source.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (line.startsWith("///")) {
+            const text = line.substring(3).replace(/<\/?[^>]+>/g, "").trim();
+            if (text) {
+                documentation.push(text);
+            }
+            continue;
+        }
+
+        if (current && depth === typeDepth + 1 && line) {
+            const member = parseMember(current, line);
+            if (member) {
+                member.documentation = documentation.length > 0 ? documentation.join(" ") : undefined;
+                current.members.push(member);
+            }
+        } else if (line) {
+            const match = typeDeclaration.exec(line);
+            if (match) {
+                current = {
+                    name: match[2],
+                    kind: <IExpressionType["kind"]>match[1],
+                    typeParameters: match[3] ? splitTypeList(match[3]) : [],
+                    baseTypes: match[4] ? splitTypeList(match[4]) : [],
+                    members: [],
+                    documentation: documentation.length > 0 ? documentation.join(" ") : undefined
+                };
+                types.push(current);
+                typeDepth = depth;
+            }
+        }
+        if (!line.startsWith("//")) {
+            documentation = [];
+        }
+
+        depth += countBraces(line);
+        if (current && depth <= typeDepth && line.indexOf("}") !== -1) {
+            current = undefined;
+        }
+    }
+    return types;
+}
+
+function parseMember(declaringType: IExpressionType, line: string): IExpressionMember | undefined {
+    if (declaringType.kind === "enum") {
+        const match = enumMember.exec(line);
+        return match ? { name: match[1], kind: "field", type: declaringType.name } : undefined;
+    }
+
+    const propertyMatch = property.exec(line);
+    if (propertyMatch) {
+        return { name: propertyMatch[2], kind: "property", type: propertyMatch[1] };
+    }
+
+    const methodMatch = method.exec(line);
+    if (methodMatch && modifiers.indexOf(methodMatch[1]) === -1 && methodMatch[2] !== declaringType.name) {
+        const parameters = splitTypeList(methodMatch[4]);
+        const member: IExpressionMember = {
+            name: methodMatch[2],
+            kind: "method",
+            type: methodMatch[1],
+            typeParameters: methodMatch[3] ? splitTypeList(methodMatch[3]) : undefined
+        };
+        if (parameters.length > 0 && parameters[0].startsWith("this ")) {
+            member.thisType = parameters[0].substring(5).replace(/\s+\w+$/, "").trim();
+            parameters.shift();
+        }
+        member.parameters = `(${parameters.join(", ")})`;
+        return member;
+    }
+    return undefined;
+}
+
+/**
+ * Splits a comma separated list of types or parameters, keeping the commas inside generic arguments.
+ */
+export function splitTypeList(text: string): string[] {
+    const result: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (c === "<" || c === "(" || c === "[") {
+            depth++;
+        } else if (c === ">" || c === ")" || c === "]") {
+            depth--;
+        } else if (c === "," && depth === 0) {
+            result.push(text.substring(start, i).trim());
+            start = i + 1;
+        }
+    }
+    const last = text.substring(start).trim();
+    if (last) {
+        result.push(last);
+    }
+    return result;
+}
+
+function countBraces(line: string): number {
+    // Strings may hold braces, e.g. the JSON template in ProxyError.ToString, but they are balanced on each line there.
+    let count = 0;
+    for (const c of line) {
+        if (c === "{") {
+            count++;
+        } else if (c === "}") {
+            count--;
+        }
+    }
+    return count;
+}
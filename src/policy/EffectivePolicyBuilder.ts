@@ -0,0 +1,86 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+import { IScopedPolicy } from "./IScopedPolicy";
+import { IXmlElement } from "./IXmlElement";
+import { policySections } from "./policyCatalog";
+import { PolicyXmlParser } from "./PolicyXmlParser";
+import { xmlTextUtil } from "./xmlTextUtil";
+
+const indentUnit = xmlTextUtil.indentUnit;
+const basePlaceholder = "\u0000base\u0000";
+
+/**
+ * Calculates the policy that runs for a request by replacing each <base /> with the same section of the enclosing scope.
+ * The policies of every scope are wrapped in comments naming the scope.
+ */
+export class EffectivePolicyBuilder {
+    /**
+     * @param policies The policies from the outermost scope (global) to the innermost one.
+     */
+    public build(policies: IScopedPolicy[]): string {
+        let inherited: { [section: string]: string[] | undefined } = {};
+        for (const policy of policies) {
+            const root = PolicyXmlParser.parse(policy.xml).root;
+            if (!root || root.name !== "policies") {
+                throw new Error(localize("invalidScopePolicy", `The policy of ${policy.label} isn't a valid policy document.`));
+            }
+
+            const current: { [section: string]: string[] | undefined } = {};
+            for (const section of policySections) {
+                const element = root.children.find(c => c.name === section);
+                const lines = element ? this.expandBase(policy.xml, element, inherited[section]) : [];
+                current[section] = [`<!-- ${toComment(policy.label)} -->`, ...lines, `<!-- ${localize("endOfScope", `end of ${toComment(policy.label)}`)} -->`];
+            }
+            inherited = current;
+        }
+
+        const result = ["<policies>"];
+        for (const section of policySections) {
+            const lines = inherited[section];
+            result.push(`${indentUnit}<${section}>`);
+            result.push(...(lines ? lines : []).map(line => line ? `${indentUnit}${indentUnit}${line}` : line));
+            result.push(`${indentUnit}</${section}>`);
+        }
+        result.push("</policies>");
+        return result.join("\n");
+    }
+
+    private expandBase(xml: string, section: IXmlElement, inherited: string[] | undefined): string[] {
+        let content = "";
+        let position = section.contentStart;
+        for (const child of section.children.filter(c => c.name === "base")) {
+            content += `${xml.substring(position, child.start)}${basePlaceholder}`;
+            position = child.end;
+        }
+        content += xml.substring(position, section.contentEnd);
+
+        const lines: string[] = [];
+        for (const line of xmlTextUtil.dedent(content)) {
+            const index = line.indexOf(basePlaceholder);
+            if (index === -1) {
+                lines.push(line);
+            } else {
+                // Keep what is around <base /> on the same line, e.g. "<base /><set-header ... />".
+                const indent = xmlTextUtil.getIndent(line);
+                const before = line.substring(0, index);
+                const after = line.substring(index + basePlaceholder.length);
+                if (before.trim()) {
+                    lines.push(before);
+                }
+                lines.push(...(inherited ? inherited : []).map(l => l ? `${indent}${l}` : l));
+                if (after.trim()) {
+                    lines.push(`${indent}${after.trim()}`);
+                }
+            }
+        }
+        return lines;
+    }
+}
+
+function toComment(text: string): string {
+    return text.replace(/--/g, "- -");
+}
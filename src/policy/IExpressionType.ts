@@ -0,0 +1,27 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Types are kept as C# type names, e.g. "IReadOnlyDictionary<string, string[]>".
+export interface IExpressionMember {
+    name: string;
+    kind: "property" | "method" | "field";
+    // tslint:disable-next-line: no-reserved-keywords
+    type: string;
+    // Parameter list of methods, without the 'this' parameter of extension methods, e.g. "(string headerName)".
+    parameters?: string;
+    typeParameters?: string[];
+    // The extended type of extension methods.
+    thisType?: string;
+    documentation?: string;
+}
+
+export interface IExpressionType {
+    name: string;
+    kind: "interface" | "class" | "struct" | "enum";
+    typeParameters: string[];
+    baseTypes: string[];
+    members: IExpressionMember[];
+    documentation?: string;
+}
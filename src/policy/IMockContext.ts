@@ -0,0 +1,48 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// Header and query values can be a single value or all the values of a repeated header or parameter.
+export type MockValues = { [name: string]: string | string[] | undefined };
+
+export interface IMockMessage {
+    headers?: MockValues;
+    // Text bodies are kept as they are, other JSON values are serialized.
+    body?: {} | null;
+}
+
+export interface IMockRequest extends IMockMessage {
+    method?: string;
+    url?: string;
+    // Added to the query string of the url.
+    query?: MockValues;
+    ipAddress?: string;
+    matchedParameters?: { [name: string]: string | undefined };
+}
+
+export interface IMockResponse extends IMockMessage {
+    statusCode?: number;
+    statusReason?: string;
+}
+
+/**
+ * Describes the request context that policy expressions are evaluated against, as written in a JSON file.
+ * Everything is optional, missing values get defaults that look like a real request.
+ */
+export interface IMockContext {
+    requestId?: string;
+    timestamp?: string;
+    // Milliseconds since the request was received.
+    elapsed?: number;
+    request?: IMockRequest;
+    response?: IMockResponse;
+    variables?: { [name: string]: {} | null | undefined };
+    api?: { id?: string, name?: string, path?: string, version?: string, revision?: string, serviceUrl?: string };
+    operation?: { id?: string, name?: string, method?: string, urlTemplate?: string };
+    product?: { id?: string, name?: string } | null;
+    subscription?: { id?: string, name?: string, key?: string, primaryKey?: string, secondaryKey?: string } | null;
+    user?: { id?: string, email?: string, firstName?: string, lastName?: string, note?: string, groups?: string[] } | null;
+    deployment?: { serviceName?: string, region?: string, sku?: string };
+    lastError?: { source?: string, reason?: string, message?: string, scope?: string, section?: string, path?: string, policyId?: string } | null;
+}
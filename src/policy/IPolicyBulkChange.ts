@@ -0,0 +1,14 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export type PolicyBulkAction = "insert" | "replace" | "remove";
+
+export interface IPolicyBulkChange {
+    // An XPath-like path of the elements to change, e.g. inbound or //set-header[@name='x-env'].
+    target: string;
+    // Insert adds the XML as the last child of the target elements, replace puts it in their place.
+    action: PolicyBulkAction;
+    xml?: string;
+}
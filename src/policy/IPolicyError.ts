@@ -0,0 +1,13 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface IPolicyError {
+    code: string;
+    target?: string;
+    message: string;
+    // One-based, when the server says where the error is.
+    line?: number;
+    column?: number;
+}
@@ -0,0 +1,25 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { PolicySection } from "./policyCatalog";
+
+export interface IPolicySnippetParameter {
+    name: string;
+    prompt: string;
+    defaultValue?: string;
+}
+
+/**
+ * A policy that can be inserted with the "Insert Policy" command. Snippet packs in the workspace use the same shape.
+ */
+export interface IPolicySnippet {
+    name: string;
+    description?: string;
+    // Defaults to the sections where the policy of the same name can be used.
+    sections?: PolicySection[];
+    parameters?: IPolicySnippetParameter[];
+    // XML of the policy, either as one string or as lines. Parameters are referenced as {{name}}.
+    body: string | string[];
+}
@@ -0,0 +1,10 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface IScopedPolicy {
+    // Shown in the comments that mark where the policies come from, e.g. "API 'echo-api'".
+    label: string;
+    xml: string;
+}
@@ -0,0 +1,38 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IXmlProblem } from "./IXmlProblem";
+
+// Positions are offsets into the parsed text.
+export interface IXmlAttribute {
+    name: string;
+    value: string;
+    // The quote character around the value.
+    quote: string;
+    start: number;
+    end: number;
+}
+
+export interface IXmlElement {
+    name: string;
+    attributes: IXmlAttribute[];
+    children: IXmlElement[];
+    parent?: IXmlElement;
+    // Offset of the '<' of the start tag and of the character after the element's last '>'.
+    start: number;
+    end: number;
+    // Offset of the character after the start tag.
+    contentStart: number;
+    // Offset of the '<' of the end tag, or of the end for self-closing elements.
+    contentEnd: number;
+    selfClosing: boolean;
+}
+
+export interface IXmlDocument {
+    root?: IXmlElement;
+    problems: IXmlProblem[];
+    // Policy expressions, from the '@' to the character after the closing bracket.
+    expressions: { start: number, end: number }[];
+}
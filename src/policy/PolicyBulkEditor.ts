@@ -0,0 +1,195 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+import { IPolicyBulkChange } from "./IPolicyBulkChange";
+import { ITextEdit } from "./ITextEdit";
+import { IXmlElement } from "./IXmlElement";
+import { PolicyXmlParser } from "./PolicyXmlParser";
+import { xmlTextUtil } from "./xmlTextUtil";
+
+export interface IPolicyBulkResult {
+    text: string;
+    // The number of elements matched by the target, and of the ones that were changed. Inserting XML that is already there changes nothing.
+    matches: number;
+    changes: number;
+}
+
+interface IPathStep {
+    descendant: boolean;
+    name: string;
+    predicates: IPathPredicate[];
+}
+
+interface IPathPredicate {
+    attribute?: string;
+    value?: string;
+    // One-based, among the elements matched from the same parent.
+    position?: number;
+}
+
+interface IPath {
+    absolute: boolean;
+    steps: IPathStep[];
+}
+
+const stepPattern = /(\/\/|\/)?([\w\-.:]+|\*)((?:\[[^\]]*\])*)/y;
+const predicatePattern = /\[\s*(?:@([\w\-.:]+)\s*(?:=\s*(?:'([^']*)'|"([^"]*)"))?|(\d+))\s*\]/y;
+
+/**
+ * Applies the same change to many policies. The target is a subset of XPath: steps separated by / or //, element names or *, and [@attribute],
+ * [@attribute='value'] or [position] predicates. Relative targets start at the <policies> element, so 'inbound' is the inbound section.
+ */
+export class PolicyBulkEditor {
+    public static parsePath(target: string): IPath {
+        const text = target.trim();
+        const absolute = text.startsWith("/");
+        const steps: IPathStep[] = [];
+        let position = 0;
+        while (position < text.length) {
+            stepPattern.lastIndex = position;
+            const match = stepPattern.exec(text);
+            if (!match || (position === 0 && !absolute && match[1] !== undefined) || (position > 0 && match[1] === undefined)) {
+                throw new Error(localize("invalidPolicyTarget", `The target '${target}' isn't valid at '${text.substring(position)}'.`));
+            }
+            steps.push({ descendant: match[1] === "//", name: match[2], predicates: parsePredicates(target, match[3]) });
+            position = stepPattern.lastIndex;
+        }
+        if (steps.length === 0) {
+            throw new Error(localize("emptyPolicyTarget", "Enter the path of the elements to change."));
+        }
+        return { absolute, steps };
+    }
+
+    public apply(text: string, change: IPolicyBulkChange): IPolicyBulkResult {
+        const root = PolicyXmlParser.parse(text).root;
+        if (!root) {
+            throw new Error(localize("notPolicyDocument", "The document isn't a policy document."));
+        }
+        const xml = change.action !== "remove" ? getXml(change) : "";
+
+        const elements = selectElements(root, PolicyBulkEditor.parsePath(change.target));
+        // Replacing or removing an element also replaces or removes the matched elements in it.
+        const targets = change.action === "insert" ? elements : elements.filter(e => !elements.some(a => a !== e && a.start <= e.start && e.end <= a.end));
+        const edits: ITextEdit[] = [];
+        for (const element of targets) {
+            const edit = change.action === "insert" ? getInsertEdit(text, element, xml) : change.action === "replace" ? getReplaceEdit(text, element, xml) : getRemoveEdit(text, element);
+            if (edit) {
+                edits.push(edit);
+            }
+        }
+
+        let result = text;
+        for (const edit of edits.sort((a, b) => b.start - a.start)) {
+            result = result.substring(0, edit.start) + edit.text + result.substring(edit.end);
+        }
+        return { text: result, matches: elements.length, changes: edits.length };
+    }
+}
+
+function parsePredicates(target: string, text: string): IPathPredicate[] {
+    const predicates: IPathPredicate[] = [];
+    let position = 0;
+    while (position < text.length) {
+        predicatePattern.lastIndex = position;
+        const match = predicatePattern.exec(text);
+        if (!match) {
+            throw new Error(localize("invalidPolicyTargetPredicate", `The target '${target}' has an invalid condition '${text.substring(position)}'.`));
+        }
+        predicates.push(match[4] !== undefined
+            ? { position: Number(match[4]) }
+            : { attribute: match[1], value: match[2] !== undefined ? match[2] : match[3] });
+        position = predicatePattern.lastIndex;
+    }
+    return predicates;
+}
+
+function selectElements(root: IXmlElement, path: IPath): IXmlElement[] {
+    // The document node, whose only child is the root element.
+    let contexts: IXmlElement[] = path.absolute ? [{ ...root, name: "", attributes: [], children: [root] }] : [root];
+    for (const step of path.steps) {
+        const selected: IXmlElement[] = [];
+        for (const context of contexts) {
+            const candidates = step.descendant ? getDescendants(context) : context.children;
+            selected.push(...applyPredicates(candidates.filter(e => step.name === "*" || e.name === step.name), step.predicates));
+        }
+        contexts = selected.filter((e, i) => selected.indexOf(e) === i).sort((a, b) => a.start - b.start);
+    }
+    return contexts;
+}
+
+function applyPredicates(elements: IXmlElement[], predicates: IPathPredicate[]): IXmlElement[] {
+    let result = elements;
+    for (const predicate of predicates) {
+        if (predicate.position !== undefined) {
+            const element = result[predicate.position - 1];
+            result = element !== undefined ? [element] : [];
+        } else {
+            result = result.filter(e => e.attributes.some(a => a.name === predicate.attribute && (predicate.value === undefined || a.value === predicate.value)));
+        }
+    }
+    return result;
+}
+
+function getDescendants(element: IXmlElement): IXmlElement[] {
+    const descendants: IXmlElement[] = [];
+    for (const child of element.children) {
+        descendants.push(child, ...getDescendants(child));
+    }
+    return descendants;
+}
+
+function getXml(change: IPolicyBulkChange): string {
+    const xml = change.xml !== undefined ? change.xml.replace(/\r\n/g, "\n").trim() : "";
+    if (!xml) {
+        throw new Error(localize("noPolicyXml", `Enter the XML to ${change.action}.`));
+    }
+    const errors = PolicyXmlParser.parse(`<fragment>${xml}</fragment>`).problems.filter(p => p.severity === "error");
+    if (errors.length > 0) {
+        throw new Error(localize("invalidPolicyXml", `The XML isn't well-formed: ${errors[0].message}`));
+    }
+    return xml;
+}
+
+function getInsertEdit(text: string, element: IXmlElement, xml: string): ITextEdit | undefined {
+    const indent = xmlTextUtil.getLineIndent(text, element.start);
+    const lines = xmlTextUtil.indentLines(xml, `${indent}${xmlTextUtil.indentUnit}`).join("\n");
+    if (element.selfClosing) {
+        const startTag = text.substring(element.start, element.end).replace(/\s*\/>$/, ">");
+        return { start: element.start, end: element.end, text: `${startTag}\n${lines}\n${indent}</${element.name}>` };
+    } else if (normalize(text.substring(element.contentStart, element.contentEnd)).indexOf(normalize(xml)) !== -1) {
+        return undefined;
+    }
+
+    const lineStart = text.lastIndexOf("\n", element.contentEnd - 1) + 1;
+    if (lineStart > element.contentStart && !text.substring(lineStart, element.contentEnd).trim()) {
+        // The end tag is on its own line, so the XML goes on its own lines above it.
+        return { start: lineStart, end: lineStart, text: `${lines}\n` };
+    }
+    return { start: element.contentEnd, end: element.contentEnd, text: `\n${lines}\n${indent}` };
+}
+
+function getReplaceEdit(text: string, element: IXmlElement, xml: string): ITextEdit | undefined {
+    if (normalize(text.substring(element.start, element.end)) === normalize(xml)) {
+        return undefined;
+    }
+    const indent = xmlTextUtil.getLineIndent(text, element.start);
+    return { start: element.start, end: element.end, text: xml.split("\n").map((line, i) => i > 0 && line ? `${indent}${line}` : line).join("\n") };
+}
+
+function getRemoveEdit(text: string, element: IXmlElement): ITextEdit {
+    const lineStart = text.lastIndexOf("\n", element.start - 1) + 1;
+    const lineEnd = text.indexOf("\n", element.end);
+    const end = lineEnd !== -1 ? lineEnd : text.length;
+    if (!text.substring(lineStart, element.start).trim() && !text.substring(element.end, end).trim()) {
+        // The element is alone on its lines, so the lines go too.
+        return { start: lineStart, end: lineEnd !== -1 ? lineEnd + 1 : end, text: "" };
+    }
+    return { start: element.start, end: element.end, text: "" };
+}
+
+function normalize(xml: string): string {
+    return xml.replace(/>\s+</g, "><").trim();
+}
@@ -0,0 +1,89 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from "vscode";
+import { IPolicyError } from "./IPolicyError";
+import { IXmlProblem } from "./IXmlProblem";
+import { PolicyScope } from "./policyCatalog";
+import { policyErrorUtil } from "./policyErrorUtil";
+import { PolicyValidator } from "./PolicyValidator";
+
+export const policyFileExtension = ".policy.cshtml";
+
+/**
+ * Shows the problems found by the PolicyValidator in open policy files. The policy editors register the scope
+ * of the files they open, other policy files are checked without the scope rules.
+ */
+export class PolicyDiagnosticsProvider implements vscode.Disposable {
+    private readonly diagnostics: vscode.DiagnosticCollection;
+    private readonly serverDiagnostics: vscode.DiagnosticCollection;
+    private readonly scopes: { [fsPath: string]: PolicyScope | undefined } = {};
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.diagnostics = vscode.languages.createDiagnosticCollection("apim-policy");
+        this.serverDiagnostics = vscode.languages.createDiagnosticCollection("apim-policy-server");
+        this.disposables.push(
+            this.diagnostics,
+            this.serverDiagnostics,
+            vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+            vscode.workspace.onDidChangeTextDocument(e => this.validate(e.document)),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.diagnostics.delete(document.uri);
+                this.serverDiagnostics.delete(document.uri);
+            }));
+        vscode.workspace.textDocuments.forEach(document => this.validate(document));
+    }
+
+    public static isPolicyDocument(document: vscode.TextDocument): boolean {
+        return document.fileName.toLowerCase().endsWith(policyFileExtension);
+    }
+
+    public setScope(uri: vscode.Uri, scope: PolicyScope): void {
+        this.scopes[uri.fsPath] = scope;
+        const document = vscode.workspace.textDocuments.find(d => d.uri.fsPath === uri.fsPath);
+        if (document) {
+            this.validate(document);
+        }
+    }
+
+    public getScope(uri: vscode.Uri): PolicyScope | undefined {
+        return this.scopes[uri.fsPath];
+    }
+
+    public validate(document: vscode.TextDocument): void {
+        if (PolicyDiagnosticsProvider.isPolicyDocument(document)) {
+            const problems = new PolicyValidator(this.getScope(document.uri)).validate(document.getText());
+            this.diagnostics.set(document.uri, problems.map(p => toDiagnostic(document, p)));
+        }
+    }
+
+    /**
+     * Shows the errors returned by the server for the last upload of the document. They stay until the next successful upload.
+     * When the uploaded text isn't the text of the document, e.g. with expanded fragments, the offsets are mapped back to the document.
+     */
+    public setServerErrors(document: vscode.TextDocument, errors: IPolicyError[], uploadedText: string, toDocumentOffset?: (offset: number) => number): void {
+        const problems = policyErrorUtil.locate(errors, uploadedText).map(p => {
+            return toDocumentOffset ? { ...p, start: toDocumentOffset(p.start), end: Math.max(toDocumentOffset(p.start), toDocumentOffset(p.end)) } : p;
+        });
+        this.serverDiagnostics.set(document.uri, problems.map(p => toDiagnostic(document, p)));
+    }
+
+    public clearServerErrors(document: vscode.TextDocument): void {
+        this.serverDiagnostics.delete(document.uri);
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => { d.dispose(); });
+    }
+}
+
+export function toDiagnostic(document: vscode.TextDocument, problem: IXmlProblem): vscode.Diagnostic {
+    const range = new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end));
+    const severity = problem.severity === "error" ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning;
+    const diagnostic = new vscode.Diagnostic(range, problem.message, severity);
+    diagnostic.source = "apim";
+    return diagnostic;
+}
@@ -0,0 +1,382 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+import { createMockContext } from "./createMockContext";
+import { CSharpExpressionParser, ExpressionNode, StatementNode } from "./CSharpExpressionParser";
+import { callMethod, convert, getProperty, getStaticTypes, isOfType, nullReference } from "./expressionMembers";
+import { createTimeSpan, ExpressionObject, ExpressionValue, getTimeSpan, JsonToken, toCSharpString } from "./expressionValues";
+import { IMockContext } from "./IMockContext";
+import { PolicyXmlParser } from "./PolicyXmlParser";
+
+export interface IExpressionResult {
+    // Offsets of the expression in the policy, from the '@' to the character after the closing bracket.
+    start: number;
+    end: number;
+    code: string;
+    value?: ExpressionValue;
+    error?: string;
+}
+
+interface IScope {
+    variables: Map<string, ExpressionValue>;
+    parent?: IScope;
+}
+
+/**
+ * Evaluates policy expressions against a mock request context, without calling the gateway.
+ * Each evaluator keeps the state of one request: a body read without preserveContent can't be read again by later expressions.
+ */
+export class PolicyExpressionEvaluator {
+    private readonly context: ExpressionObject;
+    private readonly staticTypes: { [name: string]: ExpressionObject | undefined };
+
+    constructor(mockContext: IMockContext) {
+        this.context = createMockContext(mockContext);
+        // DateTime.UtcNow is the time of the mock request, so results don't change from one run to the next.
+        this.staticTypes = getStaticTypes(<Date>this.context.properties.Timestamp);
+    }
+
+    /**
+     * Evaluates the expressions of the policy in document order.
+     */
+    public evaluatePolicy(policyXml: string): IExpressionResult[] {
+        return PolicyXmlParser.parse(policyXml).expressions.map(expression => {
+            const code = policyXml.substring(expression.start, expression.end);
+            try {
+                return { start: expression.start, end: expression.end, code, value: this.evaluate(code) };
+            } catch (error) {
+                return { start: expression.start, end: expression.end, code, error: (<Error>error).message };
+            }
+        });
+    }
+
+    /**
+     * Evaluates a single-statement expression like @(...) or a multi-statement expression like @{...}, as written in a policy.
+     */
+    public evaluate(code: string): ExpressionValue {
+        const source = unescapeXml(code.trim());
+        const scope: IScope = { variables: new Map<string, ExpressionValue>() };
+        if (source.startsWith("@(") && source.endsWith(")")) {
+            return this.evaluateNode(CSharpExpressionParser.parseExpression(source.substring(2, source.length - 1)), scope);
+        } else if (source.startsWith("@{") && source.endsWith("}")) {
+            const result = this.execute(CSharpExpressionParser.parseStatements(source.substring(2, source.length - 1)), scope);
+            if (!result) {
+                throw new Error(localize("noReturn", "Not all code paths return a value."));
+            }
+            return result.value;
+        }
+        throw new Error(localize("notExpression", "Policy expressions start with '@(' or '@{'."));
+    }
+
+    private execute(statement: StatementNode, scope: IScope): { value: ExpressionValue } | undefined {
+        switch (statement.kind) {
+            case "block":
+                const blockScope: IScope = { variables: new Map<string, ExpressionValue>(), parent: scope };
+                for (const child of statement.statements) {
+                    const result = this.execute(child, blockScope);
+                    if (result) {
+                        return result;
+                    }
+                }
+                return undefined;
+            case "declaration":
+                scope.variables.set(statement.name, this.evaluateNode(statement.value, scope));
+                return undefined;
+            case "assignment":
+                const variableScope = findScope(scope, statement.name);
+                if (!variableScope) {
+                    throw unknownName(statement.name);
+                }
+                const value = this.evaluateNode(statement.value, scope);
+                const current = <ExpressionValue>variableScope.variables.get(statement.name);
+                variableScope.variables.set(statement.name, statement.operator === "=" ? value : add(current, statement.operator === "-=" ? negate(value) : value));
+                return undefined;
+            case "expression":
+                this.evaluateNode(statement.expression, scope);
+                return undefined;
+            case "return":
+                return { value: statement.value ? this.evaluateNode(statement.value, scope) : null };
+            case "if":
+                if (toBoolean(this.evaluateNode(statement.test, scope))) {
+                    return this.execute(statement.whenTrue, scope);
+                }
+                return statement.whenFalse ? this.execute(statement.whenFalse, scope) : undefined;
+            case "foreach":
+                for (const item of enumerate(this.evaluateNode(statement.collection, scope))) {
+                    const result = this.execute(statement.body, { variables: new Map<string, ExpressionValue>([[statement.name, item]]), parent: scope });
+                    if (result) {
+                        return result;
+                    }
+                }
+                return undefined;
+            default:
+                return undefined;
+        }
+    }
+
+    private evaluateNode(node: ExpressionNode, scope: IScope): ExpressionValue {
+        switch (node.kind) {
+            case "literal":
+                return node.value;
+            case "interpolation":
+                return node.parts.map(part => typeof part === "string" ? part : toCSharpString(this.evaluateNode(part, scope))).join("");
+            case "identifier":
+                return this.resolveName(node.name, scope);
+            case "member":
+                const memberTarget = this.evaluateNode(node.target, scope);
+                if (memberTarget === null && node.conditional) {
+                    return null;
+                }
+                return getProperty(memberTarget, node.name);
+            case "call":
+                return this.evaluateCall(node, scope);
+            case "index":
+                const indexTarget = this.evaluateNode(node.target, scope);
+                return getIndex(indexTarget, node.args.map(arg => this.evaluateNode(arg, scope)));
+            case "unary":
+                return applyUnaryOperator(node.operator, this.evaluateNode(node.operand, scope));
+            case "binary":
+                return this.evaluateBinary(node.operator, node.left, node.right, scope);
+            case "conditional":
+                return toBoolean(this.evaluateNode(node.test, scope)) ? this.evaluateNode(node.whenTrue, scope) : this.evaluateNode(node.whenFalse, scope);
+            case "lambda":
+                return this.createLambda(node.parameters, node.body, scope);
+            case "cast":
+                return convert(this.evaluateNode(node.operand, scope), node.typeName);
+            case "typeTest":
+                const tested = this.evaluateNode(node.operand, scope);
+                if (node.operator === "is") {
+                    return isOfType(tested, node.typeName);
+                }
+                return isOfType(tested, node.typeName) ? tested : null;
+            case "new":
+                const items = node.items;
+                if (items) {
+                    return items.map(item => this.evaluateNode(item, scope));
+                }
+                return callMethod(this.resolveName(node.typeName, scope), "new", [], node.args.map(arg => this.evaluateNode(arg, scope)));
+            default:
+                throw new Error(localize("expressionNotSupported", "The expression isn't supported by the local evaluator."));
+        }
+    }
+
+    private createLambda(parameters: string[], body: ExpressionNode, scope: IScope): ExpressionValue {
+        return (args: ExpressionValue[]) => {
+            const variables = new Map<string, ExpressionValue>();
+            parameters.forEach((name, i) => { variables.set(name, i < args.length ? args[i] : null); });
+            return this.evaluateNode(body, { variables, parent: scope });
+        };
+    }
+
+    private evaluateCall(node: { target: ExpressionNode, typeArguments: string[], args: ExpressionNode[] }, scope: IScope): ExpressionValue {
+        if (node.target.kind !== "member") {
+            const lambda = this.evaluateNode(node.target, scope);
+            if (typeof lambda !== "function") {
+                throw new Error(localize("notCallable", "Only methods can be called."));
+            }
+            return lambda(node.args.map(arg => this.evaluateNode(arg, scope)));
+        }
+
+        const target = this.evaluateNode(node.target.target, scope);
+        if (target === null && node.target.conditional) {
+            return null;
+        }
+        return callMethod(target, node.target.name, node.typeArguments, node.args.map(arg => this.evaluateNode(arg, scope)));
+    }
+
+    private evaluateBinary(operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode, scope: IScope): ExpressionValue {
+        const left = this.evaluateNode(leftNode, scope);
+        switch (operator) {
+            case "&&":
+                return toBoolean(left) && toBoolean(this.evaluateNode(rightNode, scope));
+            case "||":
+                return toBoolean(left) || toBoolean(this.evaluateNode(rightNode, scope));
+            case "??":
+                return left !== null ? left : this.evaluateNode(rightNode, scope);
+            default:
+        }
+
+        return applyOperator(operator, left, this.evaluateNode(rightNode, scope));
+    }
+
+    private resolveName(name: string, scope: IScope): ExpressionValue {
+        const variableScope = findScope(scope, name);
+        if (variableScope) {
+            return <ExpressionValue>variableScope.variables.get(name);
+        } else if (name === "context") {
+            return this.context;
+        }
+        const staticType = this.staticTypes[name.replace(/^System\./, "")];
+        if (staticType) {
+            return staticType;
+        }
+        throw unknownName(name);
+    }
+}
+
+function applyUnaryOperator(operator: string, operand: ExpressionValue): ExpressionValue {
+    switch (operator) {
+        case "!":
+            return !toBoolean(operand);
+        case "-":
+            return negate(operand);
+        default:
+            return operand;
+    }
+}
+
+function applyOperator(operator: string, left: ExpressionValue, right: ExpressionValue): ExpressionValue {
+    switch (operator) {
+        case "+":
+            return add(left, right);
+        case "-":
+            return add(left, negate(right));
+        case "*":
+            return toNumber(left) * toNumber(right);
+        case "/":
+            return toNumber(left) / toNumber(right);
+        case "%":
+            return toNumber(left) % toNumber(right);
+        case "==":
+            return areEqual(left, right);
+        case "!=":
+            return !areEqual(left, right);
+        case "<":
+            return compare(left, right) < 0;
+        case ">":
+            return compare(left, right) > 0;
+        case "<=":
+            return compare(left, right) <= 0;
+        case ">=":
+            return compare(left, right) >= 0;
+        case "&":
+            return toBoolean(left) && toBoolean(right);
+        case "|":
+            return toBoolean(left) || toBoolean(right);
+        default:
+            throw new Error(localize("operatorNotSupported", `The operator '${operator}' isn't supported by the local evaluator.`));
+    }
+}
+
+function findScope(scope: IScope | undefined, name: string): IScope | undefined {
+    while (scope && !scope.variables.has(name)) {
+        scope = scope.parent;
+    }
+    return scope;
+}
+
+function getIndex(target: ExpressionValue, args: ExpressionValue[]): ExpressionValue {
+    if (target === null) {
+        throw nullReference();
+    }
+    return callMethod(target, "get_Item", [], args);
+}
+
+function add(left: ExpressionValue, right: ExpressionValue): ExpressionValue {
+    if (typeof left === "string" || typeof right === "string") {
+        return toCSharpString(left) + toCSharpString(right);
+    }
+    const rightTimeSpan = getTimeSpan(right);
+    if (left instanceof Date && rightTimeSpan !== undefined) {
+        return new Date(left.getTime() + rightTimeSpan);
+    }
+    const leftTimeSpan = getTimeSpan(left);
+    if (leftTimeSpan !== undefined && rightTimeSpan !== undefined) {
+        return createTimeSpan(leftTimeSpan + rightTimeSpan);
+    }
+    if (left instanceof Date && right instanceof Date) {
+        return createTimeSpan(left.getTime() - right.getTime());
+    }
+    return toNumber(left) + toNumber(right);
+}
+
+// Dates are negated for subtraction, so that a date minus a date gives the time span between them.
+function negate(value: ExpressionValue): ExpressionValue {
+    const timeSpan = getTimeSpan(value);
+    if (timeSpan !== undefined) {
+        return createTimeSpan(-timeSpan);
+    }
+    return value instanceof Date ? value : -toNumber(value);
+}
+
+function areEqual(left: ExpressionValue, right: ExpressionValue): boolean {
+    const leftValue = unwrap(left);
+    const rightValue = unwrap(right);
+    if (leftValue instanceof Date && rightValue instanceof Date) {
+        return leftValue.getTime() === rightValue.getTime();
+    }
+    const leftTimeSpan = getTimeSpan(leftValue);
+    if (leftTimeSpan !== undefined) {
+        return leftTimeSpan === getTimeSpan(rightValue);
+    }
+    return leftValue === rightValue;
+}
+
+function compare(left: ExpressionValue, right: ExpressionValue): number {
+    const leftValue = unwrap(left);
+    const rightValue = unwrap(right);
+    if (leftValue instanceof Date && rightValue instanceof Date) {
+        return leftValue.getTime() - rightValue.getTime();
+    }
+    const leftTimeSpan = getTimeSpan(leftValue);
+    const rightTimeSpan = getTimeSpan(rightValue);
+    if (leftTimeSpan !== undefined && rightTimeSpan !== undefined) {
+        return leftTimeSpan - rightTimeSpan;
+    }
+    return toNumber(leftValue) - toNumber(rightValue);
+}
+
+// JSON values like body["count"] are compared by their value.
+function unwrap(value: ExpressionValue): ExpressionValue {
+    if (value instanceof JsonToken && (value.value === null || typeof value.value !== "object")) {
+        return <string | number | boolean | null>value.value;
+    }
+    return value;
+}
+
+function toBoolean(value: ExpressionValue): boolean {
+    const unwrapped = unwrap(value);
+    if (typeof unwrapped !== "boolean") {
+        throw new Error(localize("expectedBoolean", `Expected a bool, but the value is '${toCSharpString(value)}'.`));
+    }
+    return unwrapped;
+}
+
+function toNumber(value: ExpressionValue): number {
+    const unwrapped = unwrap(value);
+    if (typeof unwrapped !== "number") {
+        throw new Error(localize("expectedNumber", `Expected a number, but the value is '${toCSharpString(value)}'.`));
+    }
+    return unwrapped;
+}
+
+function enumerate(value: ExpressionValue): ExpressionValue[] {
+    const items = callMethod(value, "ToArray", [], []);
+    return Array.isArray(items) ? items : [];
+}
+
+function unknownName(name: string): Error {
+    return new Error(localize("unknownName", `The name '${name}' does not exist in the current context.`));
+}
+
+function unescapeXml(text: string): string {
+    return text.replace(/&(lt|gt|quot|apos|amp|#x[0-9a-fA-F]+|#[0-9]+);/g, (_match: string, entity: string) => {
+        switch (entity) {
+            case "lt":
+                return "<";
+            case "gt":
+                return ">";
+            case "quot":
+                return '"';
+            case "apos":
+                return "'";
+            case "amp":
+                return "&";
+            default:
+                return String.fromCharCode(entity.startsWith("#x") ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10));
+        }
+    });
+}
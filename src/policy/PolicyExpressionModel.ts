@@ -0,0 +1,278 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+import { parseCSharpTypes, splitTypeList } from "./CSharpTypeParser";
+import { IExpressionMember, IExpressionType } from "./IExpressionType";
+
+const contextVariable: IExpressionMember = {
+    name: "context",
+    kind: "property",
+    type: "IProxyRequestContext",
+    documentation: localize("contextVariableDoc", "The request being processed: request and response messages, API, operation, product, subscription, user and variables.")
+};
+
+interface ISegment {
+    name: string;
+    typeArguments?: string[];
+    indexer: boolean;
+}
+
+/**
+ * The object model available to policy expressions, read from C# declarations such as Context.cs.
+ * Answers what members follow a member access chain like "context.Request.Headers." without a .NET project.
+ */
+export class PolicyExpressionModel {
+    private readonly types: { [name: string]: IExpressionType | undefined } = {};
+    private readonly extensionMethods: IExpressionMember[];
+
+    constructor(sources: string[]) {
+        const extensionMethods: IExpressionMember[] = [];
+        for (const source of sources) {
+            for (const declaredType of parseCSharpTypes(source)) {
+                const existing = this.types[declaredType.name];
+                if (existing) {
+                    existing.members.push(...declaredType.members);
+                } else {
+                    this.types[declaredType.name] = declaredType;
+                }
+                extensionMethods.push(...declaredType.members.filter(m => m.thisType !== undefined));
+            }
+        }
+        // Like overload resolution in C#, the methods for a specific type win over generic ones, e.g. GetValueOrDefault of the headers returns a string.
+        const isGeneric = (m: IExpressionMember) => m.typeParameters !== undefined && m.typeParameters.length > 0;
+        this.extensionMethods = [...extensionMethods.filter(m => !isGeneric(m)), ...extensionMethods.filter(isGeneric)];
+    }
+
+    /**
+     * Returns the members that can follow the text before the cursor, or the root variables when the cursor isn't after a member access.
+     */
+    public getCompletions(textBeforeCursor: string): IExpressionMember[] {
+        const chain = parseChain(textBeforeCursor);
+        if (!chain) {
+            return [];
+        }
+        if (chain.receiver.length === 0) {
+            return [contextVariable];
+        }
+
+        const receiverType = this.resolveChain(chain.receiver);
+        if (receiverType === undefined) {
+            return [];
+        }
+        const names: string[] = [];
+        return this.getMembers(receiverType).filter(m => {
+            if (m.name === "Item" || names.indexOf(m.name) !== -1) {
+                return false;
+            }
+            names.push(m.name);
+            return true;
+        });
+    }
+
+    /**
+     * Returns the member whose name ends the text, e.g. Headers for "context.Request.Headers".
+     */
+    public getMember(textToEndOfName: string): IExpressionMember | undefined {
+        const chain = parseChain(textToEndOfName);
+        if (!chain || !chain.partial) {
+            return undefined;
+        }
+        if (chain.receiver.length === 0) {
+            return chain.partial === contextVariable.name ? contextVariable : undefined;
+        }
+        const receiverType = this.resolveChain(chain.receiver);
+        return receiverType !== undefined ? this.getMembers(receiverType).find(m => m.name === chain.partial) : undefined;
+    }
+
+    public getMembers(typeName: string, depth: number = 0): IExpressionMember[] {
+        const members: IExpressionMember[] = [];
+        const parsed = parseTypeName(typeName);
+        const declaredType = this.types[parsed.name];
+        if (declaredType && depth < 10) {
+            const map: { [name: string]: string | undefined } = {};
+            declaredType.typeParameters.forEach((p, i) => { map[p] = parsed.args[i]; });
+            members.push(...declaredType.members.filter(m => m.thisType === undefined).map(m => substituteMember(m, map)));
+            for (const baseType of declaredType.baseTypes) {
+                members.push(...this.getMembers(substitute(baseType, map), depth + 1));
+            }
+        }
+
+        for (const method of this.extensionMethods) {
+            const map: { [name: string]: string | undefined } = {};
+            if (unify(<string>method.thisType, typeName, method.typeParameters ? method.typeParameters : [], map)) {
+                members.push(substituteMember(method, map));
+            }
+        }
+        return members;
+    }
+
+    private resolveChain(segments: ISegment[]): string | undefined {
+        if (segments[0].name !== contextVariable.name) {
+            return undefined;
+        }
+
+        let typeName: string = contextVariable.type;
+        for (const segment of segments.slice(1)) {
+            const members = this.getMembers(typeName).filter(m => m.name === (segment.indexer ? "Item" : segment.name));
+            const member = segment.typeArguments
+                ? members.find(m => m.typeParameters !== undefined && m.typeParameters.length === (<string[]>segment.typeArguments).length)
+                : members.find(m => !m.typeParameters || m.typeParameters.length === 0);
+            if (!member) {
+                return undefined;
+            }
+
+            typeName = member.type;
+            if (segment.typeArguments && member.typeParameters) {
+                const map: { [name: string]: string | undefined } = {};
+                member.typeParameters.forEach((p, i) => { map[p] = (<string[]>segment.typeArguments)[i]; });
+                typeName = substitute(typeName, map);
+            }
+        }
+        return typeName;
+    }
+}
+
+function parseTypeName(typeName: string): { name: string, args: string[] } {
+    const text = typeName.trim().replace(/\?$/, "");
+    if (text.endsWith("[]")) {
+        return { name: "Array", args: [text.substring(0, text.length - 2)] };
+    }
+    const match = /^([\w.]+)\s*(?:<(.*)>)?$/.exec(text);
+    if (!match) {
+        return { name: text, args: [] };
+    }
+    const name = match[1].substring(match[1].lastIndexOf(".") + 1);
+    return { name, args: match[2] ? splitTypeList(match[2]) : [] };
+}
+
+function substitute(typeName: string, map: { [name: string]: string | undefined }): string {
+    return typeName.replace(/\b\w+\b/g, word => {
+        const value = map[word];
+        return value !== undefined ? value : word;
+    });
+}
+
+// Replaces the type parameters bound in the map and drops them from the type parameters of the member.
+function substituteMember(member: IExpressionMember, map: { [name: string]: string | undefined }): IExpressionMember {
+    const typeParameters = member.typeParameters ? member.typeParameters.filter(p => map[p] === undefined) : undefined;
+    return Object.assign({}, member, {
+        type: substitute(member.type, map),
+        parameters: member.parameters !== undefined ? substitute(member.parameters, map) : undefined,
+        typeParameters
+    });
+}
+
+/**
+ * Matches a type pattern like "IReadOnlyDictionary<TKey, TValue>" with a type, binding the type parameters in the map.
+ */
+function unify(pattern: string, typeName: string, typeParameters: string[], map: { [name: string]: string | undefined }): boolean {
+    const normalizedPattern = pattern.replace(/\s+/g, "");
+    const normalizedType = typeName.replace(/\s+/g, "").replace(/\?$/, "");
+    if (typeParameters.indexOf(normalizedPattern) !== -1) {
+        const bound = map[normalizedPattern];
+        if (bound !== undefined) {
+            return bound.replace(/\s+/g, "") === normalizedType;
+        }
+        map[normalizedPattern] = typeName.trim();
+        return true;
+    }
+
+    const parsedPattern = parseTypeName(normalizedPattern);
+    const parsedType = parseTypeName(normalizedType);
+    return parsedPattern.name === parsedType.name
+        && parsedPattern.args.length === parsedType.args.length
+        && parsedPattern.args.every((arg, i) => unify(arg, parsedType.args[i], typeParameters, map));
+}
+
+/**
+ * Reads the member access chain that ends the text, e.g. "context.Variables["id"].To" gives context, Variables and the indexer, and "To".
+ */
+function parseChain(text: string): { receiver: ISegment[], partial: string } | undefined {
+    let i = text.length;
+    while (i > 0 && /\w/.test(text[i - 1])) {
+        i--;
+    }
+    const partial = text.substring(i);
+    const receiver: ISegment[] = [];
+    i = skipWhitespaceBack(text, i);
+    if (text[i - 1] !== ".") {
+        return { receiver, partial };
+    }
+    i--;
+
+    let done = false;
+    while (!done) {
+        i = skipWhitespaceBack(text, i);
+        if (text[i - 1] === "]") {
+            i = findOpening(text, i - 1, "[", "]");
+            if (i < 0) {
+                return undefined;
+            }
+            receiver.unshift({ name: "", indexer: true });
+            continue;
+        }
+
+        const segment: ISegment = { name: "", indexer: false };
+        if (text[i - 1] === ")") {
+            i = skipWhitespaceBack(text, findOpening(text, i - 1, "(", ")"));
+        }
+        if (i > 0 && text[i - 1] === ">") {
+            const open = findOpening(text, i - 1, "<", ">");
+            if (open < 0) {
+                return undefined;
+            }
+            segment.typeArguments = splitTypeList(text.substring(open + 1, i - 1));
+            i = skipWhitespaceBack(text, open);
+        }
+
+        const end = i;
+        while (i > 0 && /\w/.test(text[i - 1])) {
+            i--;
+        }
+        if (i === end || i < 0) {
+            return undefined;
+        }
+        segment.name = text.substring(i, end);
+        receiver.unshift(segment);
+
+        const before = skipWhitespaceBack(text, i);
+        if (text[before - 1] === ".") {
+            i = before - 1;
+        } else {
+            done = true;
+        }
+    }
+    return { receiver, partial };
+}
+
+// Returns the offset of the bracket that opens the one at the offset, or -1.
+function findOpening(text: string, closeOffset: number, open: string, close: string): number {
+    let depth = 0;
+    for (let i = closeOffset; i >= 0; i--) {
+        const c = text[i];
+        if (c === '"') {
+            i = text.lastIndexOf('"', i - 1);
+            if (i < 0) {
+                return -1;
+            }
+        } else if (c === close) {
+            depth++;
+        } else if (c === open) {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
+
+function skipWhitespaceBack(text: string, offset: number): number {
+    while (offset > 0 && /\s/.test(text[offset - 1])) {
+        offset--;
+    }
+    return offset;
+}
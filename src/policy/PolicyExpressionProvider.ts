@@ -0,0 +1,91 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as vscode from "vscode";
+import { ext } from "../extensionVariables";
+import { IExpressionMember } from "./IExpressionType";
+import { PolicyExpressionModel } from "./PolicyExpressionModel";
+import { PolicyXmlParser } from "./PolicyXmlParser";
+import { systemTypesSource } from "./systemTypesSource";
+
+/**
+ * Completion and hover for policy expressions. The context model is read from the Context.cs file shipped with the
+ * extension, so no .NET project or SDK is needed.
+ */
+export class PolicyExpressionProvider implements vscode.CompletionItemProvider, vscode.HoverProvider {
+    private model: Promise<PolicyExpressionModel> | undefined;
+
+    public async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[] | undefined> {
+        const expressionText = getExpressionText(document, document.offsetAt(position));
+        if (expressionText === undefined) {
+            return undefined;
+        }
+
+        const model = await this.getModel();
+        return model.getCompletions(expressionText).map(member => {
+            const item = new vscode.CompletionItem(member.name, getCompletionItemKind(member));
+            item.detail = getSignature(member);
+            item.documentation = member.documentation;
+            return item;
+        });
+    }
+
+    public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const range = document.getWordRangeAtPosition(position);
+        if (!range) {
+            return undefined;
+        }
+        const expressionText = getExpressionText(document, document.offsetAt(range.end));
+        if (expressionText === undefined) {
+            return undefined;
+        }
+
+        const model = await this.getModel();
+        const member = model.getMember(expressionText);
+        if (!member) {
+            return undefined;
+        }
+        const contents: vscode.MarkedString[] = [{ language: "csharp", value: getSignature(member) }];
+        if (member.documentation) {
+            contents.push(member.documentation);
+        }
+        return new vscode.Hover(contents, range);
+    }
+
+    private async getModel(): Promise<PolicyExpressionModel> {
+        if (!this.model) {
+            this.model = (async () => {
+                const contextSource = await fse.readFile(ext.context.asAbsolutePath(path.join('resources', 'projectFiles', 'Context.cs')), 'utf8');
+                return new PolicyExpressionModel([contextSource, systemTypesSource]);
+            })();
+        }
+        return this.model;
+    }
+}
+
+// Returns the text of the policy expression from after its opening bracket to the offset, or undefined when the offset isn't in an expression.
+function getExpressionText(document: vscode.TextDocument, offset: number): string | undefined {
+    const text = document.getText();
+    const expression = PolicyXmlParser.parse(text).expressions.find(e => offset >= e.start + 2 && (offset < e.end || e.end === text.length));
+    return expression ? text.substring(expression.start + 2, offset) : undefined;
+}
+
+function getCompletionItemKind(member: IExpressionMember): vscode.CompletionItemKind {
+    switch (member.kind) {
+        case "method":
+            return vscode.CompletionItemKind.Method;
+        case "field":
+            return vscode.CompletionItemKind.EnumMember;
+        default:
+            return member.name === "context" ? vscode.CompletionItemKind.Variable : vscode.CompletionItemKind.Property;
+    }
+}
+
+function getSignature(member: IExpressionMember): string {
+    const typeParameters = member.typeParameters && member.typeParameters.length > 0 ? `<${member.typeParameters.join(", ")}>` : "";
+    return `${member.type} ${member.name}${typeParameters}${member.parameters !== undefined ? member.parameters : ""}`;
+}
@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from "vscode";
+import { getWorkspaceSetting } from "../vsCodeConfig/settings";
+import { PolicyDiagnosticsProvider } from "./PolicyDiagnosticsProvider";
+import { PolicyNormalizer } from "./PolicyNormalizer";
+
+const sortAttributesKey = "sortPolicyAttributes";
+const normalizeOnUploadKey = "normalizePolicyOnUpload";
+
+/**
+ * Formats policy files. With the normalizePolicyOnUpload setting, policy files are also formatted when they are saved, which uploads the
+ * policies opened from the explorer, and the policy editors format the policies they download.
+ */
+export class PolicyFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.disposables.push(vscode.workspace.onWillSaveTextDocument(e => {
+            if (PolicyFormattingProvider.isNormalizeOnUploadEnabled() && PolicyDiagnosticsProvider.isPolicyDocument(e.document)) {
+                e.waitUntil(Promise.resolve(this.getEdits(e.document, new PolicyNormalizer({ sortAttributes: !!getWorkspaceSetting<boolean>(sortAttributesKey) }))));
+            }
+        }));
+    }
+
+    public static isNormalizeOnUploadEnabled(): boolean {
+        return !!getWorkspaceSetting<boolean>(normalizeOnUploadKey);
+    }
+
+    // Formats a downloaded policy. Policies that aren't well-formed are left as they are.
+    public static normalizeDownload(policy: string): string {
+        try {
+            return new PolicyNormalizer({ sortAttributes: !!getWorkspaceSetting<boolean>(sortAttributesKey) }).normalize(policy);
+        } catch {
+            return policy;
+        }
+    }
+
+    public provideDocumentFormattingEdits(document: vscode.TextDocument, options: vscode.FormattingOptions): vscode.TextEdit[] {
+        return this.getEdits(document, new PolicyNormalizer({
+            sortAttributes: !!getWorkspaceSetting<boolean>(sortAttributesKey),
+            indentUnit: options.insertSpaces ? " ".repeat(options.tabSize) : "\t"
+        }));
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => { d.dispose(); });
+    }
+
+    private getEdits(document: vscode.TextDocument, normalizer: PolicyNormalizer): vscode.TextEdit[] {
+        const text = document.getText();
+        let formatted: string;
+        try {
+            formatted = normalizer.normalize(text);
+        } catch {
+            // The problems of policies that aren't well-formed are shown as diagnostics already.
+            return [];
+        }
+        return formatted !== text ? [vscode.TextEdit.replace(new vscode.Range(document.positionAt(0), document.positionAt(text.length)), formatted)] : [];
+    }
+}
@@ -0,0 +1,131 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+
+export interface IPolicyFragments {
+    [name: string]: string | undefined;
+}
+
+// A marker of the local policy file and the text it was expanded to, as offsets in each text.
+export interface IExpandedRegion {
+    sourceStart: number;
+    sourceEnd: number;
+    start: number;
+    end: number;
+}
+
+export interface IFragmentExpansion {
+    text: string;
+    regions: IExpandedRegion[];
+}
+
+export interface IFragmentCollapse {
+    text: string;
+    // Fragments whose uploaded content differs from the library, they are left expanded.
+    modifiedFragments: string[];
+}
+
+const markerPattern = /<!--\s*fragment:\s*([\w.\-]+)\s*-->/g;
+const expandedPattern = /<!--\s*fragment-begin:\s*([\w.\-]+)\s*-->([\s\S]*?)<!--\s*fragment-end:\s*\1\s*-->/g;
+
+export function createFragmentMarker(name: string): string {
+    return `<!-- fragment: ${name} -->`;
+}
+
+// Fragment names like constructor are valid file names, so they are looked up among the own names of the library only.
+export function getPolicyFragment(fragments: IPolicyFragments, name: string): string | undefined {
+    return Object.prototype.hasOwnProperty.call(fragments, name) ? fragments[name] : undefined;
+}
+
+/**
+ * Expands the <!-- fragment: name --> markers of a policy with the fragments of the library, and collapses them back.
+ * The expanded fragments are kept between <!-- fragment-begin: name --> and <!-- fragment-end: name --> comments, so they can be found in the policy
+ * downloaded from the service.
+ */
+export class PolicyFragmentExpander {
+    constructor(private readonly fragments: IPolicyFragments) {
+    }
+
+    public expand(text: string): IFragmentExpansion {
+        const regions: IExpandedRegion[] = [];
+        let result = "";
+        let last = 0;
+        // A copy, as expanding nested fragments uses the shared pattern.
+        const pattern = new RegExp(markerPattern.source, "g");
+        let match = pattern.exec(text);
+        while (match) {
+            const expanded = this.expandFragment(match[1], getIndentation(text, match.index), []);
+            result += text.substring(last, match.index);
+            regions.push({ sourceStart: match.index, sourceEnd: match.index + match[0].length, start: result.length, end: result.length + expanded.length });
+            result += expanded;
+            last = match.index + match[0].length;
+            match = pattern.exec(text);
+        }
+        return { text: result + text.substring(last), regions };
+    }
+
+    public collapse(text: string): IFragmentCollapse {
+        const modifiedFragments: string[] = [];
+        const collapsed = text.replace(expandedPattern, (expanded: string, name: string) => {
+            if (this.isUnmodified(name, expanded)) {
+                return createFragmentMarker(name);
+            }
+            modifiedFragments.push(name);
+            return expanded;
+        });
+        return { text: collapsed, modifiedFragments };
+    }
+
+    private isUnmodified(name: string, expanded: string): boolean {
+        try {
+            return normalize(this.expandFragment(name, "", [])) === normalize(expanded);
+        } catch {
+            return false;
+        }
+    }
+
+    private expandFragment(name: string, indentation: string, stack: string[]): string {
+        const fragment = getPolicyFragment(this.fragments, name);
+        if (fragment === undefined) {
+            throw new Error(localize("fragmentNotFound", `The policy fragment '${name}' isn't in the fragment library.`));
+        } else if (stack.indexOf(name) !== -1) {
+            throw new Error(localize("fragmentCycle", `The policy fragment '${name}' includes itself: ${[...stack, name].join(" > ")}.`));
+        }
+
+        const content = fragment.trim().replace(markerPattern, (_marker: string, included: string, offset: number, source: string) => {
+            return this.expandFragment(included, getIndentation(source, offset), [...stack, name]);
+        });
+        const lines = content.split(/\r?\n/).map(line => line.length > 0 ? `${indentation}${line}` : line);
+        return [`<!-- fragment-begin: ${name} -->`, ...lines, `${indentation}<!-- fragment-end: ${name} -->`].join("\n");
+    }
+}
+
+/**
+ * Maps an offset in the expanded policy to the local policy. Offsets in an expanded fragment map to its marker.
+ */
+export function toSourceOffset(expansion: IFragmentExpansion, offset: number): number {
+    let delta = 0;
+    for (const region of expansion.regions) {
+        if (offset < region.start) {
+            break;
+        } else if (offset < region.end) {
+            return region.sourceStart;
+        }
+        delta += (region.end - region.start) - (region.sourceEnd - region.sourceStart);
+    }
+    return offset - delta;
+}
+
+// The whitespace before the marker, when the marker starts its line.
+function getIndentation(text: string, offset: number): string {
+    const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+    const prefix = text.substring(lineStart, offset);
+    return /^[ \t]*$/.test(prefix) ? prefix : "";
+}
+
+function normalize(text: string): string {
+    return text.replace(/\s+/g, "");
+}
@@ -0,0 +1,100 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+import { IXmlAttribute, IXmlElement } from "./IXmlElement";
+import { PolicyXmlParser } from "./PolicyXmlParser";
+import { xmlTextUtil } from "./xmlTextUtil";
+
+export interface IPolicyNormalizeOptions {
+    // Sorts the attributes of each element by name, so policies that differ only in attribute order are the same.
+    sortAttributes?: boolean;
+    // Trims the text of elements and re-indents it. Otherwise the content of elements with text, like expressions or text mixed with
+    // child elements, is kept as it is.
+    trimText?: boolean;
+    // Four spaces by default.
+    indentUnit?: string;
+}
+
+const commentPattern = /(<!--[\s\S]*?-->)/;
+
+/**
+ * Writes a policy in a canonical layout: one element per line, consistently indented and no blank lines. Attributes are in double quotes
+ * unless their value contains a quote, then they keep the quote they had. Text and comments are kept, trimmed text spanning several lines
+ * keeps its relative indentation. Attribute values are never changed.
+ */
+export class PolicyNormalizer {
+    constructor(private readonly options: IPolicyNormalizeOptions = {}) {
+    }
+
+    public normalize(policy: string): string {
+        const text = policy.replace(/\r\n/g, "\n");
+        const document = PolicyXmlParser.parse(text);
+        const errors = document.problems.filter(p => p.severity === "error");
+        if (!document.root || errors.length > 0) {
+            throw new Error(localize("policyNotWellFormed", `The policy isn't well-formed: ${errors.length > 0 ? errors[0].message : localize("noRootElement", "it has no root element.")}`));
+        }
+
+        const lines = [
+            ...this.writeText(text.substring(0, document.root.start), ""),
+            ...this.writeElement(text, document.root, ""),
+            ...this.writeText(text.substring(document.root.end), "")
+        ];
+        return `${lines.join("\n")}\n`;
+    }
+
+    private writeElement(text: string, element: IXmlElement, indent: string): string[] {
+        const attributes = this.options.sortAttributes ? element.attributes.slice().sort((a, b) => a.name.localeCompare(b.name)) : element.attributes;
+        const startTag = `<${element.name}${attributes.map(a => ` ${writeAttribute(a)}`).join("")}`;
+        const childIndent = `${indent}${this.options.indentUnit !== undefined ? this.options.indentUnit : xmlTextUtil.indentUnit}`;
+        const rawText = text.substring(element.contentStart, element.contentEnd);
+        if (!this.options.trimText && (element.children.length === 0 ? rawText.trim() !== "" : hasMixedText(text, element))) {
+            return [`${indent}${startTag}>${rawText}</${element.name}>`];
+        }
+
+        const content: string[] = [];
+        let offset = element.contentStart;
+        for (const child of element.children) {
+            content.push(...this.writeText(text.substring(offset, child.start), childIndent), ...this.writeElement(text, child, childIndent));
+            offset = child.end;
+        }
+        content.push(...this.writeText(text.substring(offset, element.contentEnd), childIndent));
+
+        if (content.length === 0) {
+            return [`${indent}${startTag} />`];
+        } else if (content.length === 1 && element.children.length === 0) {
+            return [`${indent}${startTag}>${content[0].trim()}</${element.name}>`];
+        }
+        return [`${indent}${startTag}>`, ...content, `${indent}</${element.name}>`];
+    }
+
+    // Text and comments between elements, each comment on its own lines.
+    private writeText(text: string, indent: string): string[] {
+        const lines: string[] = [];
+        for (const part of text.split(commentPattern)) {
+            lines.push(...xmlTextUtil.dedent(part).filter(line => line).map(line => `${indent}${line}`));
+        }
+        return lines;
+    }
+}
+
+// A value with quotes in it, like an expression with string literals, could contain both kinds, so its quote is never changed.
+function writeAttribute(attribute: IXmlAttribute): string {
+    const quote = attribute.value.indexOf('"') !== -1 || attribute.value.indexOf("'") !== -1 ? attribute.quote : '"';
+    return `${attribute.name}=${quote}${attribute.value}${quote}`;
+}
+
+// Text other than whitespace and comments between the child elements.
+function hasMixedText(text: string, element: IXmlElement): boolean {
+    const parts: string[] = [];
+    let offset = element.contentStart;
+    for (const child of element.children) {
+        parts.push(text.substring(offset, child.start));
+        offset = child.end;
+    }
+    parts.push(text.substring(offset, element.contentEnd));
+    // Splitting by the comment pattern puts the comments at the odd indexes.
+    return parts.some(part => part.split(commentPattern).some((piece, index) => index % 2 === 0 && piece.trim() !== ""));
+}
@@ -0,0 +1,91 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+import { IPolicySnippet } from "./IPolicySnippet";
+import { ITextEdit } from "./ITextEdit";
+import { IXmlElement } from "./IXmlElement";
+import { getPolicyDefinition, PolicySection, policySections } from "./policyCatalog";
+import { PolicyXmlParser } from "./PolicyXmlParser";
+import { xmlTextUtil } from "./xmlTextUtil";
+
+const indentUnit = xmlTextUtil.indentUnit;
+
+/**
+ * Fills in policy snippets and finds where to put them in a policy document.
+ */
+export class PolicySnippetInserter {
+    public static getSections(snippet: IPolicySnippet): PolicySection[] {
+        if (snippet.sections && snippet.sections.length > 0) {
+            return snippet.sections;
+        }
+        const definition = getPolicyDefinition(snippet.name);
+        return definition ? definition.sections : policySections;
+    }
+
+    /**
+     * Replaces the {{parameter}} placeholders of the snippet. Other double-brace references, such as named values, are kept.
+     * Values are escaped for XML unless they are policy expressions.
+     */
+    public render(snippet: IPolicySnippet, values: { [name: string]: string | undefined }): string {
+        const body = typeof snippet.body === "string" ? snippet.body : snippet.body.join("\n");
+        const parameters = snippet.parameters ? snippet.parameters : [];
+        return body.replace(/\{\{([^{}]+)\}\}/g, (match: string, name: string) => {
+            const parameter = parameters.find(p => p.name === name);
+            if (!parameter) {
+                return match;
+            }
+            const value = values[name];
+            const result = value !== undefined ? value : (parameter.defaultValue !== undefined ? parameter.defaultValue : "");
+            return result.startsWith("@") ? result : xmlTextUtil.escapeXml(result);
+        });
+    }
+
+    /**
+     * Returns the edit that inserts the policy into the section. The policy goes at the cursor when the cursor is in the section,
+     * after the policy the cursor is in, or at the end of the section otherwise.
+     */
+    public getInsertEdit(text: string, section: PolicySection, cursor: number, policyXml: string): ITextEdit {
+        const root = PolicyXmlParser.parse(text).root;
+        if (!root || root.name !== "policies") {
+            throw new Error(localize("notPolicyDocument", "The document isn't a policy document."));
+        }
+
+        const sectionElement = root.children.find(c => c.name === section);
+        if (!sectionElement) {
+            const block = [`<${section}>`, ...xmlTextUtil.indentLines(policyXml, indentUnit), `</${section}>`].join("\n");
+            return this.getInsertEditAt(text, root.contentEnd, `${xmlTextUtil.getLineIndent(text, root.start)}${indentUnit}`, block);
+        }
+
+        const sectionIndent = xmlTextUtil.getLineIndent(text, sectionElement.start);
+        if (sectionElement.selfClosing) {
+            const block = [`<${section}>`, ...xmlTextUtil.indentLines(policyXml, `${sectionIndent}${indentUnit}`), `${sectionIndent}</${section}>`].join("\n");
+            return { start: sectionElement.start, end: sectionElement.end, text: block };
+        }
+
+        return this.getInsertEditAt(text, this.getInsertOffset(sectionElement, cursor), `${sectionIndent}${indentUnit}`, policyXml);
+    }
+
+    private getInsertEditAt(text: string, offset: number, indent: string, xml: string): ITextEdit {
+        const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+        const lines = xmlTextUtil.indentLines(xml, indent).join("\n");
+        if (!text.substring(lineStart, offset).trim()) {
+            // Nothing else is before the insertion point on its line, so the XML goes on its own lines above it.
+            return { start: lineStart, end: lineStart, text: `${lines}\n` };
+        }
+        return { start: offset, end: offset, text: `\n${lines}` };
+    }
+
+    private getInsertOffset(section: IXmlElement, cursor: number): number {
+        if (cursor > section.contentStart && cursor <= section.contentEnd) {
+            const policy = section.children.find(c => cursor > c.start && cursor < c.end);
+            if (policy) {
+                return policy.end;
+            }
+            return cursor;
+        }
+        return section.contentEnd;
+    }
+}
@@ -0,0 +1,146 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from "fs-extra";
+import * as path from "path";
+import { localize } from "../localize";
+import { stringifySorted } from "../utils/stringifySorted";
+import { toJson } from "./expressionValues";
+import { IMockContext } from "./IMockContext";
+import { IExpressionResult, PolicyExpressionEvaluator } from "./PolicyExpressionEvaluator";
+
+export const policyTestFileExtension = ".policytest.json";
+
+/**
+ * A policy test case, as written in a *.policytest.json file. The expressions are evaluated against the context and compared with the expected results.
+ */
+export interface IPolicyTestCase {
+    description?: string;
+    // The policy file whose expressions are tested, relative to the test case. Without it, the expressions are evaluated on their own.
+    policy?: string;
+    // The mock request context, or the path of a JSON file with it, relative to the test case.
+    context?: IMockContext | string;
+    expect: IPolicyTestExpectation[];
+}
+
+export interface IPolicyTestExpectation {
+    // The expression as written in the policy, e.g. @(context.Request.Method).
+    expression: string;
+    // The expected result as JSON. Dates are ISO strings and JSON values are compared as JSON.
+    value?: {} | null;
+    // Part of the expected error message, for expressions that are expected to fail.
+    error?: string;
+}
+
+export interface IPolicyTestResult {
+    file: string;
+    description?: string;
+    expression: string;
+    passed: boolean;
+    message: string;
+}
+
+/**
+ * Runs the policy test cases of a folder and its subfolders. It doesn't depend on VS Code, so the same tests can run in CI.
+ */
+export class PolicyTestRunner {
+    public async run(folder: string): Promise<IPolicyTestResult[]> {
+        const results: IPolicyTestResult[] = [];
+        for (const file of await findTestFiles(folder)) {
+            results.push(...await this.runFile(file));
+        }
+        return results;
+    }
+
+    public getSummary(results: IPolicyTestResult[]): string {
+        const lines = results.map(r => `${r.passed ? "PASS" : "FAIL"} ${r.file}${r.expression ? ` ${r.expression}` : ""}: ${r.message}`);
+        const failed = results.filter(r => !r.passed).length;
+        lines.push(localize("policyTestSummary", `${results.length - failed} passed, ${failed} failed.`));
+        return lines.join("\n");
+    }
+
+    public async runFile(file: string): Promise<IPolicyTestResult[]> {
+        let testCase: IPolicyTestCase;
+        let evaluated: IExpressionResult[] | undefined;
+        let evaluator: PolicyExpressionEvaluator;
+        try {
+            // tslint:disable-next-line: no-unsafe-any
+            testCase = await fse.readJson(file);
+            if (typeof testCase !== "object" || testCase === null || !Array.isArray(testCase.expect)) {
+                throw new Error(localize("invalidPolicyTest", "Expected an object with an 'expect' array."));
+            }
+            if (!testCase.expect.every(e => typeof e === "object" && e !== null && typeof e.expression === "string")) {
+                throw new Error(localize("invalidPolicyTestExpectation", "Expected each entry of 'expect' to be an object with an 'expression'."));
+            }
+            const mockContext: IMockContext = typeof testCase.context === "string"
+                // tslint:disable-next-line: no-unsafe-any
+                ? await fse.readJson(path.resolve(path.dirname(file), testCase.context))
+                : testCase.context !== undefined ? testCase.context : {};
+            evaluator = new PolicyExpressionEvaluator(mockContext);
+            if (testCase.policy !== undefined) {
+                evaluated = evaluator.evaluatePolicy(await fse.readFile(path.resolve(path.dirname(file), testCase.policy), "utf8"));
+            }
+        } catch (error) {
+            return [{ file, expression: "", passed: false, message: localize("policyTestFailedToLoad", `Couldn't load the test case: ${(<Error>error).message}`) }];
+        }
+
+        return testCase.expect.map(expectation => {
+            let result: IExpressionResult | undefined;
+            if (evaluated) {
+                result = evaluated.find(r => normalizeCode(r.code) === normalizeCode(expectation.expression));
+            } else {
+                try {
+                    result = { start: 0, end: 0, code: expectation.expression, value: evaluator.evaluate(expectation.expression) };
+                } catch (error) {
+                    result = { start: 0, end: 0, code: expectation.expression, error: (<Error>error).message };
+                }
+            }
+            return { file, description: testCase.description, expression: expectation.expression, ...check(expectation, result) };
+        });
+    }
+}
+
+async function findTestFiles(folder: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const name of (await fse.readdir(folder)).sort()) {
+        const fullPath = path.join(folder, name);
+        if ((await fse.stat(fullPath)).isDirectory()) {
+            if (name !== "node_modules" && !name.startsWith(".")) {
+                files.push(...await findTestFiles(fullPath));
+            }
+        } else if (name.toLowerCase().endsWith(policyTestFileExtension)) {
+            files.push(fullPath);
+        }
+    }
+    return files;
+}
+
+function check(expectation: IPolicyTestExpectation, result: IExpressionResult | undefined): { passed: boolean, message: string } {
+    if (!result) {
+        return { passed: false, message: localize("expressionNotInPolicy", "The expression isn't in the policy.") };
+    }
+
+    if (result.error !== undefined) {
+        if (expectation.error !== undefined && result.error.indexOf(expectation.error) !== -1) {
+            return { passed: true, message: localize("failedAsExpected", `Failed as expected: ${result.error}`) };
+        }
+        return { passed: false, message: localize("expressionFailed", `Failed: ${result.error}`) };
+    }
+
+    const actual = stringifySorted(toJson(result.value !== undefined ? result.value : null));
+    if (expectation.error !== undefined) {
+        return { passed: false, message: localize("expectedFailure", `Expected an error containing '${expectation.error}', but the result is ${actual}.`) };
+    }
+    // Objects are compared regardless of the order of their keys.
+    const expected = stringifySorted(expectation.value !== undefined ? expectation.value : null);
+    if (actual !== expected) {
+        return { passed: false, message: localize("unexpectedResult", `Expected ${expected}, but the result is ${actual}.`) };
+    }
+    return { passed: true, message: actual };
+}
+
+function normalizeCode(code: string): string {
+    return code.replace(/\s+/g, "");
+}
@@ -0,0 +1,88 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+import { IXmlElement } from "./IXmlElement";
+import { IXmlProblem } from "./IXmlProblem";
+import { getPolicyDefinition, PolicyScope, PolicySection, policySections } from "./policyCatalog";
+import { PolicyXmlParser } from "./PolicyXmlParser";
+
+/**
+ * Checks a policy document before it is uploaded: well-formed XML, the four sections, known policy names
+ * and the sections and scopes where each policy can be used. Scope rules are skipped when the scope is unknown.
+ */
+export class PolicyValidator {
+    constructor(private readonly scope?: PolicyScope) {
+    }
+
+    public validate(text: string): IXmlProblem[] {
+        const document = PolicyXmlParser.parse(text);
+        const problems = document.problems.slice();
+        const root = document.root;
+        if (!root) {
+            return problems;
+        }
+
+        if (root.name !== "policies") {
+            problems.push(this.problemAt(root, localize("rootNotPolicies", `The root element must be <policies>, not <${root.name}>.`)));
+            return problems;
+        }
+
+        const found: string[] = [];
+        for (const section of root.children) {
+            if (policySections.indexOf(<PolicySection>section.name) === -1) {
+                problems.push(this.problemAt(section, localize("unknownSection", `<${section.name}> is not a policy section. Expected <inbound>, <backend>, <outbound> or <on-error>.`)));
+            } else if (found.indexOf(section.name) !== -1) {
+                problems.push(this.problemAt(section, localize("duplicateSection", `Section <${section.name}> appears more than once.`)));
+            } else {
+                found.push(section.name);
+                this.validatePolicies(section.children, <PolicySection>section.name, problems);
+            }
+        }
+
+        for (const section of policySections) {
+            if (found.indexOf(section) === -1) {
+                problems.push(this.problemAt(root, localize("missingSection", `Section <${section}> is missing.`)));
+            }
+        }
+
+        return problems;
+    }
+
+    private validatePolicies(policies: IXmlElement[], section: PolicySection, problems: IXmlProblem[]): void {
+        for (const policy of policies) {
+            const definition = getPolicyDefinition(policy.name);
+            if (!definition) {
+                problems.push(this.problemAt(policy, localize("unknownPolicy", `Unknown policy <${policy.name}>.`), "warning"));
+                continue;
+            }
+
+            if (definition.sections.indexOf(section) === -1) {
+                problems.push(this.problemAt(policy, localize("policyNotAllowedInSection", `Policy <${policy.name}> can't be used in the ${section} section. It can be used in: ${definition.sections.join(", ")}.`)));
+            }
+            if (this.scope !== undefined && definition.scopes.indexOf(this.scope) === -1) {
+                problems.push(this.problemAt(policy, localize("policyNotAllowedInScope", `Policy <${policy.name}> can't be used at the ${this.scope} scope. It can be used at: ${definition.scopes.join(", ")}.`)));
+            }
+
+            if (definition.containsPolicies) {
+                this.validatePolicies(policy.children, section, problems);
+            } else if (definition.policyBlocks) {
+                const blocks = definition.policyBlocks;
+                for (const block of policy.children) {
+                    if (blocks.indexOf(block.name) === -1) {
+                        problems.push(this.problemAt(block, localize("unexpectedPolicyBlock", `<${block.name}> can't be used in <${policy.name}>. Expected ${blocks.map(b => `<${b}>`).join(" or ")}.`)));
+                    } else {
+                        this.validatePolicies(block.children, section, problems);
+                    }
+                }
+            }
+        }
+    }
+
+    // Problems point at the name in the start tag of the element.
+    private problemAt(element: IXmlElement, message: string, severity: "error" | "warning" = "error"): IXmlProblem {
+        return { message, severity, start: element.start + 1, end: element.start + 1 + element.name.length };
+    }
+}
@@ -0,0 +1,301 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+import { IXmlAttribute, IXmlDocument, IXmlElement } from "./IXmlElement";
+import { IXmlProblem } from "./IXmlProblem";
+
+const nameCharacter = /[A-Za-z0-9_\-.:]/;
+const charLiteral = /^'(?:\\.[^']*|[^'\\])'/;
+
+/**
+ * A tolerant XML parser for policy documents. Policies are stored in the raw XML format, where policy expressions
+ * such as @(context.Request.Headers.GetValueOrDefault("x")) may contain quotes and angle brackets, so expressions are skipped as a whole.
+ * Parsing carries on after a problem to report as many of them as possible.
+ */
+export class PolicyXmlParser {
+    private position: number = 0;
+    private readonly problems: IXmlProblem[] = [];
+    private readonly expressions: { start: number, end: number }[] = [];
+
+    private constructor(private readonly text: string) {
+    }
+
+    public static parse(text: string): IXmlDocument {
+        return new PolicyXmlParser(text).parseDocument();
+    }
+
+    private parseDocument(): IXmlDocument {
+        const stack: IXmlElement[] = [];
+        let root: IXmlElement | undefined;
+
+        while (this.position < this.text.length) {
+            if (this.startsWith("<!--")) {
+                this.skipPast("-->", localize("commentNotClosed", "Comment is not closed."));
+            } else if (this.startsWith("<![CDATA[")) {
+                this.skipPast("]]>", localize("cdataNotClosed", "CDATA section is not closed."));
+            } else if (this.startsWith("<?")) {
+                this.skipPast("?>", localize("instructionNotClosed", "Processing instruction is not closed."));
+            } else if (this.startsWith("<!")) {
+                this.skipPast(">", localize("declarationNotClosed", "Declaration is not closed."));
+            } else if (this.startsWith("</")) {
+                this.parseEndTag(stack);
+            } else if (this.startsWith("<")) {
+                const element = this.parseStartTag(stack.length > 0 ? stack[stack.length - 1] : undefined);
+                if (element) {
+                    if (stack.length > 0) {
+                        stack[stack.length - 1].children.push(element);
+                    } else if (root) {
+                        this.addProblem(localize("multipleRoots", "Only one root element is allowed."), element.start, element.start + element.name.length + 1);
+                    } else {
+                        root = element;
+                    }
+                    if (!element.selfClosing) {
+                        stack.push(element);
+                    }
+                }
+            } else {
+                this.parseText(stack.length === 0);
+            }
+        }
+
+        while (stack.length > 0) {
+            this.closeUnclosed(<IXmlElement>stack.pop());
+        }
+
+        if (!root) {
+            this.addProblem(localize("noRootElement", "The document has no root element."), 0, 0);
+        }
+
+        return { root, problems: this.problems, expressions: this.expressions };
+    }
+
+    private parseStartTag(parent: IXmlElement | undefined): IXmlElement | undefined {
+        const start = this.position;
+        this.position++;
+        const name = this.readName();
+        if (!name) {
+            this.addProblem(localize("expectedElementName", "Expected an element name after '<'."), start, start + 1);
+            return undefined;
+        }
+
+        const element: IXmlElement = { name, attributes: [], children: [], parent, start, end: this.text.length, contentStart: this.text.length, contentEnd: this.text.length, selfClosing: false };
+        let closed = false;
+        while (!closed && this.position < this.text.length) {
+            this.skipWhitespace();
+            if (this.startsWith("/>")) {
+                this.position += 2;
+                element.selfClosing = true;
+                closed = true;
+            } else if (this.startsWith(">")) {
+                this.position++;
+                closed = true;
+            } else if (this.startsWith("<")) {
+                break;
+            } else {
+                const attribute = this.parseAttribute(name);
+                if (attribute) {
+                    if (element.attributes.some(a => a.name === attribute.name)) {
+                        this.addProblem(localize("duplicateAttribute", `Attribute '${attribute.name}' is duplicated.`), attribute.start, attribute.start + attribute.name.length);
+                    }
+                    element.attributes.push(attribute);
+                }
+            }
+        }
+
+        if (!closed) {
+            this.addProblem(localize("startTagNotClosed", `Start tag <${name}> is not closed.`), start, start + name.length + 1);
+        }
+        element.contentStart = this.position;
+        if (element.selfClosing) {
+            element.end = this.position;
+            element.contentEnd = this.position;
+        }
+        return element;
+    }
+
+    private parseAttribute(elementName: string): IXmlAttribute | undefined {
+        const start = this.position;
+        const name = this.readName();
+        if (!name) {
+            this.addProblem(localize("unexpectedCharacter", `Unexpected character '${this.text[this.position]}' in start tag <${elementName}>.`), start, start + 1);
+            this.position++;
+            return undefined;
+        }
+
+        this.skipWhitespace();
+        if (!this.startsWith("=")) {
+            this.addProblem(localize("attributeWithoutValue", `Attribute '${name}' has no value.`), start, this.position);
+            return undefined;
+        }
+        this.position++;
+        this.skipWhitespace();
+
+        const quote = this.text[this.position];
+        if (quote !== '"' && quote !== "'") {
+            this.addProblem(localize("attributeNotQuoted", `Value of attribute '${name}' must be in quotes.`), start, start + name.length);
+            return undefined;
+        }
+        this.position++;
+
+        const valueStart = this.position;
+        while (this.position < this.text.length && this.text[this.position] !== quote) {
+            if (this.isExpressionStart()) {
+                this.skipExpression();
+            } else if (this.text[this.position] === "<") {
+                this.addProblem(localize("attributeNotClosed", `Value of attribute '${name}' is not closed.`), start, start + name.length);
+                return { name, value: this.text.substring(valueStart, this.position), quote, start, end: this.position };
+            } else {
+                this.position++;
+            }
+        }
+
+        const value = this.text.substring(valueStart, this.position);
+        if (this.position >= this.text.length) {
+            this.addProblem(localize("attributeNotClosed", `Value of attribute '${name}' is not closed.`), start, start + name.length);
+        } else {
+            this.position++;
+        }
+        return { name, value, quote, start, end: this.position };
+    }
+
+    private parseEndTag(stack: IXmlElement[]): void {
+        const start = this.position;
+        this.position += 2;
+        const name = this.readName();
+        this.skipWhitespace();
+        if (this.startsWith(">")) {
+            this.position++;
+        } else {
+            this.addProblem(localize("endTagNotClosed", `End tag </${name}> is not closed.`), start, this.position);
+        }
+
+        let index = stack.length - 1;
+        while (index >= 0 && stack[index].name !== name) {
+            index--;
+        }
+
+        if (index < 0) {
+            const message = stack.length > 0
+                ? localize("unexpectedEndTagExpected", `Unexpected end tag </${name}>. Expected </${stack[stack.length - 1].name}>.`)
+                : localize("unexpectedEndTag", `Unexpected end tag </${name}>.`);
+            this.addProblem(message, start, this.position);
+            return;
+        }
+
+        while (stack.length - 1 > index) {
+            this.closeUnclosed(<IXmlElement>stack.pop(), start);
+        }
+        const element = <IXmlElement>stack.pop();
+        element.contentEnd = start;
+        element.end = this.position;
+    }
+
+    private parseText(outsideRoot: boolean): void {
+        const start = this.position;
+        while (this.position < this.text.length && this.text[this.position] !== "<") {
+            if (this.isExpressionStart()) {
+                this.skipExpression();
+            } else {
+                this.position++;
+            }
+        }
+        if (outsideRoot && this.text.substring(start, this.position).trim()) {
+            this.addProblem(localize("textOutsideRoot", "Text is not allowed outside of the root element."), start, this.position);
+        }
+    }
+
+    private closeUnclosed(element: IXmlElement, end: number = this.text.length): void {
+        this.addProblem(localize("elementNotClosed", `Element <${element.name}> is not closed.`), element.start, element.start + element.name.length + 1);
+        element.contentEnd = end;
+        element.end = end;
+    }
+
+    private isExpressionStart(): boolean {
+        return this.startsWith("@(") || this.startsWith("@{");
+    }
+
+    /**
+     * Skips a policy expression, @(...) or @{...}, including the C# string and character literals in it.
+     */
+    private skipExpression(): void {
+        const start = this.position;
+        const open = this.text[this.position + 1];
+        const close = open === "(" ? ")" : "}";
+        let depth = 1;
+        this.position += 2;
+        while (depth > 0 && this.position < this.text.length) {
+            const c = this.text[this.position];
+            if (c === '"') {
+                this.skipString();
+            } else if (c === "'" && charLiteral.test(this.text.substr(this.position, 8))) {
+                this.position += (<RegExpExecArray>charLiteral.exec(this.text.substr(this.position, 8)))[0].length;
+            } else {
+                if (c === open) {
+                    depth++;
+                } else if (c === close) {
+                    depth--;
+                }
+                this.position++;
+            }
+        }
+        if (depth > 0) {
+            this.addProblem(localize("expressionNotClosed", "Policy expression is not closed."), start, start + 2);
+        }
+        this.expressions.push({ start, end: this.position });
+    }
+
+    private skipString(): void {
+        const verbatim = this.text[this.position - 1] === "@";
+        this.position++;
+        while (this.position < this.text.length) {
+            const c = this.text[this.position];
+            if (c === "\\" && !verbatim) {
+                this.position += 2;
+            } else if (c === '"' && verbatim && this.text[this.position + 1] === '"') {
+                this.position += 2;
+            } else if (c === '"') {
+                this.position++;
+                return;
+            } else if (c === "\n" && !verbatim) {
+                return;
+            } else {
+                this.position++;
+            }
+        }
+    }
+
+    private skipPast(terminator: string, message: string): void {
+        const end = this.text.indexOf(terminator, this.position);
+        if (end === -1) {
+            this.addProblem(message, this.position, this.position + 2);
+            this.position = this.text.length;
+        } else {
+            this.position = end + terminator.length;
+        }
+    }
+
+    private readName(): string {
+        const start = this.position;
+        while (this.position < this.text.length && nameCharacter.test(this.text[this.position])) {
+            this.position++;
+        }
+        return this.text.substring(start, this.position);
+    }
+
+    private skipWhitespace(): void {
+        while (this.position < this.text.length && /\s/.test(this.text[this.position])) {
+            this.position++;
+        }
+    }
+
+    private startsWith(value: string): boolean {
+        return this.text.substr(this.position, value.length) === value;
+    }
+
+    private addProblem(message: string, start: number, end: number): void {
+        this.problems.push({ message, severity: "error", start, end });
+    }
+}
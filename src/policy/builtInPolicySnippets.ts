@@ -0,0 +1,268 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IPolicySnippet } from "./IPolicySnippet";
+
+export const builtInPolicySnippets: IPolicySnippet[] = [
+    {
+        name: "authentication-basic",
+        description: "Authenticate with the backend using basic authentication",
+        parameters: [{ name: "username", prompt: "User name" }, { name: "password", prompt: "Password", defaultValue: "{{backend-password}}" }],
+        body: `<authentication-basic username="{{username}}" password="{{password}}" />`
+    },
+    {
+        name: "authentication-managed-identity",
+        description: "Authenticate with the backend using the managed identity of the service",
+        parameters: [{ name: "resource", prompt: "Resource (audience) of the token", defaultValue: "https://management.azure.com/" }],
+        body: `<authentication-managed-identity resource="{{resource}}" />`
+    },
+    {
+        name: "base",
+        description: "Run the policies of the enclosing scope",
+        body: "<base />"
+    },
+    {
+        name: "cache-lookup",
+        description: "Get responses from the cache",
+        parameters: [{ name: "vary-by-developer", prompt: "Vary by developer (true/false)", defaultValue: "false" }],
+        body: `<cache-lookup vary-by-developer="{{vary-by-developer}}" vary-by-developer-groups="false" downstream-caching-type="none" />`
+    },
+    {
+        name: "cache-store",
+        description: "Store responses in the cache",
+        parameters: [{ name: "duration", prompt: "Cache duration in seconds", defaultValue: "3600" }],
+        body: `<cache-store duration="{{duration}}" />`
+    },
+    {
+        name: "check-header",
+        description: "Require an HTTP header with one of the given values",
+        parameters: [{ name: "name", prompt: "Header name" }, { name: "value", prompt: "Allowed value" }],
+        body: [
+            `<check-header name="{{name}}" failed-check-httpcode="401" failed-check-error-message="Not authorized" ignore-case="true">`,
+            `    <value>{{value}}</value>`,
+            `</check-header>`
+        ]
+    },
+    {
+        name: "choose",
+        description: "Apply policies based on a condition",
+        parameters: [{ name: "condition", prompt: "Condition", defaultValue: `@(context.Request.Method == "GET")` }],
+        body: [
+            `<choose>`,
+            `    <when condition="{{condition}}">`,
+            `    </when>`,
+            `    <otherwise>`,
+            `    </otherwise>`,
+            `</choose>`
+        ]
+    },
+    {
+        name: "cors",
+        description: "Allow cross-origin calls from browsers",
+        parameters: [{ name: "origin", prompt: "Allowed origin", defaultValue: "*" }],
+        body: [
+            `<cors allow-credentials="false">`,
+            `    <allowed-origins>`,
+            `        <origin>{{origin}}</origin>`,
+            `    </allowed-origins>`,
+            `    <allowed-methods>`,
+            `        <method>GET</method>`,
+            `        <method>POST</method>`,
+            `    </allowed-methods>`,
+            `    <allowed-headers>`,
+            `        <header>*</header>`,
+            `    </allowed-headers>`,
+            `</cors>`
+        ]
+    },
+    {
+        name: "find-and-replace",
+        description: "Replace a string in the request or response body",
+        parameters: [{ name: "from", prompt: "String to find" }, { name: "to", prompt: "Replacement" }],
+        body: `<find-and-replace from="{{from}}" to="{{to}}" />`
+    },
+    {
+        name: "forward-request",
+        description: "Forward the request to the backend",
+        parameters: [{ name: "timeout", prompt: "Timeout in seconds", defaultValue: "60" }],
+        body: `<forward-request timeout="{{timeout}}" />`
+    },
+    {
+        name: "ip-filter",
+        description: "Allow calls only from an address range",
+        parameters: [{ name: "from", prompt: "First address", defaultValue: "10.0.0.0" }, { name: "to", prompt: "Last address", defaultValue: "10.0.0.255" }],
+        body: [
+            `<ip-filter action="allow">`,
+            `    <address-range from="{{from}}" to="{{to}}" />`,
+            `</ip-filter>`
+        ]
+    },
+    {
+        name: "json-to-xml",
+        description: "Convert the JSON body to XML",
+        body: `<json-to-xml apply="content-type-json" consider-accept-header="true" />`
+    },
+    {
+        name: "limit-concurrency",
+        description: "Limit the number of requests run at the same time",
+        parameters: [{ name: "key", prompt: "Key", defaultValue: "@(context.Request.IpAddress)" }, { name: "max-count", prompt: "Maximum number of concurrent requests", defaultValue: "10" }],
+        body: [
+            `<limit-concurrency key="{{key}}" max-count="{{max-count}}">`,
+            `    <forward-request />`,
+            `</limit-concurrency>`
+        ]
+    },
+    {
+        name: "log-to-eventhub",
+        description: "Send a message to an Event Hub logger",
+        parameters: [{ name: "logger-id", prompt: "Logger ID" }],
+        body: `<log-to-eventhub logger-id="{{logger-id}}">@(context.Request.Method + " " + context.Request.Url.Path)</log-to-eventhub>`
+    },
+    {
+        name: "mock-response",
+        description: "Return a response generated from the operation's samples",
+        parameters: [{ name: "status-code", prompt: "Status code", defaultValue: "200" }, { name: "content-type", prompt: "Content type", defaultValue: "application/json" }],
+        body: `<mock-response status-code="{{status-code}}" content-type="{{content-type}}" />`
+    },
+    {
+        name: "quota",
+        description: "Limit the number of calls per subscription over a period",
+        parameters: [{ name: "calls", prompt: "Number of calls", defaultValue: "10000" }, { name: "renewal-period", prompt: "Renewal period in seconds", defaultValue: "604800" }],
+        body: `<quota calls="{{calls}}" renewal-period="{{renewal-period}}" />`
+    },
+    {
+        name: "quota-by-key",
+        description: "Limit the number of calls per key over a period",
+        parameters: [{ name: "calls", prompt: "Number of calls", defaultValue: "10000" }, { name: "renewal-period", prompt: "Renewal period in seconds", defaultValue: "604800" }, { name: "counter-key", prompt: "Counter key", defaultValue: "@(context.Request.IpAddress)" }],
+        body: `<quota-by-key calls="{{calls}}" renewal-period="{{renewal-period}}" counter-key="{{counter-key}}" />`
+    },
+    {
+        name: "rate-limit",
+        description: "Limit the call rate per subscription",
+        parameters: [{ name: "calls", prompt: "Number of calls", defaultValue: "20" }, { name: "renewal-period", prompt: "Renewal period in seconds", defaultValue: "90" }],
+        body: `<rate-limit calls="{{calls}}" renewal-period="{{renewal-period}}" />`
+    },
+    {
+        name: "rate-limit-by-key",
+        description: "Limit the call rate per key",
+        parameters: [{ name: "calls", prompt: "Number of calls", defaultValue: "10" }, { name: "renewal-period", prompt: "Renewal period in seconds", defaultValue: "60" }, { name: "counter-key", prompt: "Counter key", defaultValue: "@(context.Request.IpAddress)" }],
+        body: `<rate-limit-by-key calls="{{calls}}" renewal-period="{{renewal-period}}" counter-key="{{counter-key}}" />`
+    },
+    {
+        name: "retry",
+        description: "Retry the policies in it while a condition is met",
+        parameters: [{ name: "condition", prompt: "Retry condition", defaultValue: "@(context.Response.StatusCode >= 500)" }, { name: "count", prompt: "Number of retries", defaultValue: "3" }],
+        body: [
+            `<retry condition="{{condition}}" count="{{count}}" interval="1" first-fast-retry="true">`,
+            `    <forward-request />`,
+            `</retry>`
+        ]
+    },
+    {
+        name: "return-response",
+        description: "Stop processing and return a response",
+        parameters: [{ name: "code", prompt: "Status code", defaultValue: "200" }, { name: "reason", prompt: "Reason", defaultValue: "OK" }],
+        body: [
+            `<return-response>`,
+            `    <set-status code="{{code}}" reason="{{reason}}" />`,
+            `</return-response>`
+        ]
+    },
+    {
+        name: "rewrite-uri",
+        description: "Change the URL sent to the backend",
+        parameters: [{ name: "template", prompt: "URL template", defaultValue: "/" }],
+        body: `<rewrite-uri template="{{template}}" copy-unmatched-params="true" />`
+    },
+    {
+        name: "send-request",
+        description: "Send a request to another service and keep the response in a variable",
+        parameters: [{ name: "response-variable-name", prompt: "Variable for the response", defaultValue: "response" }, { name: "url", prompt: "URL" }],
+        body: [
+            `<send-request mode="new" response-variable-name="{{response-variable-name}}" timeout="20" ignore-error="false">`,
+            `    <set-url>{{url}}</set-url>`,
+            `    <set-method>GET</set-method>`,
+            `</send-request>`
+        ]
+    },
+    {
+        name: "set-backend-service",
+        description: "Send the request to another backend",
+        parameters: [{ name: "base-url", prompt: "Base URL of the backend" }],
+        body: `<set-backend-service base-url="{{base-url}}" />`
+    },
+    {
+        name: "set-body",
+        description: "Set the body of the request or response",
+        parameters: [{ name: "body", prompt: "Body", defaultValue: `@(context.Request.Body.As<string>(preserveContent: true))` }],
+        body: `<set-body>{{body}}</set-body>`
+    },
+    {
+        name: "set-header",
+        description: "Add, replace or remove an HTTP header",
+        parameters: [{ name: "name", prompt: "Header name" }, { name: "exists-action", prompt: "Action when the header exists (override, skip, append, delete)", defaultValue: "override" }, { name: "value", prompt: "Value" }],
+        body: [
+            `<set-header name="{{name}}" exists-action="{{exists-action}}">`,
+            `    <value>{{value}}</value>`,
+            `</set-header>`
+        ]
+    },
+    {
+        name: "set-method",
+        description: "Change the HTTP method of the request",
+        parameters: [{ name: "method", prompt: "HTTP method", defaultValue: "POST" }],
+        body: `<set-method>{{method}}</set-method>`
+    },
+    {
+        name: "set-query-parameter",
+        description: "Add, replace or remove a query parameter",
+        parameters: [{ name: "name", prompt: "Query parameter name" }, { name: "exists-action", prompt: "Action when the parameter exists (override, skip, append, delete)", defaultValue: "override" }, { name: "value", prompt: "Value" }],
+        body: [
+            `<set-query-parameter name="{{name}}" exists-action="{{exists-action}}">`,
+            `    <value>{{value}}</value>`,
+            `</set-query-parameter>`
+        ]
+    },
+    {
+        name: "set-status",
+        description: "Set the status code of the response",
+        parameters: [{ name: "code", prompt: "Status code", defaultValue: "200" }, { name: "reason", prompt: "Reason", defaultValue: "OK" }],
+        body: `<set-status code="{{code}}" reason="{{reason}}" />`
+    },
+    {
+        name: "set-variable",
+        description: "Keep a value in a context variable",
+        parameters: [{ name: "name", prompt: "Variable name" }, { name: "value", prompt: "Value", defaultValue: `@(context.Request.Headers.GetValueOrDefault("x-request-id", ""))` }],
+        body: `<set-variable name="{{name}}" value="{{value}}" />`
+    },
+    {
+        name: "trace",
+        description: "Add a message to the request trace",
+        parameters: [{ name: "source", prompt: "Source", defaultValue: "policy" }, { name: "message", prompt: "Message" }],
+        body: [
+            `<trace source="{{source}}" severity="information">`,
+            `    <message>{{message}}</message>`,
+            `</trace>`
+        ]
+    },
+    {
+        name: "validate-jwt",
+        description: "Require a valid JWT in a header",
+        parameters: [{ name: "openid-config", prompt: "OpenID configuration URL", defaultValue: "https://login.microsoftonline.com/{tenant}/v2.0/.well-known/openid-configuration" }, { name: "audience", prompt: "Audience" }],
+        body: [
+            `<validate-jwt header-name="Authorization" failed-validation-httpcode="401" failed-validation-error-message="Unauthorized">`,
+            `    <openid-config url="{{openid-config}}" />`,
+            `    <audiences>`,
+            `        <audience>{{audience}}</audience>`,
+            `    </audiences>`,
+            `</validate-jwt>`
+        ]
+    },
+    {
+        name: "xml-to-json",
+        description: "Convert the XML body to JSON",
+        body: `<xml-to-json kind="direct" apply="always" consider-accept-header="false" />`
+    }
+];
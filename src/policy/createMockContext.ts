@@ -0,0 +1,214 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as url from "url";
+import { localize } from "../localize";
+import { createTimeSpan, ExpressionDictionary, ExpressionObject, ExpressionValue, fromJson, JsonToken } from "./expressionValues";
+import { IMockContext, IMockMessage, IMockRequest, IMockResponse, MockValues } from "./IMockContext";
+
+const defaultUrl = "https://contoso.azure-api.net/echo/resource";
+
+/**
+ * Creates the 'context' of policy expressions from a mock context, following the model in Context.cs.
+ */
+export function createMockContext(mock: IMockContext): ExpressionObject {
+    const request = valueOr<IMockRequest>(mock.request, {});
+    const response = valueOr<IMockResponse>(mock.response, {});
+    const requestUrl = createUrl(valueOr(request.url, defaultUrl), request.query);
+    const api = valueOr<NonNullable<IMockContext["api"]>>(mock.api, {});
+    const operation = valueOr<NonNullable<IMockContext["operation"]>>(mock.operation, {});
+    const deployment = valueOr<NonNullable<IMockContext["deployment"]>>(mock.deployment, {});
+    const method = valueOr(request.method, "GET").toUpperCase();
+
+    return new ExpressionObject(
+        "IProxyRequestContext",
+        {
+            RequestId: valueOr(mock.requestId, "00000000-0000-0000-0000-000000000000"),
+            Timestamp: mock.timestamp !== undefined ? new Date(mock.timestamp) : new Date(),
+            Elapsed: createTimeSpan(valueOr(mock.elapsed, 0)),
+            Request: createMessage("IRequest", request, {
+                Url: requestUrl,
+                OriginalUrl: requestUrl,
+                Method: method,
+                OriginalMethod: method,
+                IpAddress: valueOr(request.ipAddress, "127.0.0.1"),
+                MatchedParameters: createJsonDictionary(valueOr(request.matchedParameters, {})),
+                HasBody: request.body !== undefined && request.body !== null,
+                ClientCertificates: [],
+                Certificate: null
+            }),
+            Response: createMessage("IResponse", response, {
+                StatusCode: valueOr(response.statusCode, 200),
+                StatusReason: valueOr(response.statusReason, "OK")
+            }),
+            Api: new ExpressionObject("IApi", {
+                Id: valueOr(api.id, "echo-api"),
+                Name: valueOr(api.name, "Echo API"),
+                Path: valueOr(api.path, "echo"),
+                Version: valueOr(api.version, null),
+                Revision: valueOr(api.revision, "1"),
+                IsCurrentRevision: true,
+                ServiceUrl: createUrl(valueOr(api.serviceUrl, "https://echoapi.cloudapp.net/api")),
+                Protocols: ["https"]
+            }),
+            Operation: new ExpressionObject("IOperation", {
+                Id: valueOr(operation.id, "resource"),
+                Name: valueOr(operation.name, "Retrieve resource"),
+                Method: valueOr(operation.method, method),
+                UrlTemplate: valueOr(operation.urlTemplate, "/resource")
+            }),
+            Product: mock.product ? new ExpressionObject("IProduct", {
+                Id: valueOr(mock.product.id, "starter"),
+                Name: valueOr(mock.product.name, "Starter"),
+                SubscriptionRequired: true,
+                ApprovalRequired: false,
+                Groups: [],
+                Apis: []
+            }) : null,
+            Subscription: mock.subscription ? createSubscription(mock.subscription) : null,
+            User: mock.user ? createUser(mock.user) : null,
+            Deployment: new ExpressionObject("IDeployment", {
+                ServiceName: valueOr(deployment.serviceName, "contoso"),
+                Region: valueOr(deployment.region, "West US"),
+                Sku: valueOr(deployment.sku, "Developer"),
+                Units: 1
+            }),
+            LastError: mock.lastError ? createLastError(mock.lastError) : null,
+            Variables: createJsonDictionary(valueOr(mock.variables, {})),
+            Tracing: false
+        },
+        {
+            Trace: () => null
+        });
+}
+
+function createSubscription(subscription: NonNullable<IMockContext["subscription"]>): ExpressionObject {
+    return new ExpressionObject("ISubscription", {
+        Id: valueOr(subscription.id, "subscription"),
+        Name: valueOr(subscription.name, "Subscription"),
+        Key: valueOr(subscription.key, valueOr(subscription.primaryKey, null)),
+        PrimaryKey: valueOr(subscription.primaryKey, null),
+        SecondaryKey: valueOr(subscription.secondaryKey, null),
+        CreatedDate: new Date(0),
+        StartDate: null,
+        EndDate: null
+    });
+}
+
+function createUser(user: NonNullable<IMockContext["user"]>): ExpressionObject {
+    return new ExpressionObject("IUser", {
+        Id: valueOr(user.id, "user"),
+        Email: valueOr(user.email, null),
+        FirstName: valueOr(user.firstName, null),
+        LastName: valueOr(user.lastName, null),
+        Note: valueOr(user.note, null),
+        Groups: valueOr(user.groups, []).map(g => new ExpressionObject("IGroup", { Id: g, Name: g })),
+        Identities: [],
+        RegistrationDate: new Date(0)
+    });
+}
+
+function createLastError(lastError: NonNullable<IMockContext["lastError"]>): ExpressionObject {
+    return new ExpressionObject("ProxyError", {
+        Source: valueOr(lastError.source, null),
+        Reason: valueOr(lastError.reason, null),
+        Message: valueOr(lastError.message, null),
+        Scope: valueOr(lastError.scope, null),
+        Section: valueOr(lastError.section, null),
+        Path: valueOr(lastError.path, null),
+        PolicyId: valueOr(lastError.policyId, null)
+    });
+}
+
+function createMessage(typeName: string, message: IMockMessage, properties: { [name: string]: ExpressionValue }): ExpressionObject {
+    properties.Headers = createDictionary(message.headers ? message.headers : {});
+    properties.Body = message.body !== undefined && message.body !== null ? createBody(message.body) : null;
+    return new ExpressionObject(typeName, properties);
+}
+
+// Like in the gateway, reading the body without preserveContent leaves nothing for the expressions that read it later.
+function createBody(body: {}): ExpressionObject {
+    const text = typeof body === "string" ? body : JSON.stringify(body);
+    let consumed = false;
+    return new ExpressionObject("IMessageBody", {}, {
+        As: (args, typeArguments) => {
+            if (consumed) {
+                return null;
+            }
+            consumed = args[0] !== true;
+
+            const typeName = typeArguments.length > 0 ? typeArguments[0].replace(/^.*\./, "") : "string";
+            if (typeName === "string") {
+                return text;
+            } else if (typeName === "JObject" || typeName === "JArray" || typeName === "JToken") {
+                const value = parseJson(text);
+                if ((typeName === "JObject" && (typeof value !== "object" || Array.isArray(value))) || (typeName === "JArray" && !Array.isArray(value))) {
+                    throw new Error(localize("bodyNotJsonType", `The body isn't a ${typeName}.`));
+                }
+                return new JsonToken(value);
+            }
+            throw new Error(localize("bodyTypeNotSupported", `Reading the body as ${typeName} isn't supported by the local evaluator.`));
+        }
+    });
+}
+
+function parseJson(text: string): {} | null {
+    try {
+        // tslint:disable-next-line: no-unsafe-any
+        return JSON.parse(text);
+    } catch (error) {
+        throw new Error(localize("bodyNotJson", `The body isn't valid JSON: ${(<Error>error).message}`));
+    }
+}
+
+function createUrl(value: string, query?: MockValues): ExpressionObject {
+    const parsed = url.parse(value, true);
+    const queryValues: MockValues = {};
+    for (const name of Object.keys(parsed.query)) {
+        // tslint:disable-next-line: no-unsafe-any
+        queryValues[name] = parsed.query[name];
+    }
+    for (const name of Object.keys(query ? query : {})) {
+        queryValues[name] = (<MockValues>query)[name];
+    }
+    const queryDictionary = createDictionary(queryValues);
+    const queryString = queryDictionary.entries.map(e => (<string[]>e[1]).map(v => `${encodeURIComponent(e[0])}=${encodeURIComponent(v)}`).join("&")).join("&");
+    const scheme = parsed.protocol ? parsed.protocol.replace(":", "") : "https";
+    const port = parsed.port ? Number(parsed.port) : scheme === "http" ? 80 : 443;
+    const path = parsed.pathname ? parsed.pathname : "/";
+    const fullUrl = `${scheme}://${parsed.hostname}${parsed.port ? `:${parsed.port}` : ""}${path}${queryString ? `?${queryString}` : ""}`;
+
+    return new ExpressionObject(
+        "IUrl",
+        {
+            Scheme: scheme,
+            Host: parsed.hostname ? parsed.hostname : "",
+            Port: port,
+            Path: path,
+            Query: queryDictionary,
+            QueryString: queryString ? `?${queryString}` : ""
+        },
+        {
+            ToString: () => fullUrl,
+            ToUri: () => new ExpressionObject("Uri", { AbsoluteUri: fullUrl, Host: parsed.hostname ? parsed.hostname : "", AbsolutePath: path, Query: queryString ? `?${queryString}` : "" }, { ToString: () => fullUrl })
+        });
+}
+
+function createJsonDictionary(values: { [name: string]: {} | null | undefined }): ExpressionDictionary {
+    return new ExpressionDictionary(Object.keys(values).map((name): [string, ExpressionValue] => [name, fromJson(values[name])]));
+}
+
+function createDictionary(values: MockValues): ExpressionDictionary {
+    return new ExpressionDictionary(
+        Object.keys(values).filter(name => values[name] !== undefined).map((name): [string, ExpressionValue] => {
+            const value = <string | string[]>values[name];
+            return [name, Array.isArray(value) ? value : [value]];
+        }),
+        true);
+}
+
+function valueOr<T>(value: T | undefined, defaultValue: T): T {
+    return value !== undefined ? value : defaultValue;
+}
@@ -0,0 +1,639 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as crypto from "crypto";
+import { localize } from "../localize";
+import { createTimeSpan, ExpressionDictionary, ExpressionLambda, ExpressionMethod, ExpressionObject, ExpressionValue, formatDate, fromJson, getTimeSpan, IExpressionArray, JsonToken, toCSharpString } from "./expressionValues";
+
+type Method<T> = (target: T, args: ExpressionValue[], typeArguments: string[]) => ExpressionValue;
+
+const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const typeAliases: { [alias: string]: string | undefined } = { String: "string", Int32: "int", Int64: "long", Double: "double", Boolean: "bool", Object: "object", Single: "float", Decimal: "decimal" };
+
+const stringMethods: { [name: string]: Method<string> | undefined } = {
+    get_Item: (value, args) => getElement(value.split(""), toInteger(args[0])),
+    Contains: (value, args) => compareText(value, args, (text, search) => text.indexOf(search) !== -1),
+    StartsWith: (value, args) => compareText(value, args, (text, search) => text.startsWith(search)),
+    EndsWith: (value, args) => compareText(value, args, (text, search) => text.endsWith(search)),
+    Equals: (value, args) => typeof args[0] === "string" && compareText(value, args, (text, search) => text === search),
+    IndexOf: (value, args) => {
+        const start = args[1];
+        return compareText(value, args, (text, search) => text.indexOf(search, typeof start === "number" ? start : 0));
+    },
+    LastIndexOf: (value, args) => compareText(value, args, (text, search) => text.lastIndexOf(search)),
+    Substring: (value, args) => {
+        const start = toInteger(args[0]);
+        const length = args.length > 1 ? toInteger(args[1]) : value.length - start;
+        if (start < 0 || length < 0 || start + length > value.length) {
+            throw new Error(localize("outOfRange", "Index and length must refer to a location within the string."));
+        }
+        return value.substr(start, length);
+    },
+    Replace: (value, args) => value.split(toText(args[0])).join(args[1] === null ? "" : toText(args[1])),
+    ToLower: value => value.toLowerCase(),
+    ToLowerInvariant: value => value.toLowerCase(),
+    ToUpper: value => value.toUpperCase(),
+    ToUpperInvariant: value => value.toUpperCase(),
+    Trim: (value, args) => trim(value, args, true, true),
+    TrimStart: (value, args) => trim(value, args, true, false),
+    TrimEnd: (value, args) => trim(value, args, false, true),
+    PadLeft: (value, args) => getPadding(value, args) + value,
+    PadRight: (value, args) => value + getPadding(value, args),
+    Split: split,
+    AsJwt: parseJwt,
+    AsBasic: parseBasic
+};
+
+const dateMethods: { [name: string]: Method<Date> | undefined } = {
+    AddMilliseconds: (date, args) => new Date(date.getTime() + toNumber(args[0])),
+    AddSeconds: (date, args) => new Date(date.getTime() + toNumber(args[0]) * 1000),
+    AddMinutes: (date, args) => new Date(date.getTime() + toNumber(args[0]) * 60000),
+    AddHours: (date, args) => new Date(date.getTime() + toNumber(args[0]) * 3600000),
+    AddDays: (date, args) => new Date(date.getTime() + toNumber(args[0]) * 86400000),
+    Add: (date, args) => new Date(date.getTime() + toNumber(getTimeSpan(args[0]))),
+    Subtract: (date, args) => {
+        const timeSpan = getTimeSpan(args[0]);
+        return timeSpan !== undefined ? new Date(date.getTime() - timeSpan) : createTimeSpan(date.getTime() - toDate(args[0]).getTime());
+    },
+    ToString: (date, args) => args.length > 0 ? formatDate(date, toText(args[0])) : toCSharpString(date),
+    ToUniversalTime: date => date,
+    ToLocalTime: date => date
+};
+
+const dictionaryMethods: { [name: string]: Method<ExpressionDictionary> | undefined } = {
+    get_Item: (dictionary, args) => {
+        const value = dictionary.getValue(toText(args[0]));
+        if (value === undefined) {
+            throw new Error(localize("keyNotFound", `The given key '${toText(args[0])}' was not present in the dictionary.`));
+        }
+        return value;
+    },
+    ContainsKey: (dictionary, args) => dictionary.getValue(toText(args[0])) !== undefined,
+    GetValueOrDefault: (dictionary, args, typeArguments) => {
+        const value = dictionary.getValue(toText(args[0]));
+        if (value === undefined) {
+            return args.length > 1 ? args[1] : null;
+        } else if (dictionary.multiValue && typeArguments.length === 0) {
+            // Headers with several values are read as one comma separated value.
+            return (<string[]>value).join(",");
+        }
+        return typeArguments.length > 0 ? convert(value, typeArguments[0]) : value;
+    },
+    TryGetValue: () => {
+        throw new Error(localize("outNotSupported", "Methods with 'out' parameters aren't supported by the local evaluator, use GetValueOrDefault instead."));
+    }
+};
+
+const jsonMethods: { [name: string]: Method<JsonToken> | undefined } = {
+    get_Item: (token, args) => getJsonChild(token, args[0]),
+    GetValue: (token, args) => getJsonChild(token, args[0]),
+    Value: (token, args, typeArguments) => {
+        const child = args.length > 0 ? getJsonChild(token, args[0]) : token;
+        return child === null ? null : convert(child, typeArguments.length > 0 ? typeArguments[0] : "object");
+    },
+    ToObject: (token, _args, typeArguments) => convert(token, typeArguments.length > 0 ? typeArguments[0] : "object"),
+    // Any argument is taken as Formatting.None.
+    ToString: (token, args) => args.length > 0 && typeof token.value === "object" ? JSON.stringify(token.value) : toCSharpString(token),
+    SelectToken: (token, args) => selectToken(token.value, toText(args[0])),
+    ContainsKey: (token, args) => getJsonProperties(token).some(p => p.properties.Name === args[0]),
+    Properties: getJsonProperties
+};
+
+const enumerableMethods: { [name: string]: Method<IExpressionArray> | undefined } = {
+    Any: (items, args) => items.some(item => matches(item, args)),
+    All: (items, args) => items.every(item => matches(item, args)),
+    Count: (items, args) => items.filter(item => matches(item, args)).length,
+    Contains: (items, args) => items.some(item => item === args[0]),
+    First: (items, args) => single(items.filter(item => matches(item, args)), "First"),
+    FirstOrDefault: (items, args) => single(items.filter(item => matches(item, args)), "FirstOrDefault"),
+    Last: (items, args) => single(items.filter(item => matches(item, args)), "Last"),
+    LastOrDefault: (items, args) => single(items.filter(item => matches(item, args)), "LastOrDefault"),
+    Single: (items, args) => single(items.filter(item => matches(item, args)), "Single"),
+    SingleOrDefault: (items, args) => single(items.filter(item => matches(item, args)), "SingleOrDefault"),
+    ElementAt: (items, args) => getElement(items, toInteger(args[0])),
+    Where: (items, args) => items.filter(item => matches(item, args)),
+    Select: (items, args) => items.map(item => select(item, args)),
+    OrderBy: (items, args) => items.slice().sort((a, b) => compareValues(select(a, args), select(b, args))),
+    OrderByDescending: (items, args) => items.slice().sort((a, b) => compareValues(select(b, args), select(a, args))),
+    Skip: (items, args) => items.slice(toInteger(args[0])),
+    Take: (items, args) => items.slice(0, toInteger(args[0])),
+    Distinct: items => items.filter((item, i) => items.indexOf(item) === i),
+    Concat: (items, args) => {
+        const others = toEnumerable(args[0]);
+        return others ? items.concat(others) : items;
+    },
+    Sum: (items, args) => items.map(item => toNumber(select(item, args))).reduce((a, b) => a + b, 0),
+    Max: (items, args) => Math.max(...items.map(item => toNumber(select(item, args)))),
+    Min: (items, args) => Math.min(...items.map(item => toNumber(select(item, args)))),
+    ToArray: items => items.slice(),
+    ToList: items => items.slice(),
+    AsEnumerable: items => items.slice()
+};
+
+const typeTests: { [typeName: string]: ((value: ExpressionValue) => boolean) | undefined } = {
+    object: value => value !== null,
+    string: value => typeof value === "string",
+    int: value => typeof value === "number" && Math.trunc(value) === value,
+    long: value => typeof value === "number" && Math.trunc(value) === value,
+    double: value => typeof value === "number",
+    float: value => typeof value === "number",
+    decimal: value => typeof value === "number",
+    bool: value => typeof value === "boolean",
+    DateTime: value => value instanceof Date,
+    JToken: value => value instanceof JsonToken,
+    JObject: value => value instanceof JsonToken && value.value !== null && typeof value.value === "object" && !Array.isArray(value.value),
+    JArray: value => value instanceof JsonToken && Array.isArray(value.value),
+    JValue: value => value instanceof JsonToken && (value.value === null || typeof value.value !== "object")
+};
+
+export function nullReference(): Error {
+    return new Error(localize("nullReference", "Object reference not set to an instance of an object."));
+}
+
+/**
+ * Returns the value of a property, e.g. the Length of a string.
+ */
+export function getProperty(target: ExpressionValue, name: string): ExpressionValue {
+    if (target === null) {
+        throw nullReference();
+    }
+
+    let value: ExpressionValue | undefined;
+    if (target instanceof ExpressionObject) {
+        value = getOwnValue(target.properties, name);
+    } else if (typeof target === "string" && name === "Length") {
+        value = target.length;
+    } else if (Array.isArray(target) && (name === "Length" || name === "Count")) {
+        value = target.length;
+    } else if (target instanceof ExpressionDictionary) {
+        value = name === "Count" ? target.entries.length : name === "Keys" ? target.entries.map(e => e[0]) : name === "Values" ? target.entries.map(e => e[1]) : undefined;
+    } else if (target instanceof JsonToken && name === "Count") {
+        const items = toEnumerable(target);
+        value = items ? items.length : undefined;
+    } else if (target instanceof Date) {
+        value = getDateProperty(target, name);
+    }
+
+    if (value === undefined) {
+        throw unknownMember(target, name);
+    }
+    return value;
+}
+
+/**
+ * Calls a method. Indexers are called as get_Item, like in .NET.
+ */
+export function callMethod(target: ExpressionValue, name: string, typeArguments: string[], args: ExpressionValue[]): ExpressionValue {
+    if (target === null) {
+        throw nullReference();
+    }
+
+    const method = findMethod(target, name);
+    if (method) {
+        return method(args, typeArguments);
+    } else if (name === "ToString") {
+        return toCSharpString(target);
+    } else if (name === "Equals") {
+        return target === args[0] || (target instanceof Date && args[0] instanceof Date && target.getTime() === (<Date>args[0]).getTime());
+    }
+
+    const items = toEnumerable(target);
+    const enumerableMethod = getOwnValue(enumerableMethods, name === "get_Item" ? "ElementAt" : name);
+    if (items && enumerableMethod && (name !== "get_Item" || Array.isArray(target))) {
+        return enumerableMethod(items, args, typeArguments);
+    }
+    throw unknownMember(target, name === "get_Item" ? "this[]" : `${name}()`);
+}
+
+// Members and JSON properties are looked up among own names only, so that names like constructor don't find the members of Object.
+function getOwnValue<T>(values: { [name: string]: T | undefined }, name: string): T | undefined {
+    return Object.prototype.hasOwnProperty.call(values, name) ? values[name] : undefined;
+}
+
+function findMethod(target: ExpressionValue, name: string): ExpressionMethod | undefined {
+    if (target instanceof ExpressionObject) {
+        return getOwnValue(target.methods, name);
+    }
+
+    let method: Method<ExpressionValue> | undefined;
+    if (typeof target === "string") {
+        method = <Method<ExpressionValue> | undefined>getOwnValue(stringMethods, name);
+    } else if (target instanceof Date) {
+        method = <Method<ExpressionValue> | undefined>getOwnValue(dateMethods, name);
+    } else if (target instanceof ExpressionDictionary) {
+        method = <Method<ExpressionValue> | undefined>getOwnValue(dictionaryMethods, name);
+    } else if (target instanceof JsonToken) {
+        method = <Method<ExpressionValue> | undefined>getOwnValue(jsonMethods, name);
+    }
+    return method ? (args, typeArguments) => (<Method<ExpressionValue>>method)(target, args, typeArguments) : undefined;
+}
+
+/**
+ * Converts a value for a cast or a generic method like GetValueOrDefault<T>. JSON values are converted like Newtonsoft.Json does.
+ */
+export function convert(value: ExpressionValue, typeName: string): ExpressionValue {
+    const targetType = normalizeTypeName(typeName);
+    if (value === null || targetType === "object" || isOfType(value, targetType)) {
+        return value;
+    } else if (typeof value === "number" && (targetType === "int" || targetType === "long")) {
+        return Math.trunc(value);
+    }
+
+    if (value instanceof JsonToken && (value.value === null || typeof value.value !== "object")) {
+        const primitive = <string | number | boolean | null>value.value;
+        if (primitive === null) {
+            return null;
+        }
+        switch (targetType) {
+            case "string":
+                return typeof primitive === "boolean" ? toCSharpString(primitive) : String(primitive);
+            case "int":
+            case "long":
+                return Math.trunc(Number(primitive));
+            case "double":
+            case "float":
+            case "decimal":
+                return Number(primitive);
+            case "bool":
+                return typeof primitive === "string" ? primitive.toLowerCase() === "true" : Boolean(primitive);
+            case "DateTime":
+                return new Date(String(primitive));
+            default:
+        }
+    }
+    throw new Error(localize("invalidCast", `Unable to cast object of type '${getTypeName(value)}' to type '${typeName}'.`));
+}
+
+export function isOfType(value: ExpressionValue, typeName: string): boolean {
+    const targetType = normalizeTypeName(typeName);
+    const test = typeTests[targetType];
+    if (test) {
+        return test(value);
+    } else if (targetType.endsWith("[]") || /^(IEnumerable|List|IList|ICollection|IReadOnlyCollection)</.test(targetType)) {
+        return Array.isArray(value);
+    }
+    return value instanceof ExpressionObject && value.typeName === targetType;
+}
+
+/**
+ * The static members of .NET types that policy expressions use, e.g. DateTime.UtcNow and String.IsNullOrEmpty.
+ */
+export function getStaticTypes(now: Date): { [name: string]: ExpressionObject | undefined } {
+    const stringType = new ExpressionObject("String", { Empty: "" }, {
+        IsNullOrEmpty: args => args[0] === null || args[0] === "",
+        IsNullOrWhiteSpace: args => args[0] === null || toText(args[0]).trim() === "",
+        Join: args => flatten(args.slice(1)).map(toCSharpString).join(toText(args[0])),
+        Concat: args => flatten(args).map(toCSharpString).join(""),
+        Format: args => toText(args[0]).replace(/\{(\d+)(?:[,:][^}]*)?\}/g, (_match: string, index: string) => toCSharpString(flatten(args.slice(1))[Number(index)])),
+        Equals: args => args[0] === args[1]
+    });
+    const parse = (targetType: string): ExpressionMethod => args => convert(new JsonToken(toText(args[0])), targetType);
+    const numberType = new ExpressionObject("Int32", {}, { Parse: parse("int") });
+    const jsonType = (typeName: string, empty: {}) => new ExpressionObject(typeName, {}, { Parse: args => parseJson(toText(args[0])), new: () => new JsonToken(empty) });
+    const fromUnit = (unit: number): ExpressionMethod => args => createTimeSpan(toNumber(args[0]) * unit);
+    const encoding = new ExpressionObject("Encoding", {}, {
+        GetBytes: args => Array.from(Buffer.from(toText(args[0]), "utf8")),
+        GetString: args => Buffer.from(<number[]>flatten(args)).toString("utf8")
+    });
+
+    return {
+        string: stringType,
+        String: stringType,
+        int: numberType,
+        Int32: numberType,
+        long: numberType,
+        Int64: numberType,
+        double: new ExpressionObject("Double", {}, { Parse: parse("double") }),
+        bool: new ExpressionObject("Boolean", {}, { Parse: parse("bool") }),
+        DateTime: new ExpressionObject("DateTime", { UtcNow: now, Now: now, Today: <Date>getDateProperty(now, "Date"), MinValue: new Date(Date.UTC(1, 0, 1)) }, { Parse: parse("DateTime") }),
+        TimeSpan: new ExpressionObject("TimeSpan", { Zero: createTimeSpan(0) }, {
+            FromMilliseconds: fromUnit(1),
+            FromSeconds: fromUnit(1000),
+            FromMinutes: fromUnit(60000),
+            FromHours: fromUnit(3600000),
+            FromDays: fromUnit(86400000)
+        }),
+        Guid: new ExpressionObject("Guid", { Empty: "00000000-0000-0000-0000-000000000000" }, { NewGuid: newGuid }),
+        Math: new ExpressionObject("Math", {}, {
+            Max: args => Math.max(toNumber(args[0]), toNumber(args[1])),
+            Min: args => Math.min(toNumber(args[0]), toNumber(args[1])),
+            Abs: args => Math.abs(toNumber(args[0])),
+            Floor: args => Math.floor(toNumber(args[0])),
+            Ceiling: args => Math.ceil(toNumber(args[0])),
+            Round: args => {
+                const scale = Math.pow(10, args.length > 1 ? toNumber(args[1]) : 0);
+                return Math.round(toNumber(args[0]) * scale) / scale;
+            }
+        }),
+        Convert: new ExpressionObject("Convert", {}, {
+            ToString: args => toCSharpString(args[0]),
+            ToInt32: args => typeof args[0] === "string" ? parse("int")(args, []) : Math.round(toNumber(args[0])),
+            ToInt64: args => typeof args[0] === "string" ? parse("int")(args, []) : Math.round(toNumber(args[0])),
+            ToDouble: args => typeof args[0] === "string" ? parse("double")(args, []) : toNumber(args[0]),
+            ToBoolean: args => typeof args[0] === "string" ? parse("bool")(args, []) : args[0] === true,
+            ToBase64String: args => Buffer.from(<number[]>flatten(args)).toString("base64"),
+            FromBase64String: args => Array.from(Buffer.from(toText(args[0]), "base64"))
+        }),
+        Encoding: new ExpressionObject("Encoding", { UTF8: encoding, ASCII: encoding, Unicode: encoding }),
+        Uri: new ExpressionObject("Uri", {}, {
+            EscapeDataString: args => encodeURIComponent(toText(args[0])),
+            UnescapeDataString: args => decodeURIComponent(toText(args[0]))
+        }),
+        StringComparison: new ExpressionObject("StringComparison", { Ordinal: "Ordinal", OrdinalIgnoreCase: "OrdinalIgnoreCase", InvariantCultureIgnoreCase: "InvariantCultureIgnoreCase", CurrentCultureIgnoreCase: "CurrentCultureIgnoreCase" }),
+        StringSplitOptions: new ExpressionObject("StringSplitOptions", { None: "None", RemoveEmptyEntries: "RemoveEmptyEntries" }),
+        JObject: jsonType("JObject", {}),
+        JArray: jsonType("JArray", []),
+        JToken: jsonType("JToken", {})
+    };
+}
+
+function unknownMember(target: ExpressionValue, name: string): Error {
+    return new Error(localize("unknownMember", `'${getTypeName(target)}' doesn't have a member '${name}' that the local evaluator supports.`));
+}
+
+function getDateProperty(date: Date, name: string): ExpressionValue | undefined {
+    switch (name) {
+        case "Year":
+            return date.getUTCFullYear();
+        case "Month":
+            return date.getUTCMonth() + 1;
+        case "Day":
+            return date.getUTCDate();
+        case "Hour":
+            return date.getUTCHours();
+        case "Minute":
+            return date.getUTCMinutes();
+        case "Second":
+            return date.getUTCSeconds();
+        case "Millisecond":
+            return date.getUTCMilliseconds();
+        case "DayOfWeek":
+            return dayNames[date.getUTCDay()];
+        case "Date":
+            return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+        default:
+            return undefined;
+    }
+}
+
+// Compares the string with the first argument, ignoring the case when a StringComparison argument asks for it.
+function compareText<T>(value: string, args: ExpressionValue[], comparison: (text: string, search: string) => T): T {
+    const ignoreCase = args.slice(1).some(arg => typeof arg === "string" && /IgnoreCase$/.test(arg));
+    const search = toText(args[0]);
+    return ignoreCase ? comparison(value.toLowerCase(), search.toLowerCase()) : comparison(value, search);
+}
+
+function trim(value: string, args: ExpressionValue[], trimStart: boolean, trimEnd: boolean): string {
+    const characters = args.length > 0 ? flatten(args).map(toText).join("") : " \t\r\n";
+    let start = 0;
+    let end = value.length;
+    while (trimStart && start < end && characters.indexOf(value[start]) !== -1) {
+        start++;
+    }
+    while (trimEnd && end > start && characters.indexOf(value[end - 1]) !== -1) {
+        end--;
+    }
+    return value.substring(start, end);
+}
+
+function getPadding(value: string, args: ExpressionValue[]): string {
+    let padding = "";
+    while (padding.length + value.length < toInteger(args[0])) {
+        padding += args.length > 1 ? toText(args[1]) : " ";
+    }
+    return padding;
+}
+
+function split(value: string, args: ExpressionValue[]): string[] {
+    const removeEmpty = args.indexOf("RemoveEmptyEntries") !== -1;
+    const separators = flatten(args.filter(arg => arg !== "RemoveEmptyEntries" && arg !== "None")).map(toText);
+    let parts = [value];
+    for (const separator of separators.length > 0 ? separators : [" "]) {
+        parts = parts.reduce((result: string[], part) => result.concat(part.split(separator)), []);
+    }
+    return removeEmpty ? parts.filter(p => p !== "") : parts;
+}
+
+function getJsonChild(token: JsonToken, key: ExpressionValue): ExpressionValue {
+    const value = token.value;
+    if (value === null || typeof value !== "object") {
+        throw new Error(localize("notJsonContainer", "Cannot access child value on a JValue."));
+    }
+    const child = Array.isArray(value) ? (<{}[]>value)[toInteger(key)] : getOwnValue(<{ [name: string]: {} | undefined }>value, toText(key));
+    return child !== undefined ? new JsonToken(child) : null;
+}
+
+function getJsonProperties(token: JsonToken): ExpressionObject[] {
+    const value = token.value;
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        return [];
+    }
+    return Object.keys(value).map(key => new ExpressionObject("JProperty", { Name: key, Value: new JsonToken((<{ [name: string]: {} }>value)[key]) }));
+}
+
+// Supports the common paths of SelectToken, e.g. "$.items[0].name".
+function selectToken(value: {} | null, path: string): ExpressionValue {
+    let current: {} | null | undefined = value;
+    const segments = path.replace(/^\$\.?/, "").split(/\.|\[|\]/).filter(s => s !== "");
+    for (const segment of segments) {
+        if (current === null || current === undefined || typeof current !== "object") {
+            return null;
+        }
+        const key = segment.replace(/^'(.*)'$/, "$1");
+        current = Array.isArray(current) ? (<{}[]>current)[Number(key)] : getOwnValue(<{ [name: string]: {} | undefined }>current, key);
+    }
+    return current !== undefined ? new JsonToken(current) : null;
+}
+
+function parseJson(text: string): ExpressionValue {
+    try {
+        // tslint:disable-next-line: no-unsafe-any
+        return new JsonToken(JSON.parse(text));
+    } catch (error) {
+        throw new Error(localize("invalidJson", `The text isn't valid JSON: ${(<Error>error).message}`));
+    }
+}
+
+// Returns the items of a collection. Dictionaries give their key value pairs and JSON objects their properties.
+function toEnumerable(value: ExpressionValue | undefined): IExpressionArray | undefined {
+    if (Array.isArray(value)) {
+        return value;
+    } else if (typeof value === "string") {
+        return value.split("");
+    } else if (value instanceof ExpressionDictionary) {
+        return value.entries.map(e => new ExpressionObject("KeyValuePair", { Key: e[0], Value: e[1] }));
+    } else if (value instanceof JsonToken && value.value !== null && typeof value.value === "object") {
+        return Array.isArray(value.value) ? value.value.map((item: {} | null) => new JsonToken(item)) : getJsonProperties(value);
+    }
+    return undefined;
+}
+
+// The predicate of LINQ methods like Any and Where is optional.
+function matches(item: ExpressionValue, args: ExpressionValue[]): boolean {
+    const predicate = args[0];
+    if (typeof predicate !== "function") {
+        return true;
+    }
+    const result = predicate([item]);
+    if (typeof result !== "boolean") {
+        throw new Error(localize("expectedBoolean", `Expected a bool, but the value is '${toCSharpString(result)}'.`));
+    }
+    return result;
+}
+
+function select(item: ExpressionValue, args: ExpressionValue[]): ExpressionValue {
+    const selector = <ExpressionLambda | undefined>(typeof args[0] === "function" ? args[0] : undefined);
+    return selector ? selector([item]) : item;
+}
+
+function single(items: ExpressionValue[], name: string): ExpressionValue {
+    if (items.length === 0) {
+        if (name.endsWith("OrDefault")) {
+            return null;
+        }
+        throw new Error(localize("noMatchingElement", "Sequence contains no matching element"));
+    } else if (name.startsWith("Single") && items.length > 1) {
+        throw new Error(localize("moreThanOneElement", "Sequence contains more than one matching element"));
+    }
+    return name.startsWith("Last") ? items[items.length - 1] : items[0];
+}
+
+function parseJwt(value: string): ExpressionValue {
+    const parts = value.split(".");
+    if (parts.length !== 3) {
+        return null;
+    }
+    let header: { [name: string]: {} | undefined };
+    let payload: { [name: string]: {} | undefined };
+    try {
+        // tslint:disable-next-line: no-unsafe-any
+        header = JSON.parse(Buffer.from(parts[0], "base64").toString("utf8"));
+        // tslint:disable-next-line: no-unsafe-any
+        payload = JSON.parse(Buffer.from(parts[1], "base64").toString("utf8"));
+    } catch {
+        return null;
+    }
+
+    const text = (claim: {} | undefined) => claim !== undefined ? String(claim) : null;
+    const time = (claim: {} | undefined) => typeof claim === "number" ? new Date(claim * 1000) : null;
+    const audiences = payload.aud;
+    const claims = Object.keys(payload).map((name): [string, ExpressionValue] => {
+        const claim = payload[name];
+        return [name, Array.isArray(claim) ? claim.map(c => toCSharpString(fromJson(<{}>c))) : [toCSharpString(fromJson(claim))]];
+    });
+    return new ExpressionObject("Jwt", {
+        Algorithm: text(header.alg),
+        Type: text(header.typ),
+        Issuer: text(payload.iss),
+        Subject: text(payload.sub),
+        Audiences: Array.isArray(audiences) ? audiences.map(String) : audiences !== undefined ? [String(audiences)] : [],
+        ExpirationTime: time(payload.exp),
+        NotBefore: time(payload.nbf),
+        IssuedAt: time(payload.iat),
+        Id: text(payload.jti),
+        Claims: new ExpressionDictionary(claims, true)
+    });
+}
+
+function parseBasic(value: string): ExpressionValue {
+    const match = /^Basic\s+(\S+)$/i.exec(value);
+    if (!match) {
+        return null;
+    }
+    const credentials = Buffer.from(match[1], "base64").toString("utf8");
+    const separator = credentials.indexOf(":");
+    if (separator === -1) {
+        return null;
+    }
+    return new ExpressionObject("BasicAuthCredentials", { UserId: credentials.substring(0, separator), Password: credentials.substring(separator + 1) });
+}
+
+function newGuid(): string {
+    const hex = crypto.randomBytes(16).toString("hex");
+    return `${hex.substr(0, 8)}-${hex.substr(8, 4)}-4${hex.substr(13, 3)}-a${hex.substr(17, 3)}-${hex.substr(20, 12)}`;
+}
+
+function normalizeTypeName(typeName: string): string {
+    const name = typeName.replace(/\?$/, "").replace(/^(System|Newtonsoft\.Json\.Linq)\./, "");
+    const alias = getOwnValue(typeAliases, name);
+    return alias !== undefined ? alias : name;
+}
+
+function getTypeName(value: ExpressionValue): string {
+    if (value === null) {
+        return "null";
+    } else if (typeof value === "string" || typeof value === "boolean") {
+        return typeof value === "string" ? "String" : "Boolean";
+    } else if (typeof value === "number") {
+        return Math.trunc(value) === value ? "Int32" : "Double";
+    } else if (value instanceof Date) {
+        return "DateTime";
+    } else if (Array.isArray(value)) {
+        return "Array";
+    } else if (value instanceof ExpressionDictionary) {
+        return "IReadOnlyDictionary";
+    } else if (value instanceof JsonToken) {
+        return Array.isArray(value.value) ? "JArray" : value.value !== null && typeof value.value === "object" ? "JObject" : "JValue";
+    } else if (value instanceof ExpressionObject) {
+        return value.typeName;
+    }
+    return "Func";
+}
+
+function getElement(items: ExpressionValue[], index: number): ExpressionValue {
+    if (index < 0 || index >= items.length) {
+        throw new Error(localize("indexOutOfRange", "Index was outside the bounds of the array."));
+    }
+    return items[index];
+}
+
+function compareValues(left: ExpressionValue, right: ExpressionValue): number {
+    if (typeof left === "number" && typeof right === "number") {
+        return left - right;
+    } else if (left instanceof Date && right instanceof Date) {
+        return left.getTime() - right.getTime();
+    }
+    const leftText = toCSharpString(left);
+    const rightText = toCSharpString(right);
+    return leftText < rightText ? -1 : leftText > rightText ? 1 : 0;
+}
+
+// Arguments like 'params char[]' can be passed as separate values or as an array.
+function flatten(args: ExpressionValue[]): ExpressionValue[] {
+    const result: ExpressionValue[] = [];
+    for (const arg of args) {
+        if (Array.isArray(arg)) {
+            result.push(...arg);
+        } else {
+            result.push(arg);
+        }
+    }
+    return result;
+}
+
+function toText(value: ExpressionValue | undefined): string {
+    if (typeof value !== "string") {
+        throw new Error(localize("expectedString", `Expected a string, but the value is '${value !== undefined ? toCSharpString(value) : ""}'.`));
+    }
+    return value;
+}
+
+function toNumber(value: ExpressionValue | undefined): number {
+    if (typeof value !== "number") {
+        throw new Error(localize("expectedNumber", `Expected a number, but the value is '${value !== undefined ? toCSharpString(value) : ""}'.`));
+    }
+    return value;
+}
+
+function toInteger(value: ExpressionValue | undefined): number {
+    return Math.trunc(toNumber(value));
+}
+
+function toDate(value: ExpressionValue | undefined): Date {
+    if (!(value instanceof Date)) {
+        throw new Error(localize("expectedDate", "Expected a DateTime."));
+    }
+    return value;
+}
@@ -0,0 +1,175 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// The runtime values of the policy expression evaluator. C# numbers are all doubles here and Guids are strings.
+export type ExpressionValue = string | number | boolean | null | Date | IExpressionArray | ExpressionObject | ExpressionDictionary | JsonToken | ExpressionLambda;
+
+// tslint:disable-next-line: no-empty-interface
+export interface IExpressionArray extends Array<ExpressionValue> { }
+
+export type ExpressionMethod = (args: ExpressionValue[], typeArguments: string[]) => ExpressionValue;
+
+export type ExpressionLambda = (args: ExpressionValue[]) => ExpressionValue;
+
+/**
+ * An instance of a type of the context model, e.g. IRequest. Properties and methods are looked up by their C# names.
+ */
+export class ExpressionObject {
+    constructor(
+        public readonly typeName: string,
+        public readonly properties: { [name: string]: ExpressionValue | undefined },
+        public readonly methods: { [name: string]: ExpressionMethod | undefined } = {}) {
+    }
+}
+
+/**
+ * A read-only dictionary. Headers, query parameters and JWT claims have several values per key and are looked up ignoring the case of the key.
+ */
+export class ExpressionDictionary {
+    constructor(
+        public readonly entries: [string, ExpressionValue][],
+        public readonly multiValue: boolean = false) {
+    }
+
+    public getValue(key: string): ExpressionValue | undefined {
+        const entry = this.entries.find(e => this.multiValue ? e[0].toLowerCase() === key.toLowerCase() : e[0] === key);
+        return entry ? entry[1] : undefined;
+    }
+}
+
+// A JObject, JArray or JValue, wrapping the parsed JSON.
+export class JsonToken {
+    constructor(public readonly value: {} | null) {
+    }
+}
+
+export function createTimeSpan(milliseconds: number): ExpressionObject {
+    return new ExpressionObject(
+        "TimeSpan",
+        {
+            TotalMilliseconds: milliseconds,
+            TotalSeconds: milliseconds / 1000,
+            TotalMinutes: milliseconds / 60000,
+            TotalHours: milliseconds / 3600000,
+            TotalDays: milliseconds / 86400000,
+            Days: Math.trunc(milliseconds / 86400000),
+            Hours: Math.trunc(milliseconds / 3600000) % 24,
+            Minutes: Math.trunc(milliseconds / 60000) % 60,
+            Seconds: Math.trunc(milliseconds / 1000) % 60,
+            Milliseconds: Math.trunc(milliseconds) % 1000
+        },
+        {
+            ToString: () => formatTimeSpan(milliseconds)
+        });
+}
+
+// Returns the milliseconds of a TimeSpan, or undefined for other values.
+export function getTimeSpan(value: ExpressionValue): number | undefined {
+    return value instanceof ExpressionObject && value.typeName === "TimeSpan" ? <number>value.properties.TotalMilliseconds : undefined;
+}
+
+/**
+ * Converts a value like C# ToString() does with the invariant culture.
+ */
+export function toCSharpString(value: ExpressionValue): string {
+    if (value === null) {
+        return "";
+    } else if (typeof value === "boolean") {
+        return value ? "True" : "False";
+    } else if (typeof value === "string" || typeof value === "number") {
+        return String(value);
+    } else if (value instanceof Date) {
+        return formatDate(value, "MM/dd/yyyy HH:mm:ss");
+    } else if (value instanceof JsonToken) {
+        return typeof value.value === "string" ? value.value : JSON.stringify(value.value, undefined, 2);
+    } else if (value instanceof ExpressionObject) {
+        const toString = value.methods.ToString;
+        return toString ? toCSharpString(toString([], [])) : value.typeName;
+    } else if (Array.isArray(value)) {
+        return "System.String[]";
+    } else if (value instanceof ExpressionDictionary) {
+        return "System.Collections.Generic.Dictionary";
+    }
+    return "System.Func";
+}
+
+/**
+ * Converts a value to JSON, so results can be shown and compared with the values expected by policy tests.
+ */
+export function toJson(value: ExpressionValue): {} | null {
+    if (value instanceof Date) {
+        return value.toISOString();
+    } else if (getTimeSpan(value) !== undefined) {
+        return toCSharpString(value);
+    } else if (value instanceof JsonToken) {
+        return value.value;
+    } else if (Array.isArray(value)) {
+        return value.map(toJson);
+    } else if (value instanceof ExpressionDictionary || value instanceof ExpressionObject) {
+        const result: { [name: string]: {} | null } = {};
+        const entries: [string, ExpressionValue | undefined][] = value instanceof ExpressionDictionary
+            ? value.entries
+            : Object.keys(value.properties).map((name): [string, ExpressionValue | undefined] => [name, value.properties[name]]);
+        for (const entry of entries) {
+            result[entry[0]] = entry[1] !== undefined ? toJson(entry[1]) : null;
+        }
+        return result;
+    } else if (typeof value === "function") {
+        return toCSharpString(value);
+    }
+    return value;
+}
+
+/**
+ * Converts a JSON value of a mock context, e.g. a context variable. Objects and arrays become JSON tokens like the ones set by policies.
+ */
+export function fromJson(value: {} | null | undefined): ExpressionValue {
+    if (value === undefined || value === null) {
+        return null;
+    } else if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+        return value;
+    }
+    return new JsonToken(value);
+}
+
+export function formatDate(date: Date, format: string): string {
+    if (format === "o" || format === "O") {
+        return `${date.toISOString().replace("Z", "")}0000Z`;
+    } else if (format === "s") {
+        return date.toISOString().substring(0, 19);
+    } else if (format === "r" || format === "R") {
+        return date.toUTCString();
+    }
+
+    const parts: { [token: string]: string | undefined } = {
+        yyyy: String(date.getUTCFullYear()),
+        MM: pad(date.getUTCMonth() + 1, 2),
+        dd: pad(date.getUTCDate(), 2),
+        HH: pad(date.getUTCHours(), 2),
+        mm: pad(date.getUTCMinutes(), 2),
+        ss: pad(date.getUTCSeconds(), 2),
+        fff: pad(date.getUTCMilliseconds(), 3)
+    };
+    return format.replace(/yyyy|MM|dd|HH|mm|ss|fff/g, token => {
+        const part = parts[token];
+        return part !== undefined ? part : token;
+    });
+}
+
+function formatTimeSpan(milliseconds: number): string {
+    const total = Math.abs(milliseconds);
+    const days = Math.floor(total / 86400000);
+    const time = `${pad(Math.floor(total / 3600000) % 24, 2)}:${pad(Math.floor(total / 60000) % 60, 2)}:${pad(Math.floor(total / 1000) % 60, 2)}`;
+    const fraction = total % 1000 !== 0 ? `.${pad(total % 1000, 3)}0000` : "";
+    return `${milliseconds < 0 ? "-" : ""}${days > 0 ? `${days}.` : ""}${time}${fraction}`;
+}
+
+function pad(value: number, length: number): string {
+    let text = String(value);
+    while (text.length < length) {
+        text = `0${text}`;
+    }
+    return text;
+}
@@ -0,0 +1,83 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export type PolicyScope = "global" | "product" | "api" | "operation";
+export type PolicySection = "inbound" | "backend" | "outbound" | "on-error";
+
+export const policyScopes: PolicyScope[] = ["global", "product", "api", "operation"];
+export const policySections: PolicySection[] = ["inbound", "backend", "outbound", "on-error"];
+
+export interface IPolicyDefinition {
+    sections: PolicySection[];
+    scopes: PolicyScope[];
+    // The policy contains other policies, e.g. <retry>.
+    containsPolicies?: boolean;
+    // Child elements that contain other policies, e.g. <when> and <otherwise> of <choose>.
+    policyBlocks?: string[];
+}
+
+const allSections = policySections;
+const allScopes = policyScopes;
+
+/**
+ * Policies known to API Management with the sections and scopes where they can be used.
+ */
+export const policyCatalog: { [name: string]: IPolicyDefinition | undefined } = {
+    "authentication-basic": { sections: ["inbound"], scopes: allScopes },
+    "authentication-certificate": { sections: ["inbound"], scopes: allScopes },
+    "authentication-managed-identity": { sections: ["inbound"], scopes: allScopes },
+    base: { sections: allSections, scopes: ["product", "api", "operation"] },
+    "cache-lookup": { sections: ["inbound"], scopes: allScopes },
+    "cache-lookup-value": { sections: allSections, scopes: allScopes },
+    "cache-remove-value": { sections: allSections, scopes: allScopes },
+    "cache-store": { sections: ["outbound"], scopes: allScopes },
+    "cache-store-value": { sections: allSections, scopes: allScopes },
+    "check-header": { sections: ["inbound"], scopes: allScopes },
+    choose: { sections: allSections, scopes: allScopes, policyBlocks: ["when", "otherwise"] },
+    cors: { sections: ["inbound"], scopes: allScopes },
+    "cross-domain": { sections: ["inbound"], scopes: ["global"] },
+    "emit-metric": { sections: allSections, scopes: allScopes },
+    "find-and-replace": { sections: allSections, scopes: allScopes },
+    "forward-request": { sections: ["backend"], scopes: allScopes },
+    "include-fragment": { sections: allSections, scopes: allScopes },
+    "ip-filter": { sections: ["inbound"], scopes: allScopes },
+    "json-to-xml": { sections: ["inbound", "outbound", "on-error"], scopes: allScopes },
+    jsonp: { sections: ["outbound"], scopes: allScopes },
+    "limit-concurrency": { sections: allSections, scopes: allScopes, containsPolicies: true },
+    "log-to-eventhub": { sections: allSections, scopes: allScopes },
+    "mock-response": { sections: ["inbound", "outbound", "on-error"], scopes: allScopes },
+    proxy: { sections: ["inbound"], scopes: allScopes },
+    quota: { sections: ["inbound"], scopes: ["product", "api", "operation"] },
+    "quota-by-key": { sections: ["inbound"], scopes: allScopes },
+    "rate-limit": { sections: ["inbound"], scopes: ["product", "api", "operation"] },
+    "rate-limit-by-key": { sections: ["inbound"], scopes: allScopes },
+    "redirect-content-urls": { sections: ["inbound", "outbound"], scopes: allScopes },
+    retry: { sections: allSections, scopes: allScopes, containsPolicies: true },
+    "return-response": { sections: allSections, scopes: allScopes },
+    "rewrite-uri": { sections: ["inbound"], scopes: allScopes },
+    "send-one-way-request": { sections: allSections, scopes: allScopes },
+    "send-request": { sections: allSections, scopes: allScopes },
+    "set-backend-service": { sections: ["inbound", "backend"], scopes: allScopes },
+    "set-body": { sections: ["inbound", "backend", "outbound"], scopes: allScopes },
+    "set-header": { sections: allSections, scopes: allScopes },
+    "set-method": { sections: ["inbound", "on-error"], scopes: allScopes },
+    "set-query-parameter": { sections: ["inbound", "backend"], scopes: allScopes },
+    "set-status": { sections: allSections, scopes: allScopes },
+    "set-variable": { sections: allSections, scopes: allScopes },
+    trace: { sections: allSections, scopes: allScopes },
+    "validate-content": { sections: ["inbound", "outbound", "on-error"], scopes: allScopes },
+    "validate-headers": { sections: ["outbound", "on-error"], scopes: allScopes },
+    "validate-jwt": { sections: ["inbound"], scopes: allScopes },
+    "validate-parameters": { sections: ["inbound"], scopes: allScopes },
+    "validate-status-code": { sections: ["outbound", "on-error"], scopes: allScopes },
+    wait: { sections: allSections, scopes: allScopes, containsPolicies: true },
+    "xml-to-json": { sections: ["inbound", "outbound", "on-error"], scopes: allScopes },
+    "xsl-transform": { sections: ["inbound", "outbound"], scopes: allScopes }
+};
+
+// The catalog is an object literal, so names like constructor or toString would find members of Object.prototype without this check.
+export function getPolicyDefinition(name: string): IPolicyDefinition | undefined {
+    return Object.prototype.hasOwnProperty.call(policyCatalog, name) ? policyCatalog[name] : undefined;
+}
@@ -0,0 +1,79 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IPolicyError } from "./IPolicyError";
+import { IXmlProblem } from "./IXmlProblem";
+
+export namespace policyErrorUtil {
+    const positionPattern = /line (\d+), (?:column|position) (\d+)/i;
+
+    /**
+     * Reads the details of a ValidationError response returned when uploading a policy.
+     */
+    export function parse(responseBody: string): IPolicyError[] {
+        let body: { error?: IErrorBody };
+        try {
+            // tslint:disable-next-line: no-unsafe-any
+            body = JSON.parse(responseBody);
+        } catch (error) {
+            return [];
+        }
+
+        const error = body.error;
+        if (!error) {
+            return [];
+        }
+        const details = error.details && error.details.length > 0 ? error.details : [error];
+        return details.map(d => {
+            const message = d.message ? d.message : "";
+            const result: IPolicyError = { code: d.code ? d.code : "", target: d.target ? d.target : undefined, message };
+            const match = positionPattern.exec(message);
+            if (match) {
+                result.line = Number(match[1]);
+                result.column = Number(match[2]);
+            }
+            return result;
+        });
+    }
+
+    /**
+     * Finds where the errors are in the uploaded policy. Errors without a position are put on the first element named like their target,
+     * or at the start of the document.
+     */
+    export function locate(errors: IPolicyError[], text: string): IXmlProblem[] {
+        const lineStarts = [0];
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === "\n") {
+                lineStarts.push(i + 1);
+            }
+        }
+
+        return errors.map((e): IXmlProblem => {
+            const message = e.target ? `${e.code} (${e.target}): ${e.message}` : `${e.code}: ${e.message}`;
+            let start = 0;
+            let end = 0;
+            if (e.line !== undefined && e.line >= 1 && e.line <= lineStarts.length) {
+                const lineEnd = e.line < lineStarts.length ? lineStarts[e.line] - 1 : text.length;
+                start = Math.min(lineStarts[e.line - 1] + Math.max((e.column !== undefined ? e.column : 1) - 1, 0), lineEnd);
+                const word = /^<?\/?[^\s<>"'=\/]*/.exec(text.substring(start, lineEnd));
+                end = word && word[0].length > 0 ? start + word[0].length : lineEnd;
+            } else if (e.target) {
+                const index = text.search(new RegExp(`<${e.target.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}[\\s/>]`));
+                if (index !== -1) {
+                    start = index + 1;
+                    end = start + e.target.length;
+                }
+            }
+            return { message, severity: "error", start, end };
+        });
+    }
+
+    interface IErrorBody {
+        code?: string;
+        target?: string;
+        message?: string;
+        details?: IErrorBody[];
+    }
+}
@@ -0,0 +1,56 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as vscode from "vscode";
+import { localize } from "../localize";
+import { getDefaultWorkspacePath } from "../utils/fsUtil";
+import { getWorkspaceSetting } from "../vsCodeConfig/settings";
+import { IPolicyFragments } from "./PolicyFragmentExpander";
+
+export namespace policyFragmentLibrary {
+    const fragmentsFolderKey = "policyFragmentsFolder";
+    const defaultFragmentsFolder = "policy-fragments";
+    const fragmentFileExtension = ".xml";
+
+    /**
+     * The folder of the fragment library. A relative folder is in the first workspace folder, or in the extension working folder without a workspace.
+     */
+    export function getFolder(): string {
+        const setting = getWorkspaceSetting<string>(fragmentsFolderKey);
+        const folder = setting ? setting : defaultFragmentsFolder;
+        if (path.isAbsolute(folder)) {
+            return folder;
+        }
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        return path.join(workspaceFolders && workspaceFolders.length > 0 ? workspaceFolders[0].uri.fsPath : getDefaultWorkspacePath(), folder);
+    }
+
+    // Each <name>.xml file of the library folder is a fragment.
+    export async function load(): Promise<IPolicyFragments> {
+        const fragments: IPolicyFragments = {};
+        const folder = getFolder();
+        if (!await fse.pathExists(folder)) {
+            return fragments;
+        }
+        for (const file of await fse.readdir(folder)) {
+            if (file.toLowerCase().endsWith(fragmentFileExtension)) {
+                fragments[file.substring(0, file.length - fragmentFileExtension.length)] = await fse.readFile(path.join(folder, file), "utf8");
+            }
+        }
+        return fragments;
+    }
+
+    export async function save(name: string, content: string): Promise<string> {
+        if (!/^[\w.\-]+$/.test(name)) {
+            throw new Error(localize("invalidFragmentName", "Fragment names can only have letters, digits, '_', '.' and '-'."));
+        }
+        const filePath = path.join(getFolder(), `${name}${fragmentFileExtension}`);
+        await fse.ensureDir(path.dirname(filePath));
+        await fse.writeFile(filePath, content);
+        return filePath;
+    }
+}
@@ -0,0 +1,201 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * The members of .NET types that policy expressions use most, in the same form as Context.cs so parseCSharpTypes can read them.
+ * Arrays are modelled as Array<T> and indexers as an Item property.
+ */
+export const systemTypesSource = `
+namespace System
+{
+    public class object
+    {
+        string ToString();
+    }
+
+    public class string
+    {
+        int Length { get; }
+        bool Contains(string value);
+        bool StartsWith(string value);
+        bool EndsWith(string value);
+        bool Equals(string value, StringComparison comparisonType);
+        int IndexOf(string value);
+        string Substring(int startIndex, int length);
+        string Replace(string oldValue, string newValue);
+        string ToLower();
+        string ToUpper();
+        string Trim();
+        string[] Split(params char[] separator);
+        string ToString();
+    }
+
+    public struct bool
+    {
+        string ToString();
+    }
+
+    public struct int
+    {
+        string ToString();
+    }
+
+    public struct long
+    {
+        string ToString();
+    }
+
+    public struct double
+    {
+        string ToString();
+    }
+
+    public struct Guid
+    {
+        string ToString();
+    }
+
+    public struct DateTime
+    {
+        int Year { get; }
+        int Month { get; }
+        int Day { get; }
+        int Hour { get; }
+        int Minute { get; }
+        int Second { get; }
+        long Ticks { get; }
+        DateTime Date { get; }
+        DayOfWeek DayOfWeek { get; }
+        DateTime AddSeconds(double value);
+        DateTime AddMinutes(double value);
+        DateTime AddHours(double value);
+        DateTime AddDays(double value);
+        DateTime ToUniversalTime();
+        string ToString(string format);
+    }
+
+    public struct TimeSpan
+    {
+        int Milliseconds { get; }
+        int Seconds { get; }
+        int Minutes { get; }
+        double TotalMilliseconds { get; }
+        double TotalSeconds { get; }
+        double TotalMinutes { get; }
+        string ToString();
+    }
+
+    public class Uri
+    {
+        string AbsoluteUri { get; }
+        string AbsolutePath { get; }
+        string Host { get; }
+        int Port { get; }
+        string Query { get; }
+        string Scheme { get; }
+        string ToString();
+    }
+
+    public interface IEnumerable<T>
+    {
+        bool Any(Func<T, bool> predicate);
+        bool All(Func<T, bool> predicate);
+        bool Contains(T value);
+        int Count();
+        T First(Func<T, bool> predicate);
+        T FirstOrDefault(Func<T, bool> predicate);
+        T Last();
+        T LastOrDefault();
+        IEnumerable<T> Where(Func<T, bool> predicate);
+        IEnumerable<TResult> Select<TResult>(Func<T, TResult> selector);
+        IEnumerable<T> OrderBy<TKey>(Func<T, TKey> keySelector);
+        IEnumerable<T> Skip(int count);
+        IEnumerable<T> Take(int count);
+        T[] ToArray();
+        List<T> ToList();
+    }
+
+    public interface IReadOnlyCollection<T> : IEnumerable<T>
+    {
+        int Count { get; }
+    }
+
+    public class Array<T> : IEnumerable<T>
+    {
+        int Length { get; }
+        T Item { get; }
+    }
+
+    public class List<T> : IEnumerable<T>
+    {
+        int Count { get; }
+        T Item { get; }
+    }
+
+    public struct KeyValuePair<TKey, TValue>
+    {
+        TKey Key { get; }
+        TValue Value { get; }
+    }
+
+    public interface IReadOnlyDictionary<TKey, TValue> : IEnumerable<KeyValuePair<TKey, TValue>>
+    {
+        int Count { get; }
+        IEnumerable<TKey> Keys { get; }
+        IEnumerable<TValue> Values { get; }
+        TValue Item { get; }
+        bool ContainsKey(TKey key);
+        bool TryGetValue(TKey key, out TValue value);
+    }
+
+    public class X509Certificate
+    {
+        string Subject { get; }
+        string Issuer { get; }
+        string GetCertHashString();
+    }
+
+    public class X509Certificate2 : X509Certificate
+    {
+        string Thumbprint { get; }
+        string SerialNumber { get; }
+        DateTime NotBefore { get; }
+        DateTime NotAfter { get; }
+    }
+
+    public class XName
+    {
+        string LocalName { get; }
+        string NamespaceName { get; }
+    }
+
+    public class XElement
+    {
+        XName Name { get; }
+        string Value { get; }
+        IEnumerable<XElement> Elements();
+        XElement Element(XName name);
+    }
+
+    public class JToken
+    {
+        JToken Item { get; }
+        JToken SelectToken(string path);
+        T Value<T>(object key);
+        T ToObject<T>();
+        string ToString();
+    }
+
+    public class JObject : JToken
+    {
+        JToken Property(string name);
+    }
+
+    public class JArray : JToken
+    {
+        int Count { get; }
+    }
+}
+`;
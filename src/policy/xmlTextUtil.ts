@@ -0,0 +1,47 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export namespace xmlTextUtil {
+    export const indentUnit: string = "    ";
+
+    // The whitespace at the start of the line of the offset.
+    export function getLineIndent(text: string, offset: number): string {
+        const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+        return getIndent(text.substring(lineStart, offset));
+    }
+
+    export function getIndent(line: string): string {
+        return line.substring(0, line.length - line.replace(/^[ \t]+/, "").length);
+    }
+
+    /**
+     * The lines of the text without trailing whitespace, leading and trailing blank lines, and the indentation the lines have in common.
+     * A first line that continues the line of the tag before it has no indentation of its own, so it's only trimmed.
+     */
+    export function dedent(text: string): string[] {
+        const rawLines = text.replace(/\r\n/g, "\n").split("\n").map(line => line.replace(/\s+$/, ""));
+        const firstLine = rawLines[0].trim();
+        const otherLines = rawLines.slice(1);
+        const indents = otherLines.filter(line => line).map(line => getIndent(line).length);
+        const common = indents.length > 0 ? Math.min(...indents) : 0;
+        const lines = [...(firstLine ? [firstLine] : []), ...otherLines.map(line => line.substring(common))];
+        while (lines.length > 0 && !lines[0]) {
+            lines.shift();
+        }
+        while (lines.length > 0 && !lines[lines.length - 1]) {
+            lines.pop();
+        }
+        return lines;
+    }
+
+    export function indentLines(text: string, indent: string): string[] {
+        return text.split("\n").map(line => line ? `${indent}${line}` : line);
+    }
+
+    // Escapes text for element content and for attribute values in either quote.
+    export function escapeXml(value: string): string {
+        return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+    }
+}
@@ -5,12 +5,22 @@
 
 import { ApiManagementModels } from "azure-arm-apimanagement";
 import { ApiContract } from "azure-arm-apimanagement/lib/models";
-import { window } from "vscode";
+import { WebResource } from "ms-rest";
+import * as request from 'request-promise';
+import { ProgressLocation, window, workspace } from "vscode";
+import { appendExtensionUserAgent } from "vscode-azureextensionui";
 import { AzureParentTreeItem, DialogResponses, IOpenApiImportObject, IParsedError, parseError, UserCancelledError } from "../../extension.bundle";
 import * as Constants from "../constants";
 import { IServiceTreeRoot } from "../explorer/IServiceTreeRoot";
 import { ext } from "../extensionVariables";
 import { localize } from "../localize";
+import { apiChangePreview, IApiOperationShape } from "../openApi/apiChangePreview";
+import { IOpenApiDocument } from "../openApi/IOpenApiDocument";
+import { OpenApiBreakingChangeDetector } from "../openApi/OpenApiBreakingChangeDetector";
+import { getWorkspaceSetting } from "../vsCodeConfig/settings";
+import { signRequest } from "./signRequest";
+
+const failOnBreakingChangesKey = "failOnBreakingApiChanges";
 
 export namespace apiUtil {
     export async function askApiName(defaultName?: string): Promise<string> {
@@ -66,7 +76,7 @@ export namespace apiUtil {
     export async function createOrUpdateApiWithSwaggerObject(node: AzureParentTreeItem<IServiceTreeRoot>, apiName: string, document: IOpenApiImportObject): Promise<ApiContract> {
         document.info.title = apiName;
 
-        await checkApiExist(node, apiName);
+        await checkApiExist(node, apiName, document);
 
         const openApiImportPayload: ApiManagementModels.ApiCreateOrUpdateParameter = { displayName: apiName, path: apiName, format: '', value: '' };
         openApiImportPayload.protocols = document.schemes === undefined ? ["https"] : document.schemes;
@@ -77,7 +87,7 @@ export namespace apiUtil {
         return await node.root.client.api.createOrUpdate(node.root.resourceGroupName, node.root.serviceName, apiName, openApiImportPayload, options);
     }
 
-    export async function checkApiExist(node: AzureParentTreeItem<IServiceTreeRoot>, apiName: string): Promise<void> {
+    export async function checkApiExist(node: AzureParentTreeItem<IServiceTreeRoot>, apiName: string, document?: IOpenApiImportObject): Promise<void> {
         let apiExists: boolean = true;
         try {
             await node.root.client.api.get(node.root.resourceGroupName, node.root.serviceName, apiName);
@@ -87,11 +97,142 @@ export namespace apiUtil {
                 apiExists = false;
             }
         }
-        if (apiExists) {
+        if (apiExists && document !== undefined) {
+            await confirmApiChanges(node.root, apiName, document, true);
+        } else if (apiExists) {
             const overwriteFlag = await window.showWarningMessage(localize("apiAlreadyExists", `API "${apiName}" already exists. Import will trigger an 'Override' of exisiting API. Do you want to continue?`), { modal: true }, DialogResponses.yes, DialogResponses.cancel);
             if (overwriteFlag !== DialogResponses.yes) {
                 throw new UserCancelledError();
             }
         }
     }
+
+    /**
+     * Opens a preview of the operations and schemas that replacing an API with the document adds, removes and modifies, and of its breaking
+     * changes, and asks to continue. When nothing changes, it only asks if confirmWithoutChanges is set. With the failOnBreakingApiChanges
+     * setting, breaking changes fail instead. The API is exported once, and both are compared with the exported document.
+     */
+    export async function confirmApiChanges(root: IServiceTreeRoot, apiName: string, document: IOpenApiImportObject, confirmWithoutChanges: boolean): Promise<void> {
+        const preview = await window.withProgress({ location: ProgressLocation.Notification, title: localize("comparingApi", `Comparing the document with API '${apiName}'...`) }, async () => {
+            const incoming = <IOpenApiDocument>document.sourceDocument;
+            const deployed = await getDeployedDocument(root, apiName);
+            const current = deployed !== undefined ? apiChangePreview.getDocumentShape(deployed) : apiChangePreview.getContractShape(
+                await listOperations(root, apiName),
+                await root.client.apiSchema.listByApi(root.resourceGroupName, root.serviceName, apiName));
+            const changeSet = apiChangePreview.compare(current, apiChangePreview.getDocumentShape(incoming));
+            return {
+                changes: changeSet,
+                operationsWithPolicies: await getOperationsWithPolicies(root, apiName, changeSet.removedOperations),
+                breakingChanges: deployed !== undefined ? new OpenApiBreakingChangeDetector(deployed, incoming).detect().filter(c => c.breaking) : []
+            };
+        });
+
+        const changes = preview.changes;
+        const breakingChanges = preview.breakingChanges;
+        if (!apiChangePreview.hasChanges(changes) && breakingChanges.length === 0 && !confirmWithoutChanges) {
+            return;
+        }
+        let report = apiChangePreview.getReport(apiName, changes, preview.operationsWithPolicies);
+        if (breakingChanges.length > 0) {
+            report = `${report}\n${OpenApiBreakingChangeDetector.getReport(breakingChanges)}`;
+        }
+        const uri = ext.readOnlyContent.setContent(`${root.serviceName}/${apiName}.changes.txt`, report);
+        await window.showTextDocument(await workspace.openTextDocument(uri), { preview: false });
+
+        if (breakingChanges.length > 0 && isFailOnBreakingChangesEnabled()) {
+            throw new Error(localize("breakingChangesFound", `The document has ${breakingChanges.length} breaking changes to API '${apiName}'. Publish it as a new version of the API instead.`));
+        }
+        let message = localize("confirmApiChanges", `Replacing API '${apiName}' adds ${changes.addedOperations.length}, removes ${changes.removedOperations.length} and modifies ${changes.modifiedOperations.length} operations.`);
+        if (preview.operationsWithPolicies.length > 0) {
+            message = `${message} ${localize("confirmOperationPoliciesDeleted", `The policies of ${preview.operationsWithPolicies.length} removed operations are deleted too.`)}`;
+        }
+        if (breakingChanges.length > 0) {
+            message = `${message} ${localize("confirmBreakingChanges", `${breakingChanges.length} changes can break existing clients.`)}`;
+        }
+        const result = await window.showWarningMessage(`${message} ${localize("confirmContinue", "Do you want to continue?")}`, { modal: true }, DialogResponses.yes, DialogResponses.cancel);
+        if (result !== DialogResponses.yes) {
+            throw new UserCancelledError();
+        }
+    }
+
+    export function isFailOnBreakingChangesEnabled(): boolean {
+        return !!getWorkspaceSetting<boolean>(failOnBreakingChangesKey);
+    }
+
+    // Exports the document of an API in OpenAPI 3.0, or in OpenAPI 2.0 if that's the only schema the API supports.
+    export async function exportOpenApiDocument(root: IServiceTreeRoot, apiName: string): Promise<string> {
+        // Check the supported schemas for API. If no schemas specified then assume open api 3.0
+        const schemas = await root.client.apiSchema.listByApi(root.resourceGroupName, root.serviceName, apiName);
+        let exportFormat: string = Constants.openApiExport;
+        let exportAcceptHeader: string = Constants.openApiAcceptHeader;
+        if (schemas.length > 0) {
+            const openApiSchemaSupported = schemas.find((s) => s.contentType === Constants.openApiSchema);
+            if (openApiSchemaSupported === undefined) {
+                const swaggerSchemaSupported = schemas.find((s) => s.contentType === Constants.swaggerSchema);
+                if (swaggerSchemaSupported !== undefined) {
+                    exportFormat = Constants.swaggerExport;
+                    exportAcceptHeader = Constants.swaggerAcceptHeader;
+                } else {
+                    throw Error(localize("unSupportedSchema", `'${apiName}' does not support OpenAPI 2.0 or OpenAPI 3.0 schema.`));
+                }
+            }
+        }
+
+        const requestOptions: WebResource = new WebResource();
+        requestOptions.headers = {
+            ['Accept']: exportAcceptHeader,
+            ['User-Agent']: appendExtensionUserAgent()
+        };
+        requestOptions.url = buildApiExportUrl(root, apiName, exportFormat);
+        await signRequest(requestOptions, root.client.credentials);
+        // tslint:disable-next-line: await-promise
+        return <string>await request(requestOptions).promise();
+    }
+
+    function buildApiExportUrl(root: IServiceTreeRoot, apiName: string, exportFormat: string): string {
+        let url = `${root.environment.resourceManagerEndpointUrl}/subscriptions/${root.subscriptionId}/resourceGroups/${root.resourceGroupName}/providers/Microsoft.ApiManagement/service/${root.serviceName}/apis/${apiName}`;
+        url = `${url}?export=true&format=${exportFormat}&api-version=2019-01-01`;
+        return url;
+    }
+
+    // The exported document of the API, which both comparisons use. APIs that can't be exported are compared by their operations and schemas
+    // instead, without breaking changes, unless breaking changes have to be checked.
+    async function getDeployedDocument(root: IServiceTreeRoot, apiName: string): Promise<IOpenApiDocument | undefined> {
+        try {
+            return <IOpenApiDocument>JSON.parse(await exportOpenApiDocument(root, apiName));
+        } catch (error) {
+            if (isFailOnBreakingChangesEnabled()) {
+                throw error;
+            }
+            return undefined;
+        }
+    }
+
+    async function listOperations(root: IServiceTreeRoot, apiName: string): Promise<ApiManagementModels.OperationContract[]> {
+        let operationCollection = await root.client.apiOperation.listByApi(root.resourceGroupName, root.serviceName, apiName);
+        const operations: ApiManagementModels.OperationContract[] = operationCollection.slice();
+        while (operationCollection.nextLink) {
+            operationCollection = await root.client.apiOperation.listByApiNext(operationCollection.nextLink);
+            operations.push(...operationCollection);
+        }
+        return operations;
+    }
+
+    // The names of the operations that have an operation policy. Operations of an exported document without an operationId have no name.
+    async function getOperationsWithPolicies(root: IServiceTreeRoot, apiName: string, operations: IApiOperationShape[]): Promise<string[]> {
+        const names = await Promise.all(operations.filter(operation => operation.name !== undefined).map(async operation => {
+            const opName = <string>operation.name;
+            try {
+                await root.client.apiOperationPolicy.get(root.resourceGroupName, root.serviceName, apiName, opName);
+                return opName;
+            } catch (error) {
+                const errorType = parseError(error).errorType.toLowerCase();
+                if (errorType === 'notfound' || errorType === 'resourcenotfound') {
+                    return undefined;
+                }
+                throw error;
+            }
+        }));
+        return <string[]>names.filter(name => name !== undefined);
+    }
 }
@@ -0,0 +1,108 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { env, ProgressLocation, window } from "vscode";
+import { parseError } from "vscode-azureextensionui";
+import { IApiTreeRoot } from "../explorer/IApiTreeRoot";
+import { ext } from "../extensionVariables";
+import { localize } from "../localize";
+import { IDeviceCode } from "../operationConsole/IDeviceCode";
+import { IOAuthServerSettings } from "../operationConsole/IOAuthServerSettings";
+import { OAuthTokenProvider } from "../operationConsole/OAuthTokenProvider";
+import { nonNullProp } from "./nonNull";
+import { openUrl } from "./openUrl";
+import { requestUtil } from "./requestUtil";
+
+export namespace authorizationUtil {
+    /**
+     * Gets a token from the OAuth 2.0 authorization server or OpenID Connect provider configured for the API
+     * and returns the value of the Authorization header. Returns undefined if the API has no user authorization or the user skips it.
+     */
+    export async function askAuthorizationHeader(root: IApiTreeRoot): Promise<string | undefined> {
+        const api = await root.client.api.get(root.resourceGroupName, root.serviceName, root.apiName);
+        const authenticationSettings = api.authenticationSettings;
+        const oAuth2 = authenticationSettings ? authenticationSettings.oAuth2 : undefined;
+        const openid = authenticationSettings ? authenticationSettings.openid : undefined;
+
+        let settings: IOAuthServerSettings;
+        if (oAuth2 && oAuth2.authorizationServerId) {
+            settings = await getAuthorizationServerSettings(root, oAuth2.authorizationServerId, oAuth2.scope);
+        } else if (openid && openid.openidProviderId) {
+            settings = await getOpenIdProviderSettings(root, openid.openidProviderId);
+        } else {
+            return undefined;
+        }
+
+        const clientCredentials = localize("clientCredentialsFlow", "Client credentials");
+        const deviceCode = localize("deviceCodeFlow", "Device code (sign in as a user)");
+        const noAuthorization = localize("noAuthorization", "Don't add an Authorization header");
+        const flow = await ext.ui.showQuickPick([clientCredentials, deviceCode, noAuthorization].map(s => { return { label: s, description: '' }; }), { placeHolder: localize("selectTokenFlow", "How do you want to get an access token for the request?"), canPickMany: false });
+
+        let accessToken: string;
+        if (flow.label === clientCredentials) {
+            if (!settings.clientSecret) {
+                settings.clientSecret = await ext.ui.showInputBox({ prompt: localize("enterClientSecret", `Enter the client secret of client '${settings.clientId}'`), password: true });
+            }
+            accessToken = await window.withProgress({ location: ProgressLocation.Notification, title: localize("gettingToken", "Getting an access token...") }, async () => new OAuthTokenProvider().getClientCredentialsToken(settings));
+        } else if (flow.label === deviceCode) {
+            if (!settings.deviceAuthorizationEndpoint) {
+                settings.deviceAuthorizationEndpoint = await ext.ui.showInputBox({
+                    prompt: localize("enterDeviceAuthorizationEndpoint", "Enter the device authorization endpoint of the authorization server"),
+                    value: settings.tokenEndpoint.replace(/\/token$/, "/devicecode")
+                });
+            }
+            accessToken = await window.withProgress(
+                { location: ProgressLocation.Notification, title: localize("waitingForSignIn", "Waiting for sign-in with the device code..."), cancellable: true },
+                async (_progress, cancellation) => new OAuthTokenProvider().getDeviceCodeToken(settings, showDeviceCode, cancellation));
+        } else {
+            return undefined;
+        }
+
+        return `Bearer ${accessToken}`;
+    }
+
+    async function getAuthorizationServerSettings(root: IApiTreeRoot, authorizationServerId: string, scope: string | undefined): Promise<IOAuthServerSettings> {
+        const server = await root.client.authorizationServer.get(root.resourceGroupName, root.serviceName, authorizationServerId);
+        return {
+            tokenEndpoint: nonNullProp(server, "tokenEndpoint"),
+            clientId: server.clientId,
+            clientSecret: server.clientSecret,
+            scope: scope ? scope : server.defaultScope
+        };
+    }
+
+    async function getOpenIdProviderSettings(root: IApiTreeRoot, openidProviderId: string): Promise<IOAuthServerSettings> {
+        const provider = await root.client.openIdConnectProvider.get(root.resourceGroupName, root.serviceName, openidProviderId);
+        const metadataJson: string = await requestUtil(provider.metadataEndpoint);
+        // tslint:disable-next-line: no-any no-unsafe-any
+        const metadata: { [name: string]: any } = JSON.parse(metadataJson);
+        if (typeof metadata.token_endpoint !== "string") {
+            throw new Error(localize("noTokenEndpoint", `The OpenID Connect metadata at '${provider.metadataEndpoint}' doesn't have a token endpoint.`));
+        }
+        return {
+            tokenEndpoint: metadata.token_endpoint,
+            deviceAuthorizationEndpoint: typeof metadata.device_authorization_endpoint === "string" ? metadata.device_authorization_endpoint : undefined,
+            clientId: provider.clientId,
+            clientSecret: provider.clientSecret,
+            scope: "openid"
+        };
+    }
+
+    function showDeviceCode(deviceCode: IDeviceCode): void {
+        const copyAndOpen = localize("copyAndOpen", "Copy code & open");
+        const message = deviceCode.message ? deviceCode.message : localize("deviceCodeMessage", `To sign in, open ${deviceCode.verificationUri} and enter the code ${deviceCode.userCode}.`);
+        // The message isn't awaited, since the token is requested while it shows, so errors of its action are shown here.
+        window.showInformationMessage(message, copyAndOpen).then(async result => {
+            try {
+                if (result === copyAndOpen) {
+                    await env.clipboard.writeText(deviceCode.userCode);
+                    await openUrl(deviceCode.verificationUri);
+                }
+            } catch (error) {
+                window.showErrorMessage(localize("openDeviceCodeFailed", `The sign-in page couldn't be opened: ${parseError(error).message}`));
+            }
+        });
+    }
+}
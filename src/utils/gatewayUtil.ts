@@ -0,0 +1,84 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ApiManagementModels } from "azure-arm-apimanagement";
+import { QuickPickItem } from "vscode";
+import { parseError } from "vscode-azureextensionui";
+import { ApimService } from "../azure/apim/ApimService";
+import { IGatewayContract } from "../azure/apim/contracts";
+import { IServiceTreeRoot } from "../explorer/IServiceTreeRoot";
+import { ext } from "../extensionVariables";
+import { localize } from "../localize";
+
+export namespace gatewayUtil {
+    export const defaultSelfHostedGatewayAddress = "localhost:8080";
+
+    export interface IGatewayPickItem extends QuickPickItem {
+        gatewayUrl?: string;
+        gatewayName?: string;
+    }
+
+    /**
+     * Lets the user pick the host to send test requests to: the managed gateway, a custom proxy hostname or a self-hosted gateway.
+     * Returns the gateway URL (protocol and host), or undefined for the managed gateway. Doesn't prompt if there is nothing else to choose.
+     */
+    export async function askGatewayUrl(root: IServiceTreeRoot): Promise<string | undefined> {
+        const results = await Promise.all([
+            root.client.apiManagementService.get(root.resourceGroupName, root.serviceName),
+            listSelfHostedGateways(root)]);
+        const picks = getGatewayPicks(results[0], results[1]);
+        if (picks.length === 1) {
+            return undefined;
+        }
+
+        const pick = await ext.ui.showQuickPick(picks, { placeHolder: localize("selectGateway", "Select the gateway to send the request to"), canPickMany: false });
+        if (pick.gatewayName !== undefined) {
+            const address = await ext.ui.showInputBox({
+                prompt: localize("enterGatewayAddress", `Enter the local address of self-hosted gateway '${pick.gatewayName}'`),
+                value: defaultSelfHostedGatewayAddress,
+                validateInput: validateGatewayAddress
+            });
+            return getSelfHostedGatewayUrl(address);
+        }
+        return pick.gatewayUrl;
+    }
+
+    /**
+     * The gateways to pick from: the managed gateway, the custom proxy hostnames of the service and its self-hosted gateways.
+     */
+    export function getGatewayPicks(service: ApiManagementModels.ApiManagementServiceResource, gateways: IGatewayContract[]): IGatewayPickItem[] {
+        const picks: IGatewayPickItem[] = [{ label: localize("managedGateway", "Managed gateway"), description: service.gatewayUrl }];
+        (service.hostnameConfigurations ? service.hostnameConfigurations : [])
+            .filter(hostname => hostname.type === "Proxy")
+            .forEach(hostname => picks.push({ label: hostname.hostName, description: localize("customHostname", "Custom hostname"), gatewayUrl: `https://${hostname.hostName}` }));
+        gateways.forEach(gateway => picks.push({ label: gateway.name, description: localize("selfHostedGateway", "Self-hosted gateway"), gatewayName: gateway.name }));
+        return picks;
+    }
+
+    /**
+     * The URL of a self-hosted gateway from the address the user entered, e.g. localhost:8080.
+     */
+    export function getSelfHostedGatewayUrl(address: string): string {
+        const gatewayUrl = address.trim().replace(/\/$/, "");
+        // The self-hosted gateway container serves http on port 8080 and https on port 8081
+        // tslint:disable-next-line: no-http-string
+        return gatewayUrl.indexOf("://") !== -1 ? gatewayUrl : `http://${gatewayUrl}`;
+    }
+
+    async function listSelfHostedGateways(root: IServiceTreeRoot): Promise<IGatewayContract[]> {
+        try {
+            const apimService = new ApimService(root.credentials, root.environment.resourceManagerEndpointUrl, root.subscriptionId, root.resourceGroupName, root.serviceName);
+            return await apimService.listGateways();
+        } catch (error) {
+            // Self-hosted gateways aren't available in every tier
+            ext.outputChannel.appendLine(localize("listGatewaysFailed", `Could not list self-hosted gateways: ${parseError(error).message}`));
+            return [];
+        }
+    }
+
+    function validateGatewayAddress(value: string): string | undefined {
+        return /^(https?:\/\/)?[^\s/:]+(:\d+)?\/?$/.test(value.trim()) ? undefined : localize("invalidGatewayAddress", "Enter a host and port, for example localhost:8080.");
+    }
+}
@@ -0,0 +1,45 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../localize";
+
+export namespace parameterUtil {
+    export interface IParameter {
+        name: string;
+        // tslint:disable-next-line: no-reserved-keywords
+        type: string;
+        required: boolean;
+        values: string[];
+    }
+
+    /**
+     * Checks a parameter value against the required flag, allowed values and type of the parameter.
+     * Returns an error message, or undefined if the value is valid.
+     */
+    export function validateValue(parameter: IParameter, value: string): string | undefined {
+        if (value === "") {
+            return parameter.required ? localize("parameterRequired", `'${parameter.name}' is required.`) : undefined;
+        }
+
+        if (parameter.values.length > 0 && parameter.values.indexOf(value) === -1) {
+            return localize("parameterNotAllowed", `'${parameter.name}' must be one of: ${parameter.values.join(", ")}.`);
+        }
+
+        switch (parameter.type ? parameter.type.toLowerCase() : "") {
+            case "integer":
+            case "int":
+            case "long":
+                return /^[-+]?\d+$/.test(value) ? undefined : localize("parameterNotInteger", `'${parameter.name}' must be an integer.`);
+            case "number":
+            case "float":
+            case "double":
+                return value.trim() !== "" && isFinite(Number(value)) ? undefined : localize("parameterNotNumber", `'${parameter.name}' must be a number.`);
+            case "boolean":
+                return /^(true|false)$/i.test(value) ? undefined : localize("parameterNotBoolean", `'${parameter.name}' must be true or false.`);
+            default:
+                return undefined;
+        }
+    }
+}
@@ -0,0 +1,17 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Converts a value to JSON with the keys of objects sorted, so that values that only differ in the order of their keys give the same text.
+ */
+export function stringifySorted(value: {} | null | undefined): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stringifySorted).join(",")}]`;
+    } else if (typeof value === "object" && value !== null) {
+        const members = <{ [key: string]: {} | null | undefined }>value;
+        return `{${Object.keys(members).sort().map(key => `${JSON.stringify(key)}:${stringifySorted(members[key])}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
@@ -0,0 +1,75 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ApiManagementModels } from "azure-arm-apimanagement";
+import { QuickPickItem } from "vscode";
+import { IApiTreeRoot } from "../explorer/IApiTreeRoot";
+import { IServiceTreeRoot } from "../explorer/IServiceTreeRoot";
+import { ext } from "../extensionVariables";
+import { localize } from "../localize";
+import { nonNullProp } from "./nonNull";
+
+export namespace subscriptionUtil {
+    export const masterSubscriptionName = "master";
+
+    interface ISubscriptionKeyPickItem extends QuickPickItem {
+        subscriptionName?: string;
+    }
+
+    export async function getMasterSubscriptionKey(root: IServiceTreeRoot): Promise<string> {
+        const subscription = await root.client.subscription.get(root.resourceGroupName, root.serviceName, masterSubscriptionName);
+        return subscription.secondaryKey;
+    }
+
+    /**
+     * Lets the user pick a subscription that grants access to the API and returns its key.
+     * Returns undefined when the user chooses to send requests without a subscription key.
+     */
+    export async function askSubscriptionKey(root: IApiTreeRoot): Promise<string | undefined> {
+        const picks: ISubscriptionKeyPickItem[] = (await listApiSubscriptions(root)).map(s => {
+            const name = nonNullProp(s, "name");
+            return { label: s.displayName ? s.displayName : name, description: s.scope, subscriptionName: name };
+        });
+        picks.push({ label: localize("masterSubscription", "Built-in all-access subscription"), description: masterSubscriptionName, subscriptionName: masterSubscriptionName });
+        picks.push({ label: localize("noSubscription", "Don't use a subscription key") });
+
+        const pick = await ext.ui.showQuickPick(picks, { placeHolder: localize("selectSubscription", "Select a subscription for the request"), canPickMany: false });
+        if (pick.subscriptionName === undefined) {
+            return undefined;
+        } else if (pick.subscriptionName === masterSubscriptionName) {
+            return await getMasterSubscriptionKey(root);
+        } else {
+            const subscription = await root.client.subscription.get(root.resourceGroupName, root.serviceName, pick.subscriptionName);
+            return subscription.primaryKey;
+        }
+    }
+
+    /**
+     * Active subscriptions scoped to the API itself, to all APIs or to one of the products the API belongs to.
+     */
+    export async function listApiSubscriptions(root: IApiTreeRoot): Promise<ApiManagementModels.SubscriptionContract[]> {
+        const results = await Promise.all([
+            root.client.apiProduct.listByApis(root.resourceGroupName, root.serviceName, root.apiName),
+            listSubscriptions(root)]);
+
+        const scopes = [`/apis/${root.apiName}`.toLowerCase(), "/apis"];
+        results[0].forEach(product => scopes.push(`/products/${product.name}`.toLowerCase()));
+
+        return results[1].filter(subscription =>
+            subscription.state === "active"
+            && subscription.name !== masterSubscriptionName
+            && scopes.some(scope => subscription.scope.toLowerCase().endsWith(scope)));
+    }
+
+    async function listSubscriptions(root: IServiceTreeRoot): Promise<ApiManagementModels.SubscriptionContract[]> {
+        let subscriptionCollection = await root.client.subscription.list(root.resourceGroupName, root.serviceName);
+        const subscriptions: ApiManagementModels.SubscriptionContract[] = subscriptionCollection.slice();
+        while (subscriptionCollection.nextLink) {
+            subscriptionCollection = await root.client.subscription.listNext(subscriptionCollection.nextLink);
+            subscriptions.push(...subscriptionCollection);
+        }
+        return subscriptions;
+    }
+}
@@ -22,6 +22,13 @@ export function getWorkspaceSetting<T>(key: string, fsPath?: string, prefix: str
     return projectConfiguration.get<T>(key);
 }
 
+// The value in the workspace folder or workspace settings only, without the user settings merged in.
+export function getWorkspaceOnlySetting<T>(key: string, fsPath: string, prefix: string = extensionPrefix): T | undefined {
+    const projectConfiguration: WorkspaceConfiguration = workspace.getConfiguration(prefix, Uri.file(fsPath));
+    const result: { workspaceValue?: T, workspaceFolderValue?: T } | undefined = projectConfiguration.inspect<T>(key);
+    return result && (result.workspaceFolderValue !== undefined ? result.workspaceFolderValue : result.workspaceValue);
+}
+
 export async function updateWorkspaceSetting<T = string>(section: string, value: T, fsPath: string, prefix: string = extensionPrefix): Promise<void> {
     const projectConfiguration: WorkspaceConfiguration = workspace.getConfiguration(prefix, Uri.file(fsPath));
     await projectConfiguration.update(section, value);
@@ -0,0 +1,69 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { apiChangePreview, IApiChangeSet, IApiShape, IOpenApiDocument } from '../extension.bundle';
+
+// tslint:disable: no-any
+suite("API Change Preview", () => {
+    const operations: any[] = [
+        {
+            name: "get-pet", displayName: "Get pet", method: "GET", urlTemplate: "/pets/{petId}",
+            templateParameters: [{ name: "petId", type: "string", required: true }],
+            request: { queryParameters: [{ name: "fields", type: "string" }], headers: [{ name: "X-Trace", type: "string" }] },
+            responses: [{ statusCode: 200 }, { statusCode: 404 }]
+        },
+        { name: "delete-pet", displayName: "Delete pet", method: "DELETE", urlTemplate: "/pets/{petId}", templateParameters: [{ name: "petId", type: "string" }], responses: [{ statusCode: 204 }] }
+    ];
+    const schemas: any[] = [{ contentType: "application/vnd.oai.openapi.components+json", document: { components: { schemas: { Pet: { type: "object" }, Tag: { type: "string" } } } } }];
+
+    const document: IOpenApiDocument = {
+        openapi: "3.0.1",
+        paths: {
+            "/pets/{id}": {
+                parameters: [{ name: "id", in: "path", required: true }],
+                get: {
+                    parameters: [{ $ref: "#/components/parameters/Fields" }, { name: "x-trace", in: "header" }, { name: "limit", in: "query", required: true }],
+                    responses: { 200: { description: "OK" }, default: { description: "Error" } }
+                }
+            },
+            "/pets": {
+                post: { requestBody: { content: { "application/json": {} } }, responses: { 201: { description: "Created" } } }
+            }
+        },
+        components: {
+            parameters: { Fields: { name: "fields", in: "query", required: true } },
+            schemas: { Pet: { type: "object", required: ["name"] }, Owner: { type: "string" } }
+        }
+    };
+
+    test("Lists added, removed and modified operations and schemas", () => {
+        const current: IApiShape = apiChangePreview.getContractShape(operations, schemas);
+        const changes: IApiChangeSet = apiChangePreview.compare(current, apiChangePreview.getDocumentShape(document));
+
+        assert.deepEqual(changes.addedOperations.map(apiChangePreview.getOperationLabel), ["POST /pets"]);
+        assert.deepEqual(changes.removedOperations.map(o => o.name), ["delete-pet"]);
+        assert.deepEqual(changes.modifiedOperations.map(c => c.details), [[
+            "query parameter 'fields' is now required",
+            "required query parameter 'limit' added",
+            "response 404 removed"
+        ]]);
+        assert.deepEqual([changes.addedSchemas, changes.removedSchemas, changes.modifiedSchemas], [["Owner"], ["Tag"], ["Pet"]]);
+        assert.equal(apiChangePreview.compare(current, current).modifiedOperations.length, 0);
+        assert.ok(!apiChangePreview.hasChanges(apiChangePreview.compare(current, current)));
+    });
+
+    test("Calls out removed operations that have policies", () => {
+        const changes: IApiChangeSet = apiChangePreview.compare(apiChangePreview.getContractShape(operations, []), apiChangePreview.getDocumentShape({ swagger: "2.0", paths: {} }));
+        assert.equal(apiChangePreview.getReport("pets", changes, ["delete-pet"]), [
+            "Changes to API 'pets'",
+            "",
+            "Removed operations (2)",
+            "- GET /pets/{petId} (Get pet)",
+            "- DELETE /pets/{petId} (Delete pet) (its operation policy is deleted too)",
+            ""
+        ].join("\n"));
+    });
+});
@@ -0,0 +1,58 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { CodeSnippetGenerator, ConsoleOperation } from '../extension.bundle';
+
+suite("Code Snippet Generator", () => {
+    function createOperation(withSubscriptionKey: boolean = true): ConsoleOperation {
+        const operationContract: ConstructorParameters<typeof ConsoleOperation>[1] = {
+            displayName: "Create pet",
+            method: "post",
+            urlTemplate: "/pets",
+            request: {
+                representations: [{ contentType: "application/json", sample: `{"name":"o'neil"}` }]
+            }
+        };
+        const consoleOperation: ConsoleOperation = new ConsoleOperation("contoso.azure-api.net", operationContract, { subscriptionKey: withSubscriptionKey ? "key" : undefined });
+        consoleOperation.requestUrl = "https://contoso.azure-api.net/echo/pets";
+        return consoleOperation;
+    }
+
+    test("Generates curl", () => {
+        assert.equal(new CodeSnippetGenerator().generate("curl", createOperation()), [
+            "curl -X POST 'https://contoso.azure-api.net/echo/pets' \\",
+            "  -H 'Content-Type: application/json' \\",
+            "  -H 'Ocp-Apim-Subscription-Key: key' \\",
+            `  --data-raw '{"name":"o'\\''neil"}'`
+        ].join("\n"));
+    });
+
+    test("Generates PowerShell", () => {
+        assert.equal(new CodeSnippetGenerator().generate("powershell", createOperation()), [
+            "$headers = @{",
+            "    'Ocp-Apim-Subscription-Key' = 'key'",
+            "}",
+            "$body = @'",
+            `{"name":"o'neil"}`,
+            "'@",
+            "Invoke-RestMethod -Method Post -Uri 'https://contoso.azure-api.net/echo/pets' -Headers $headers -Body $body -ContentType 'application/json'"
+        ].join("\n"));
+    });
+
+    test("Generates JavaScript with escaped strings", () => {
+        const snippet: string = new CodeSnippetGenerator().generate("javascript", createOperation());
+        assert.ok(snippet.indexOf(`    body: "{\\"name\\":\\"o'neil\\"}"`) !== -1);
+        assert.ok(snippet.indexOf(`"Ocp-Apim-Trace"`) === -1);
+    });
+
+    test("Leaves out the subscription key header without a key", () => {
+        assert.equal(new CodeSnippetGenerator().generate("curl", createOperation(false)), [
+            "curl -X POST 'https://contoso.azure-api.net/echo/pets' \\",
+            "  -H 'Content-Type: application/json' \\",
+            `  --data-raw '{"name":"o'\\''neil"}'`
+        ].join("\n"));
+    });
+});
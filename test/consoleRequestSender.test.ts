@@ -0,0 +1,70 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as http from 'http';
+import { ConsoleOperation, ConsoleRequestSender, ConsoleResponse } from '../extension.bundle';
+
+// tslint:disable: no-unsafe-any
+suite("Console Request Sender", () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let lastRequest: { method?: string, url?: string, headers: http.IncomingHttpHeaders, body: string };
+
+    suiteSetup(async () => {
+        server = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
+            let body: string = "";
+            req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+            req.on('end', () => {
+                lastRequest = { method: req.method, url: req.url, headers: req.headers, body: body };
+                const statusCode: number = req.url === "/missing" ? 404 : 200;
+                res.writeHead(statusCode, { "Content-Type": "application/json", "x-stub": "true" });
+                res.end(JSON.stringify({ echo: body }));
+            });
+        });
+        await new Promise<void>((resolve: () => void): void => { server.listen(0, "127.0.0.1", resolve); });
+        // tslint:disable-next-line: no-http-string
+        baseUrl = `http://127.0.0.1:${(<{ port: number }>server.address()).port}`;
+    });
+
+    suiteTeardown(async () => {
+        await new Promise<void>((resolve: () => void): void => { server.close(resolve); });
+    });
+
+    function createOperation(method: string, path: string, sample?: string): ConsoleOperation {
+        const consoleOperation: ConsoleOperation = new ConsoleOperation("127.0.0.1", {
+            displayName: "echo",
+            method: method,
+            urlTemplate: path,
+            request: {
+                headers: [{ name: "x-required", type: "string", required: true, defaultValue: "value" }],
+                representations: sample ? [{ contentType: "application/json", sample: sample }] : []
+            }
+        });
+        consoleOperation.requestUrl = `${baseUrl}${path}`;
+        return consoleOperation;
+    }
+
+    test("Sends method, headers and body", async () => {
+        const response: ConsoleResponse = await new ConsoleRequestSender().send(createOperation("post", "/echo", '{"id":1}'));
+        assert.equal(lastRequest.method, "POST");
+        assert.equal(lastRequest.url, "/echo");
+        assert.equal(lastRequest.headers["x-required"], "value");
+        assert.equal(lastRequest.headers["content-type"], "application/json");
+        assert.equal(lastRequest.headers["ocp-apim-trace"], "true");
+        assert.equal(lastRequest.body, '{"id":1}');
+        assert.equal(response.statusCode, 200);
+        assert.equal(response.getHeaderValue("X-Stub"), "true");
+        assert.deepEqual(JSON.parse(response.body), { echo: '{"id":1}' });
+        assert.ok(response.elapsed >= 0);
+    });
+
+    test("Returns non success status codes", async () => {
+        const response: ConsoleResponse = await new ConsoleRequestSender().send(createOperation("get", "/missing"));
+        assert.equal(lastRequest.body, "");
+        assert.equal(response.statusCode, 404);
+        assert.ok(response.toDisplayString().startsWith("HTTP/1.1 404"));
+    });
+});
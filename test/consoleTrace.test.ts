@@ -0,0 +1,51 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { ConsoleTrace } from '../extension.bundle';
+
+// tslint:disable: no-unsafe-any no-any
+suite("Console Trace", () => {
+    const trace: any = {
+        traceId: "2d4b0c1f",
+        traceEntries: {
+            inbound: [
+                { source: "api-inspector", timestamp: "2020-01-01T00:00:00.0000000Z", elapsed: "00:00:00.0010000", data: { request: { method: "GET" } } },
+                { source: "set-header", timestamp: "2020-01-01T00:00:00.0020000Z", elapsed: "00:00:00.0025000", data: { message: "Specified value was assigned to the header." } }
+            ],
+            backend: [
+                { source: "forward-request", timestamp: "2020-01-01T00:00:01.0000000Z", elapsed: "00:00:01.2500000", data: { error: { message: "Backend service unreachable." } } }
+            ],
+            "on-error": [
+                { source: "set-status", timestamp: "2020-01-01T00:00:01.3000000Z", elapsed: "00:00:01.3000000", data: { message: "Response status code was set to 500." } }
+            ]
+        }
+    };
+
+    test("Parses sections in pipeline order", async () => {
+        const consoleTrace: ConsoleTrace = new ConsoleTrace(trace);
+        assert.equal(consoleTrace.traceId, "2d4b0c1f");
+        assert.deepEqual(consoleTrace.sections.map(s => s.name), ["inbound", "backend", "on-error"]);
+        assert.deepEqual(consoleTrace.sections[0].entries.map(e => e.source), ["api-inspector", "set-header"]);
+    });
+
+    test("Parses elapsed time span", async () => {
+        const consoleTrace: ConsoleTrace = new ConsoleTrace(trace);
+        assert.equal(consoleTrace.sections[0].entries[1].elapsed, 2.5);
+        assert.equal(consoleTrace.sections[1].entries[0].elapsed, 1250);
+    });
+
+    test("Detects errors", async () => {
+        const consoleTrace: ConsoleTrace = new ConsoleTrace(trace);
+        assert.equal(consoleTrace.sections[0].hasErrors, false);
+        assert.equal(consoleTrace.sections[1].entries[0].error, "Backend service unreachable.");
+        assert.equal(consoleTrace.sections[2].entries[0].error, "Response status code was set to 500.");
+    });
+
+    test("Handles empty trace", async () => {
+        const consoleTrace: ConsoleTrace = new ConsoleTrace({});
+        assert.equal(consoleTrace.sections.length, 0);
+    });
+});
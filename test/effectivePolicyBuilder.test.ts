@@ -0,0 +1,107 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { EffectivePolicyBuilder, IScopedPolicy } from '../extension.bundle';
+
+suite("Effective Policy Builder", () => {
+    const policies: IScopedPolicy[] = [
+        {
+            label: "Global",
+            xml: [
+                "<policies>",
+                "    <inbound>",
+                "        <cors>",
+                "            <allowed-origins><origin>*</origin></allowed-origins>",
+                "        </cors>",
+                "    </inbound>",
+                "    <backend>",
+                "        <forward-request />",
+                "    </backend>",
+                "    <outbound />",
+                "    <on-error />",
+                "</policies>"
+            ].join("\n")
+        },
+        {
+            label: "Product 'starter'",
+            xml: "<policies>\n\t<inbound>\n\t\t<rate-limit calls=\"5\" renewal-period=\"60\" />\n\t\t<base />\n\t</inbound>\n\t<backend><base /></backend>\n\t<outbound><base /></outbound>\n\t<on-error><base /></on-error>\n</policies>"
+        },
+        {
+            label: "API 'echo-api'",
+            xml: [
+                "<policies>",
+                "    <inbound>",
+                "        <base /><set-header name=\"x-api\" exists-action=\"override\"><value>echo</value></set-header>",
+                "    </inbound>",
+                "    <backend>",
+                "        <base />",
+                "    </backend>",
+                "    <outbound>",
+                "        <set-status code=\"200\" reason=\"OK\" />",
+                "    </outbound>",
+                "    <on-error>",
+                "        <base />",
+                "    </on-error>",
+                "</policies>"
+            ].join("\n")
+        },
+        {
+            label: "Operation 'get'",
+            xml: "<policies>\n    <inbound>\n        <base />\n        <set-query-parameter name=\"id\" exists-action=\"skip\">\n            <value>1</value>\n        </set-query-parameter>\n    </inbound>\n    <backend>\n        <base />\n    </backend>\n    <outbound>\n        <base />\n    </outbound>\n</policies>"
+        }
+    ];
+
+    test("Expands <base /> with the section of the enclosing scope at each scope", () => {
+        assert.equal(new EffectivePolicyBuilder().build(policies), [
+            "<policies>",
+            "    <inbound>",
+            "        <!-- Operation 'get' -->",
+            "        <!-- API 'echo-api' -->",
+            "        <!-- Product 'starter' -->",
+            "        <rate-limit calls=\"5\" renewal-period=\"60\" />",
+            "        <!-- Global -->",
+            "        <cors>",
+            "            <allowed-origins><origin>*</origin></allowed-origins>",
+            "        </cors>",
+            "        <!-- end of Global -->",
+            "        <!-- end of Product 'starter' -->",
+            "        <set-header name=\"x-api\" exists-action=\"override\"><value>echo</value></set-header>",
+            "        <!-- end of API 'echo-api' -->",
+            "        <set-query-parameter name=\"id\" exists-action=\"skip\">",
+            "            <value>1</value>",
+            "        </set-query-parameter>",
+            "        <!-- end of Operation 'get' -->",
+            "    </inbound>",
+            "    <backend>",
+            "        <!-- Operation 'get' -->",
+            "        <!-- API 'echo-api' -->",
+            "        <!-- Product 'starter' -->",
+            "        <!-- Global -->",
+            "        <forward-request />",
+            "        <!-- end of Global -->",
+            "        <!-- end of Product 'starter' -->",
+            "        <!-- end of API 'echo-api' -->",
+            "        <!-- end of Operation 'get' -->",
+            "    </backend>",
+            "    <outbound>",
+            "        <!-- Operation 'get' -->",
+            "        <!-- API 'echo-api' -->",
+            "        <set-status code=\"200\" reason=\"OK\" />",
+            "        <!-- end of API 'echo-api' -->",
+            "        <!-- end of Operation 'get' -->",
+            "    </outbound>",
+            "    <on-error>",
+            "        <!-- Operation 'get' -->",
+            "        <!-- end of Operation 'get' -->",
+            "    </on-error>",
+            "</policies>"
+        ].join("\n"));
+    });
+
+    test("Rejects a scope without a policy document", () => {
+        assert.throws(() => new EffectivePolicyBuilder().build([{ label: "API 'echo-api'", xml: "<inbound />" }]), /The policy of API 'echo-api' isn't a valid policy document\./);
+    });
+});
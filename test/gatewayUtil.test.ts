@@ -0,0 +1,41 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { ApiManagementModels } from 'azure-arm-apimanagement';
+import { gatewayUtil } from '../extension.bundle';
+import { IGatewayContract } from '../src/azure/apim/contracts';
+
+suite("Gateway Util", () => {
+    test("Managed gateway, custom proxy hostnames and self-hosted gateways", () => {
+        const service: ApiManagementModels.ApiManagementServiceResource = <ApiManagementModels.ApiManagementServiceResource>{
+            gatewayUrl: "https://contoso.azure-api.net",
+            hostnameConfigurations: [
+                { type: "Proxy", hostName: "api.contoso.com" },
+                { type: "Management", hostName: "management.contoso.com" }
+            ]
+        };
+        const gateways: IGatewayContract[] = [<IGatewayContract>{ name: "onprem" }];
+        const picks: gatewayUtil.IGatewayPickItem[] = gatewayUtil.getGatewayPicks(service, gateways);
+        assert.deepEqual(picks.map(p => [p.label, p.gatewayUrl, p.gatewayName]), [
+            ["Managed gateway", undefined, undefined],
+            ["api.contoso.com", "https://api.contoso.com", undefined],
+            ["onprem", undefined, "onprem"]
+        ]);
+        assert.equal(picks[0].description, "https://contoso.azure-api.net");
+    });
+
+    test("Only the managed gateway", () => {
+        const service: ApiManagementModels.ApiManagementServiceResource = <ApiManagementModels.ApiManagementServiceResource>{ gatewayUrl: "https://contoso.azure-api.net" };
+        assert.equal(gatewayUtil.getGatewayPicks(service, []).length, 1);
+    });
+
+    test("Self-hosted gateway addresses", () => {
+        // tslint:disable: no-http-string
+        assert.equal(gatewayUtil.getSelfHostedGatewayUrl(gatewayUtil.defaultSelfHostedGatewayAddress), "http://localhost:8080");
+        assert.equal(gatewayUtil.getSelfHostedGatewayUrl(" localhost:8081/ "), "http://localhost:8081");
+        assert.equal(gatewayUtil.getSelfHostedGatewayUrl("https://gateway.contoso.com/"), "https://gateway.contoso.com");
+    });
+});
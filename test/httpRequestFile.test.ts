@@ -0,0 +1,61 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { HttpRequestFile } from '../extension.bundle';
+
+suite("Http Request File", () => {
+    const existing: string = [
+        "# @name createPet",
+        "# my notes",
+        "",
+        "POST https://{{host}}/pets?limit=5&debug=true HTTP/1.1",
+        "Ocp-Apim-Subscription-Key: {{subscriptionKey}}",
+        "X-Custom: mine",
+        "",
+        '{ "name": "rex" }',
+        "",
+        "###",
+        "GET https://{{host}}/pets HTTP/1.1",
+        ""
+    ].join("\n");
+
+    test("Parses and serializes a request", () => {
+        const file: HttpRequestFile = HttpRequestFile.parse(existing);
+        assert.deepEqual(file.preamble, ["# @name createPet", "# my notes"]);
+        assert.equal(file.method, "POST");
+        assert.equal(file.url, "https://{{host}}/pets?limit=5&debug=true");
+        assert.equal(file.headers.length, 2);
+        const header: { value: string } | undefined = file.getHeader("x-custom");
+        assert.equal(header ? header.value : undefined, "mine");
+        assert.equal(file.body, '{ "name": "rex" }');
+        assert.equal(file.toString(), existing);
+    });
+
+    test("Merges a regenerated request and keeps hand edits", () => {
+        const generated: HttpRequestFile = HttpRequestFile.parse([
+            "# @name createPet",
+            "PUT https://{{host}}/v2/pets?limit=10&owner=me HTTP/1.1",
+            "Ocp-Apim-Subscription-Key: {{subscriptionKey}}",
+            "Content-Type: application/json",
+            "",
+            '{ "name": "string" }'
+        ].join("\n"));
+
+        const merged: HttpRequestFile = HttpRequestFile.parse(existing).merge(generated);
+        assert.deepEqual(merged.preamble, ["# @name createPet", "# my notes"]);
+        assert.equal(merged.method, "PUT");
+        assert.equal(merged.url, "https://{{host}}/v2/pets?limit=5&owner=me&debug=true");
+        assert.deepEqual(merged.headers.map((h: { name: string }) => h.name), ["Ocp-Apim-Subscription-Key", "X-Custom", "Content-Type"]);
+        assert.equal(merged.body, '{ "name": "rex" }');
+        assert.equal(merged.trailer, "###\nGET https://{{host}}/pets HTTP/1.1");
+    });
+
+    test("Takes the generated body when the existing one is empty", () => {
+        const merged: HttpRequestFile = HttpRequestFile.parse("GET https://{{host}}/pets HTTP/1.1\n").merge(HttpRequestFile.parse("GET https://{{host}}/pets HTTP/1.1\n\n{}"));
+        assert.equal(merged.body, "{}");
+        assert.equal(merged.toString(), "GET https://{{host}}/pets HTTP/1.1\n\n{}\n");
+    });
+});
@@ -0,0 +1,92 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as http from 'http';
+import * as querystring from 'querystring';
+import { CancellationTokenSource } from 'vscode';
+import { IDeviceCode, IOAuthServerSettings, OAuthTokenProvider, UserCancelledError } from '../extension.bundle';
+import { assertThrowsAsync } from './assertThrowsAsync';
+
+// tslint:disable: no-unsafe-any
+suite("OAuth Token Provider", () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let tokenRequests: querystring.ParsedUrlQuery[];
+    let pendingPolls: number;
+
+    suiteSetup(async () => {
+        server = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
+            let body: string = "";
+            req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+            req.on('end', () => {
+                const form: querystring.ParsedUrlQuery = querystring.parse(body);
+                res.setHeader("Content-Type", "application/json");
+                if (req.url === "/devicecode") {
+                    res.end(JSON.stringify({ device_code: "device-123", user_code: "ABCD", verification_uri: "https://login.example.com/device", interval: 0, expires_in: 60 }));
+                } else if (form.client_secret === "wrong") {
+                    res.statusCode = 401;
+                    res.end(JSON.stringify({ error: "invalid_client", error_description: "Bad secret" }));
+                } else if (form.grant_type === "urn:ietf:params:oauth:grant-type:device_code" && pendingPolls-- > 0) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ error: "authorization_pending" }));
+                } else {
+                    tokenRequests.push(form);
+                    res.end(JSON.stringify({ access_token: `token-${tokenRequests.length}`, expires_in: 3600 }));
+                }
+            });
+        });
+        await new Promise<void>((resolve: () => void): void => { server.listen(0, "127.0.0.1", resolve); });
+        // tslint:disable-next-line: no-http-string
+        baseUrl = `http://127.0.0.1:${(<{ port: number }>server.address()).port}`;
+    });
+
+    suiteTeardown(async () => {
+        await new Promise<void>((resolve: () => void): void => { server.close(resolve); });
+    });
+
+    setup(() => {
+        tokenRequests = [];
+        pendingPolls = 0;
+        OAuthTokenProvider.clearCache();
+    });
+
+    function createSettings(clientSecret?: string): IOAuthServerSettings {
+        return { tokenEndpoint: `${baseUrl}/token`, deviceAuthorizationEndpoint: `${baseUrl}/devicecode`, clientId: "client", clientSecret: clientSecret, scope: "api://echo/.default" };
+    }
+
+    test("Gets and caches a client credentials token", async () => {
+        const provider: OAuthTokenProvider = new OAuthTokenProvider();
+        assert.equal(await provider.getClientCredentialsToken(createSettings("secret")), "token-1");
+        assert.equal(await provider.getClientCredentialsToken(createSettings("secret")), "token-1");
+        assert.equal(tokenRequests.length, 1);
+        assert.equal(tokenRequests[0].grant_type, "client_credentials");
+        assert.equal(tokenRequests[0].client_id, "client");
+        assert.equal(tokenRequests[0].client_secret, "secret");
+        assert.equal(tokenRequests[0].scope, "api://echo/.default");
+    });
+
+    test("Reports token endpoint errors", async () => {
+        await assertThrowsAsync(async () => new OAuthTokenProvider().getClientCredentialsToken(createSettings("wrong")), /401: Bad secret/);
+    });
+
+    test("Polls for a device code token", async () => {
+        pendingPolls = 2;
+        let deviceCode: IDeviceCode | undefined;
+        const token: string = await new OAuthTokenProvider().getDeviceCodeToken(createSettings(), (code: IDeviceCode) => { deviceCode = code; });
+        assert.equal(token, "token-1");
+        assert.deepEqual(deviceCode, { userCode: "ABCD", verificationUri: "https://login.example.com/device", message: undefined });
+        assert.equal(tokenRequests[0].device_code, "device-123");
+        assert.equal(pendingPolls, -1);
+    });
+
+    test("Stops polling for a device code token when cancelled", async () => {
+        pendingPolls = 100;
+        const cancellation: CancellationTokenSource = new CancellationTokenSource();
+        await assertThrowsAsync(async () => new OAuthTokenProvider().getDeviceCodeToken(createSettings(), () => { cancellation.cancel(); }, cancellation.token), UserCancelledError);
+        assert.equal(pendingPolls, 100);
+        assert.equal(tokenRequests.length, 0);
+    });
+});
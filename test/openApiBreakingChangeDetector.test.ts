@@ -0,0 +1,79 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { IOpenApiChange, IOpenApiDocument, OpenApiBreakingChangeDetector } from '../extension.bundle';
+
+// tslint:disable: no-any
+suite("OpenAPI Breaking Change Detector", () => {
+    const deployed: IOpenApiDocument = {
+        openapi: "3.0.1",
+        paths: {
+            "/pets": {
+                get: {
+                    parameters: [{ name: "status", in: "query", schema: { type: "string", enum: ["available", "pending", "sold"] } }],
+                    responses: { 200: { description: "OK", content: { "application/json": { schema: { type: "array", items: { $ref: "#/components/schemas/Pet" } } } } } }
+                }
+            },
+            "/pets/{petId}": {
+                get: { responses: { 200: { description: "OK", content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } } } } },
+                delete: { responses: { 204: { description: "Deleted" } } }
+            }
+        },
+        components: {
+            schemas: { Pet: { type: "object", required: ["name"], properties: { name: { type: "string" }, age: { type: "integer" } } } }
+        }
+    };
+
+    test("Classifies breaking and additive changes", () => {
+        const incoming: any = {
+            swagger: "2.0",
+            produces: ["application/json"],
+            paths: {
+                "/pets": {
+                    get: {
+                        parameters: [
+                            { name: "status", in: "query", type: "string", enum: ["available", "sold"] },
+                            { name: "limit", in: "query", type: "integer", required: true },
+                            { name: "offset", in: "query", type: "integer" }
+                        ],
+                        responses: { 200: { description: "OK", schema: { type: "array", items: { $ref: "#/definitions/Pet" } } } }
+                    },
+                    post: { responses: { 201: { description: "Created" } } }
+                },
+                "/pets/{id}": {
+                    get: { responses: { 200: { description: "OK", schema: { $ref: "#/definitions/Pet" } } } }
+                }
+            },
+            definitions: { Pet: { type: "object", required: ["name"], properties: { name: { type: "string" }, age: { type: "string" }, tag: { type: "string" } } } }
+        };
+
+        const changes: IOpenApiChange[] = new OpenApiBreakingChangeDetector(deployed, <IOpenApiDocument>incoming).detect();
+        assert.deepEqual(changes.filter(c => c.breaking).map(c => `${c.operation}: ${c.message}`), [
+            `GET /pets: query parameter 'status' no longer allows "pending"`,
+            "GET /pets: required query parameter 'limit' added",
+            "GET /pets: type of response 200[].age changed from integer to string",
+            "GET /pets/{id}: type of response 200.age changed from integer to string",
+            "DELETE /pets/{petId}: operation removed"
+        ]);
+        assert.deepEqual(changes.filter(c => !c.breaking).map(c => `${c.operation}: ${c.message}`), [
+            "GET /pets: query parameter 'offset' added",
+            "GET /pets: property response 200[].tag added",
+            "GET /pets/{id}: property response 200.tag added",
+            "POST /pets: operation added"
+        ]);
+    });
+
+    test("Reports no changes for the same document", () => {
+        const changes: IOpenApiChange[] = new OpenApiBreakingChangeDetector(deployed, deployed).detect();
+        assert.deepEqual(changes, []);
+        assert.equal(OpenApiBreakingChangeDetector.getReport(changes), "No operations, parameters or schemas change.\n");
+        assert.equal(OpenApiBreakingChangeDetector.getReport([{ breaking: true, operation: "DELETE /pets/{petId}", message: "operation removed" }]), [
+            "Breaking changes (1)",
+            "! DELETE /pets/{petId}: operation removed",
+            ""
+        ].join("\n"));
+    });
+});
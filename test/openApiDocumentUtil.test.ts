@@ -0,0 +1,34 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { openApiDocumentUtil } from '../extension.bundle';
+
+suite("OpenAPI Document", () => {
+    test("Reads JSON and YAML documents", () => {
+        const yamlDocument: string = [
+            'openapi: 3.0.1',
+            'info:',
+            '  title: Echo',
+            '  version: 2019-01-01',
+            'paths: {}'
+        ].join("\n");
+        const expected: {} = { openapi: "3.0.1", info: { title: "Echo", version: "2019-01-01" }, paths: {} };
+
+        assert.deepEqual(openApiDocumentUtil.parse(yamlDocument, "c:\\specs\\echo.yml"), expected);
+        assert.deepEqual(openApiDocumentUtil.parse(yamlDocument, "https://contoso.com/echo?format=openapi"), expected);
+        assert.deepEqual(openApiDocumentUtil.parse(JSON.stringify(expected)), expected);
+        assert.equal(openApiDocumentUtil.detectFormat("{}", "https://contoso.com/echo.yaml?v=1"), "yaml");
+        assert.throws(() => <{}>openApiDocumentUtil.parse("info: [", "echo.yaml"), /isn't valid YAML/);
+        assert.throws(() => <{}>openApiDocumentUtil.parse("- a", "echo.yaml"), /must be an object/);
+    });
+
+    test("Writes YAML that reads back the same", () => {
+        const document: {} = { swagger: "2.0", info: { title: "Echo", version: "1.0", description: "Line one\nLine two" }, paths: { "/echo": { get: { responses: { 200: { description: "OK" } } } } } };
+        const yamlDocument: string = openApiDocumentUtil.stringify(document, "yaml");
+        assert.ok(yamlDocument.startsWith("swagger: '2.0'\n"));
+        assert.deepEqual(openApiDocumentUtil.parse(yamlDocument, "echo.yaml"), document);
+    });
+});
@@ -0,0 +1,80 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { IOpenApiDocument, IOpenApiLintProblem, openApiDocumentUtil, OpenApiLinter } from '../extension.bundle';
+
+suite("OpenAPI Linter", () => {
+    const text: string = [
+        "openapi: 3.0.1",
+        "info:",
+        "  title: Pets",
+        "  version: '1.0'",
+        "paths:",
+        "  /pets:",
+        "    get:",
+        "      operationId: listPets",
+        "      summary: List pets",
+        "      responses:",
+        "        '200':",
+        "          description: OK",
+        "          content:",
+        "            application/json:",
+        "              schema:",
+        "                type: object",
+        "                properties:",
+        "                  name:",
+        "                    type: string",
+        "    post:",
+        "      operationId: listPets",
+        "      responses:",
+        "        '201':",
+        "          description: Created",
+        "components:",
+        "  securitySchemes:",
+        "    oauth:",
+        "      type: oauth2",
+        "    key:",
+        "      type: apiKey",
+        "      in: header",
+        "      name: Ocp-Apim-Subscription-Key",
+        ""
+    ].join("\n");
+
+    function summarize(problems: IOpenApiLintProblem[]): string[] {
+        return problems.map(p => `${p.severity} ${p.rule} ${text.substring(p.start, p.end)}`);
+    }
+
+    test("Reports the problems of the recommended rules at their keys", () => {
+        const problems: IOpenApiLintProblem[] = new OpenApiLinter().lint(<IOpenApiDocument>openApiDocumentUtil.parse(text, "pets.yaml"), text);
+        assert.deepEqual(summarize(problems), [
+            "information description info",
+            "error operation-id-unique operationId",
+            "information description post",
+            "warning servers openapi",
+            "information inline-schema schema",
+            "warning security-scheme oauth"
+        ]);
+        assert.equal(problems[1].start, text.indexOf("operationId: listPets", text.indexOf("post:")));
+    });
+
+    test("Applies the rule set and rule overrides of the configuration", () => {
+        const linter: OpenApiLinter = new OpenApiLinter({ ruleSet: "strict", rules: { description: "off", "inline-schema": "error" } });
+        const json: string = JSON.stringify(openApiDocumentUtil.parse(text, "pets.yaml"), null, "\t");
+        const problems: IOpenApiLintProblem[] = linter.lint(<IOpenApiDocument>JSON.parse(json), json);
+        assert.deepEqual(problems.map(p => `${p.severity} ${p.rule} ${json.substring(p.start, p.end)}`), [
+            "error operation-id-unique \"operationId\"",
+            "error servers \"openapi\"",
+            "error inline-schema \"schema\"",
+            "error security-scheme \"oauth\""
+        ]);
+    });
+
+    test("Rejects unknown rule sets, rules and severities", () => {
+        assert.throws(() => new OpenApiLinter({ ruleSet: "loose" }), /Unknown rule set 'loose'/);
+        assert.throws(() => new OpenApiLinter({ rules: { "operation-name": "error" } }), /Unknown rule 'operation-name'/);
+        assert.throws(() => new OpenApiLinter({ rules: { servers: <"error">"fatal" } }), /severity of rule 'servers'/);
+    });
+});
@@ -0,0 +1,56 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as path from 'path';
+import { IOpenApiReference, OpenApiReferenceChecker } from '../extension.bundle';
+import { assertThrowsAsync } from './assertThrowsAsync';
+
+const root: string = path.resolve("/specs/main.yaml");
+const pet: string = path.resolve("/specs/components/pet.yaml");
+const tag: string = path.resolve("/specs/components/tag.yaml");
+
+const files: { [location: string]: string } = {
+    [pet]: "Pet:\n  type: object\n  properties:\n    owner:\n      $ref: '#/Owner'\n    tag:\n      $ref: 'tag.yaml#/Tag'\nOwner:\n  type: string\n",
+    [tag]: "Tag:\n  type: string\n",
+    ["https://contoso.com/specs/components/pet.json"]: '{ "Pet": { "type": "object" } }'
+};
+
+async function read(location: string): Promise<string> {
+    const text: string | undefined = files[location];
+    if (text === undefined) {
+        throw new Error("File not found.");
+    }
+    return text;
+}
+
+function createDocument(ref: string): {} {
+    return { openapi: "3.0.1", paths: { "/pets": { get: { responses: { 200: { description: "OK", content: { "application/json": { schema: { $ref: ref } } } } } } } } };
+}
+
+suite("OpenAPI Reference Checker", () => {
+    test("Follows references into other files", async () => {
+        const references: IOpenApiReference[] = await new OpenApiReferenceChecker(read).check(createDocument("components/pet.yaml#/Pet"), root);
+        assert.deepEqual(references, [
+            { ref: "components/pet.yaml#/Pet", source: root, target: pet },
+            { ref: "tag.yaml#/Tag", source: pet, target: tag }
+        ]);
+
+        const linkReferences: IOpenApiReference[] = await new OpenApiReferenceChecker(read).check(createDocument("components/pet.json#/Pet"), "https://contoso.com/specs/api.yaml");
+        assert.equal(linkReferences[0].target, "https://contoso.com/specs/components/pet.json");
+        assert.deepEqual(await new OpenApiReferenceChecker(read).check({ ...createDocument("#/components/schemas/Pet"), components: { schemas: { Pet: {} } } }, root), []);
+    });
+
+    test("Names the reference that can't be resolved and its file", async () => {
+        await assertThrowsAsync(async () => new OpenApiReferenceChecker(read).check(createDocument("components/owner.yaml"), root), /The reference 'components\/owner.yaml' in '.*main.yaml' couldn't be resolved, because '.*owner.yaml' couldn't be read: File not found./);
+        await assertThrowsAsync(async () => new OpenApiReferenceChecker(read).check(createDocument("components/pet.yaml#/Cat"), root), /'.*pet.yaml' has nothing at '\/Cat'/);
+        files[tag] = "Tag: [";
+        try {
+            await assertThrowsAsync(async () => new OpenApiReferenceChecker(read).check(createDocument("components/pet.yaml#/Pet"), root), /The reference 'tag.yaml#\/Tag' in '.*pet.yaml' couldn't be resolved. The OpenAPI document isn't valid YAML/);
+        } finally {
+            files[tag] = "Tag:\n  type: string\n";
+        }
+    });
+});
@@ -0,0 +1,59 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { IOperationTestResult, OperationTestSuite } from '../extension.bundle';
+
+suite("Operation Test Suite", () => {
+    function createResult(name: string, statusCode: number, expectedStatusCodes: number[]): IOperationTestResult {
+        return {
+            name: name,
+            method: "GET",
+            // tslint:disable-next-line: no-http-string
+            requestUrl: `http://contoso.azure-api.net/${name}`,
+            statusCode: statusCode,
+            expectedStatusCodes: expectedStatusCodes,
+            elapsed: 12,
+            passed: OperationTestSuite.isExpectedStatusCode(statusCode, expectedStatusCodes)
+        };
+    }
+
+    test("Expected status codes come from documented responses", () => {
+        const expected: number[] = OperationTestSuite.getExpectedStatusCodes({ displayName: "op", method: "GET", urlTemplate: "/", responses: [{ statusCode: 201 }, { statusCode: 404 }] });
+        assert.deepEqual(expected, [201]);
+        assert.equal(OperationTestSuite.isExpectedStatusCode(201, expected), true);
+        assert.equal(OperationTestSuite.isExpectedStatusCode(200, expected), false);
+        assert.equal(OperationTestSuite.isExpectedStatusCode(204, []), true);
+        assert.equal(OperationTestSuite.isExpectedStatusCode(500, []), false);
+    });
+
+    test("Runs with limited concurrency and keeps the order of the results", async () => {
+        const testSuite: OperationTestSuite = new OperationTestSuite("echo");
+        let running: number = 0;
+        let maxRunning: number = 0;
+        await testSuite.run([30, 10, 20, 5, 15], 2, async (delay: number) => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise<void>((resolve: () => void): void => { setTimeout(resolve, delay); });
+            running--;
+            return createResult(String(delay), 200, []);
+        });
+
+        assert.equal(maxRunning, 2);
+        assert.deepEqual(testSuite.results.map((r: IOperationTestResult) => r.name), ["30", "10", "20", "5", "15"]);
+    });
+
+    test("Exports failures as JUnit XML", async () => {
+        const testSuite: OperationTestSuite = new OperationTestSuite("echo & co");
+        await testSuite.run([200, 500], 4, async (statusCode: number) => createResult(`op${statusCode}`, statusCode, [200]));
+
+        const xml: string = testSuite.toJUnitXml();
+        assert.equal(testSuite.failures, 1);
+        assert.ok(xml.indexOf('<testsuite name="echo &amp; co" tests="2" failures="1" time="0.024">') !== -1);
+        assert.ok(xml.indexOf('<testcase classname="echo &amp; co" name="GET op200" time="0.012"/>') !== -1);
+        assert.ok(xml.indexOf('<failure message="Unexpected status code 500">') !== -1);
+        assert.ok(testSuite.toSummaryString().startsWith("echo & co: 1 passed, 1 failed"));
+    });
+});
@@ -0,0 +1,34 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { parameterUtil } from '../extension.bundle';
+
+suite("Parameter Util", () => {
+    function createParameter(typeName: string, required: boolean = false, values: string[] = []): parameterUtil.IParameter {
+        return { name: "top", type: typeName, required, values };
+    }
+
+    test("Required parameters", () => {
+        assert.equal(parameterUtil.validateValue(createParameter("string", true), ""), "'top' is required.");
+        assert.equal(parameterUtil.validateValue(createParameter("integer"), ""), undefined);
+    });
+
+    test("Allowed values", () => {
+        const parameter: parameterUtil.IParameter = createParameter("string", true, ["asc", "desc"]);
+        assert.equal(parameterUtil.validateValue(parameter, "desc"), undefined);
+        assert.equal(parameterUtil.validateValue(parameter, "up"), "'top' must be one of: asc, desc.");
+    });
+
+    test("Types", () => {
+        assert.equal(parameterUtil.validateValue(createParameter("integer"), "-10"), undefined);
+        assert.equal(parameterUtil.validateValue(createParameter("Int"), "1.5"), "'top' must be an integer.");
+        assert.equal(parameterUtil.validateValue(createParameter("number"), "1.5e3"), undefined);
+        assert.equal(parameterUtil.validateValue(createParameter("double"), " "), "'top' must be a number.");
+        assert.equal(parameterUtil.validateValue(createParameter("boolean"), "True"), undefined);
+        assert.equal(parameterUtil.validateValue(createParameter("boolean"), "yes"), "'top' must be true or false.");
+        assert.equal(parameterUtil.validateValue(createParameter(""), "anything"), undefined);
+    });
+});
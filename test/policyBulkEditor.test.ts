@@ -0,0 +1,50 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { IPolicyBulkResult, PolicyBulkEditor } from '../extension.bundle';
+
+suite("Policy Bulk Editor", () => {
+    const policy: string = [
+        '<policies>',
+        '    <inbound>',
+        '        <base />',
+        '        <set-header name="x-env" exists-action="override">',
+        '            <value>dev</value>',
+        '        </set-header>',
+        '    </inbound>',
+        '    <outbound />',
+        '</policies>'
+    ].join("\n");
+
+    test("Inserts into sections once", () => {
+        const editor: PolicyBulkEditor = new PolicyBulkEditor();
+        const result: IPolicyBulkResult = editor.apply(policy, { target: 'inbound', action: 'insert', xml: '<rate-limit calls="5" renewal-period="60" />' });
+        assert.equal(result.text, policy.replace('        </set-header>\n', '        </set-header>\n        <rate-limit calls="5" renewal-period="60" />\n'));
+        assert.equal(editor.apply(result.text, { target: 'inbound', action: 'insert', xml: '<rate-limit calls="5" renewal-period="60" />' }).changes, 0);
+
+        assert.equal(
+            editor.apply(policy, { target: '/policies/outbound', action: 'insert', xml: '<base />' }).text,
+            policy.replace('    <outbound />', '    <outbound>\n        <base />\n    </outbound>'));
+    });
+
+    test("Replaces and removes elements matched by attribute", () => {
+        const editor: PolicyBulkEditor = new PolicyBulkEditor();
+        assert.equal(
+            editor.apply(policy, { target: "//set-header[@name='x-env']/value", action: 'replace', xml: '<value>prod</value>' }).text,
+            policy.replace('dev', 'prod'));
+
+        const removed: IPolicyBulkResult = editor.apply(policy, { target: '//set-header[@name="x-env"]', action: 'remove' });
+        assert.equal(removed.text, policy.replace(/ {8}<set-header[\s\S]*<\/set-header>\n/, ''));
+        assert.equal(editor.apply(policy, { target: "//set-header[@name='other']", action: 'remove' }).matches, 0);
+    });
+
+    test("Rejects invalid targets and XML", () => {
+        const editor: PolicyBulkEditor = new PolicyBulkEditor();
+        assert.throws(() => PolicyBulkEditor.parsePath('inbound//'), /isn't valid at '\/\/'/);
+        assert.throws(() => PolicyBulkEditor.parsePath('inbound[@name=x]'), /invalid condition/);
+        assert.throws(() => editor.apply(policy, { target: 'inbound', action: 'insert', xml: '<base>' }), /isn't well-formed/);
+    });
+});
@@ -0,0 +1,46 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { IPolicyError, IXmlProblem, policyErrorUtil } from '../extension.bundle';
+
+suite("Policy Error Util", () => {
+    const policy: string = [
+        "<policies>",
+        "    <inbound>",
+        "        <set-header name=\"x-id\" exists-action=\"replace\" />",
+        "    </inbound>",
+        "</policies>"
+    ].join("\n");
+
+    test("Parses validation error details", () => {
+        const body: string = JSON.stringify({
+            error: {
+                code: "ValidationError",
+                message: "One or more fields contain incorrect values:",
+                details: [
+                    { code: "ValidationError", target: "set-header", message: "Error in element 'set-header' on line 3, column 9: exists-action is invalid" },
+                    { code: "ValidationError", target: "representation", message: "Request representation is invalid" }
+                ]
+            }
+        });
+        assert.deepEqual(policyErrorUtil.parse(body), [
+            { code: "ValidationError", target: "set-header", message: "Error in element 'set-header' on line 3, column 9: exists-action is invalid", line: 3, column: 9 },
+            { code: "ValidationError", target: "representation", message: "Request representation is invalid" }
+        ]);
+        assert.deepEqual(policyErrorUtil.parse("not json"), []);
+    });
+
+    test("Locates errors by position or by target", () => {
+        const errors: IPolicyError[] = [
+            { code: "ValidationError", message: "on line 3, column 9", line: 3, column: 9 },
+            { code: "ValidationError", target: "inbound", message: "Invalid section" },
+            { code: "ValidationError", message: "Something went wrong" }
+        ];
+        const problems: IXmlProblem[] = policyErrorUtil.locate(errors, policy);
+        assert.deepEqual(problems.map(p => policy.substring(p.start, p.end)), ["<set-header", "inbound", ""]);
+        assert.equal(problems[1].message, "ValidationError (inbound): Invalid section");
+    });
+});
@@ -0,0 +1,69 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { IExpressionResult, IMockContext, PolicyExpressionEvaluator, toJson } from '../extension.bundle';
+
+suite("Policy Expression Evaluator", () => {
+    const mockContext: IMockContext = {
+        timestamp: "2020-01-02T03:04:05Z",
+        request: {
+            method: "post",
+            url: "https://contoso.azure-api.net/orders?top=10",
+            headers: { "Content-Type": "application/json", "X-Tags": ["a", "b"] },
+            body: { id: 42, items: [{ price: 2 }, { price: 3 }] }
+        },
+        variables: { region: "west" },
+        user: { id: "jane", groups: ["admins"] }
+    };
+
+    function evaluate(code: string): {} | null {
+        return toJson(new PolicyExpressionEvaluator(mockContext).evaluate(code));
+    }
+
+    test("Request properties and headers", () => {
+        assert.equal(evaluate('@(context.Request.Method)'), "POST");
+        assert.equal(evaluate('@(context.Request.Headers.GetValueOrDefault("content-type", ""))'), "application/json");
+        assert.equal(evaluate('@(context.Request.Headers["X-Tags"].Length)'), 2);
+        assert.equal(evaluate('@(context.Request.Url.Query.GetValueOrDefault("top"))'), "10");
+        assert.equal(evaluate('@((string)context.Variables["region"] + "-1")'), "west-1");
+    });
+
+    test("Body, LINQ and interpolated strings", () => {
+        assert.equal(evaluate('@(context.Request.Body.As<JObject>()["items"].Sum(i => (int)i["price"]))'), 5);
+        assert.equal(evaluate('@($"{context.User.Id} in {context.User.Groups.Count()} group(s)")'), "jane in 1 group(s)");
+        assert.equal(evaluate('@(context.User.Groups.Any(g => g.Id == "admins") ? "yes" : "no")'), "yes");
+    });
+
+    test("Multi-statement expressions", () => {
+        const code: string = [
+            '@{',
+            '    var total = 0;',
+            '    foreach (var tag in context.Request.Headers["X-Tags"]) {',
+            '        total += tag.Length;',
+            '    }',
+            '    return total;',
+            '}'
+        ].join("\n");
+        assert.equal(evaluate(code), 2);
+        assert.throws(() => evaluate('@{ var x = 1; }'), /Not all code paths return a value/);
+    });
+
+    test("Members of Object aren't members of expression values", () => {
+        assert.throws(() => evaluate('@("abc".toString())'), /doesn't have a member 'toString\(\)'/);
+        assert.throws(() => evaluate('@("abc".valueOf())'), /doesn't have a member 'valueOf\(\)'/);
+        assert.throws(() => evaluate('@(context.Request.constructor)'), /doesn't have a member 'constructor'/);
+        assert.equal(evaluate('@(context.Request.Body.As<JObject>()["constructor"] == null)'), true);
+    });
+
+    test("Policy expressions with results and errors", () => {
+        const policy: string = '<policies><inbound><set-header name="x" exists-action="override"><value>@(context.Timestamp.ToString("yyyy-MM-dd"))</value></set-header><set-variable name="y" value="@(context.Request.Missing)" /></inbound></policies>';
+        const results: IExpressionResult[] = new PolicyExpressionEvaluator(mockContext).evaluatePolicy(policy);
+        assert.equal(results.length, 2);
+        assert.equal(results[0].value, "2020-01-02");
+        assert.equal(policy.substring(results[0].start, results[0].end), results[0].code);
+        assert.ok(results[1].error);
+    });
+});
@@ -0,0 +1,72 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { IExpressionMember, PolicyExpressionModel, systemTypesSource } from '../extension.bundle';
+
+suite("Policy Expression Model", () => {
+    const contextSource: string = [
+        "namespace Microsoft.Azure.ApiManagement.Policies",
+        "{",
+        "    public interface IProxyRequestContext",
+        "    {",
+        "        IRequest Request { get; }",
+        "        IReadOnlyDictionary<string, object> Variables { get; }",
+        "    }",
+        "",
+        "    public interface IMessage",
+        "    {",
+        "        IReadOnlyDictionary<string, string[]> Headers { get; }",
+        "    }",
+        "",
+        "    public interface IRequest : IMessage",
+        "    {",
+        "        /// <summary>The HTTP method of the request.</summary>",
+        "        string Method { get; }",
+        "    }",
+        "",
+        "    public static class Extensions",
+        "    {",
+        "        public static string GetValueOrDefault(this IReadOnlyDictionary<string, string[]> headers, string headerName) => null;",
+        "        public static T GetValueOrDefault<T>(this IReadOnlyDictionary<string, object> variables, string variableName) => default(T);",
+        "        public static Jwt AsJwt(this string value) => null;",
+        "    }",
+        "}"
+    ].join("\n");
+    const model: PolicyExpressionModel = new PolicyExpressionModel([contextSource, systemTypesSource]);
+
+    function getNames(members: IExpressionMember[]): string[] {
+        return members.map(m => m.name);
+    }
+
+    test("Completes the context variable at the start of an expression", () => {
+        assert.deepEqual(getNames(model.getCompletions("")), ["context"]);
+        assert.deepEqual(getNames(model.getCompletions("con")), ["context"]);
+    });
+
+    test("Completes inherited members", () => {
+        assert.deepEqual(getNames(model.getCompletions("context.Request.")), ["Method", "Headers"]);
+    });
+
+    test("Completes members of method results and extension methods", () => {
+        const headerMembers: string[] = getNames(model.getCompletions('context.Request.Headers.GetValueOrDefault("Authorization", "").'));
+        assert.ok(headerMembers.indexOf("Substring") !== -1);
+        assert.ok(headerMembers.indexOf("AsJwt") !== -1);
+
+        const variableMembers: string[] = getNames(model.getCompletions('context.Variables.GetValueOrDefault<string>("name").'));
+        assert.ok(variableMembers.indexOf("ToUpper") !== -1);
+
+        const valueMembers: string[] = getNames(model.getCompletions('context.Request.Headers["Accept"].'));
+        assert.ok(valueMembers.indexOf("FirstOrDefault") !== -1);
+    });
+
+    test("Finds the member under the cursor with its documentation", () => {
+        const member: IExpressionMember | undefined = model.getMember("context.Request.Method");
+        assert.ok(member);
+        assert.equal((<IExpressionMember>member).type, "string");
+        assert.equal((<IExpressionMember>member).documentation, "The HTTP method of the request.");
+        assert.equal(model.getMember("context.Request.Unknown"), undefined);
+    });
+});
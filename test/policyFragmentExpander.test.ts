@@ -0,0 +1,58 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { IFragmentExpansion, IPolicyFragments, PolicyFragmentExpander, toSourceOffset } from '../extension.bundle';
+
+suite("Policy Fragment Expander", () => {
+    const fragments: IPolicyFragments = {
+        cors: '<cors>\n    <allowed-origins>\n        <origin>*</origin>\n    </allowed-origins>\n</cors>\n',
+        common: '<!-- fragment: cors -->\n<rate-limit calls="10" renewal-period="60" />',
+        loop: '<!-- fragment: loop -->'
+    };
+    const policy: string = '<policies>\n    <inbound>\n        <base />\n        <!-- fragment: common -->\n    </inbound>\n</policies>';
+
+    test("Expands nested fragments with the indentation of the marker", () => {
+        const expansion: IFragmentExpansion = new PolicyFragmentExpander(fragments).expand(policy);
+        assert.equal(expansion.text, [
+            '<policies>',
+            '    <inbound>',
+            '        <base />',
+            '        <!-- fragment-begin: common -->',
+            '        <!-- fragment-begin: cors -->',
+            '        <cors>',
+            '            <allowed-origins>',
+            '                <origin>*</origin>',
+            '            </allowed-origins>',
+            '        </cors>',
+            '        <!-- fragment-end: cors -->',
+            '        <rate-limit calls="10" renewal-period="60" />',
+            '        <!-- fragment-end: common -->',
+            '    </inbound>',
+            '</policies>'
+        ].join("\n"));
+
+        const markerOffset: number = policy.indexOf("<!-- fragment");
+        assert.equal(toSourceOffset(expansion, expansion.text.indexOf("<rate-limit")), markerOffset);
+        assert.equal(toSourceOffset(expansion, expansion.text.indexOf("</inbound>")), policy.indexOf("</inbound>"));
+        assert.equal(toSourceOffset(expansion, 3), 3);
+    });
+
+    test("Collapses unmodified fragments and keeps modified ones", () => {
+        const expander: PolicyFragmentExpander = new PolicyFragmentExpander(fragments);
+        const expanded: string = expander.expand(policy).text;
+        assert.deepEqual(expander.collapse(expanded.replace(/\n\s*/g, "")), { text: policy.replace(/\n\s*/g, ""), modifiedFragments: [] });
+
+        const modified: string = expanded.replace('calls="10"', 'calls="20"');
+        assert.deepEqual(expander.collapse(modified), { text: modified, modifiedFragments: ["common"] });
+    });
+
+    test("Reports missing and recursive fragments", () => {
+        const expander: PolicyFragmentExpander = new PolicyFragmentExpander(fragments);
+        assert.throws(() => expander.expand('<!-- fragment: jwt -->'), /'jwt' isn't in the fragment library/);
+        assert.throws(() => expander.expand('<!-- fragment: constructor -->'), /'constructor' isn't in the fragment library/);
+        assert.throws(() => expander.expand('<!-- fragment: loop -->'), /'loop' includes itself: loop > loop/);
+    });
+});
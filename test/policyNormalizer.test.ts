@@ -0,0 +1,94 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { PolicyNormalizer } from '../extension.bundle';
+
+suite("Policy Normalizer", () => {
+    test("Ignores whitespace and attribute order", () => {
+        const normalizer: PolicyNormalizer = new PolicyNormalizer({ sortAttributes: true, trimText: true });
+        const first: string = '<policies><inbound><base/><set-header name="x" exists-action="override"><value>1</value></set-header></inbound><outbound></outbound></policies>';
+        const second: string = [
+            '<policies>',
+            '  <inbound>',
+            '    <base />',
+            '',
+            "    <set-header exists-action='override' name='x'>",
+            '      <value> 1 </value>',
+            '    </set-header>',
+            '  </inbound>',
+            '  <outbound />',
+            '</policies>'
+        ].join("\r\n");
+
+        assert.equal(normalizer.normalize(first), normalizer.normalize(second));
+        assert.equal(normalizer.normalize(first), [
+            '<policies>',
+            '    <inbound>',
+            '        <base />',
+            '        <set-header exists-action="override" name="x">',
+            '            <value>1</value>',
+            '        </set-header>',
+            '    </inbound>',
+            '    <outbound />',
+            '</policies>',
+            ''
+        ].join("\n"));
+    });
+
+    test("Keeps comments and the relative indentation of expressions", () => {
+        const policy: string = [
+            '<policies>',
+            '<inbound>',
+            '<!-- Tracks the caller -->',
+            '<set-body>@{',
+            '        var id = context.User.Id;',
+            '        return id;',
+            '    }</set-body>',
+            '</inbound>',
+            '</policies>'
+        ].join("\n");
+        assert.equal(new PolicyNormalizer({ trimText: true }).normalize(policy), [
+            '<policies>',
+            '    <inbound>',
+            '        <!-- Tracks the caller -->',
+            '        <set-body>',
+            '            @{',
+            '                var id = context.User.Id;',
+            '                return id;',
+            '            }',
+            '        </set-body>',
+            '    </inbound>',
+            '</policies>',
+            ''
+        ].join("\n"));
+        assert.throws(() => new PolicyNormalizer().normalize('<policies><inbound></policies>'), /isn't well-formed/);
+    });
+
+    test("Formats without changing text or attribute order", () => {
+        const policy: string = '<policies>\n<inbound>\n<set-body>@{\n  return "a  b";\n}</set-body>\n<set-header name="x" exists-action="override"><value> @(context.Request.Method) </value></set-header>\n</inbound>\n</policies>';
+        assert.equal(new PolicyNormalizer({ indentUnit: "  " }).normalize(policy), [
+            '<policies>',
+            '  <inbound>',
+            '    <set-body>@{',
+            '  return "a  b";',
+            '}</set-body>',
+            '    <set-header name="x" exists-action="override">',
+            '      <value> @(context.Request.Method) </value>',
+            '    </set-header>',
+            '  </inbound>',
+            '</policies>',
+            ''
+        ].join("\n"));
+    });
+
+    test("Keeps the quotes of values with quotes and text mixed with elements", () => {
+        const variable: string = `<set-variable name="first" value="@(((string)context.Variables["ids"]).Split(',')[0])" />`;
+        const body: string = '<set-body>Dear <name />,  \n\n  thanks.</set-body>';
+        const policy: string = `<policies>\n<inbound>\n${variable.replace('name="first"', "name='first'")}\n<return-response>\n${body}\n</return-response>\n</inbound>\n</policies>`;
+        assert.equal(new PolicyNormalizer().normalize(policy), `<policies>\n    <inbound>\n        ${variable}\n        <return-response>\n            ${body}\n        </return-response>\n    </inbound>\n</policies>\n`);
+        assert.ok(new PolicyNormalizer({ trimText: true }).normalize(policy).indexOf('<set-body>\n                Dear\n                <name />\n                ,\n                thanks.\n') !== -1);
+    });
+});
@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { IPolicySnippet, ITextEdit, PolicySnippetInserter } from '../extension.bundle';
+
+suite("Policy Snippet Inserter", () => {
+    const policy: string = [
+        "<policies>",
+        "    <inbound>",
+        "        <base />",
+        "    </inbound>",
+        "    <backend />",
+        "</policies>"
+    ].join("\n");
+
+    function applyEdit(text: string, edit: ITextEdit): string {
+        return text.substring(0, edit.start) + edit.text + text.substring(edit.end);
+    }
+
+    test("Fills in parameters and keeps named values", () => {
+        const snippet: IPolicySnippet = {
+            name: "set-header",
+            parameters: [{ name: "name", prompt: "Name" }, { name: "value", prompt: "Value", defaultValue: "a&b" }],
+            body: [`<set-header name="{{name}}">`, `    <value>{{value}}</value>`, `    <value>{{secret}}</value>`, `</set-header>`]
+        };
+        assert.equal(new PolicySnippetInserter().render(snippet, { name: `@(context.Variables["x"])` }), [
+            `<set-header name="@(context.Variables["x"])">`,
+            `    <value>a&amp;b</value>`,
+            `    <value>{{secret}}</value>`,
+            `</set-header>`
+        ].join("\n"));
+    });
+
+    test("Inserts at the end of the section when the cursor is elsewhere", () => {
+        const edit: ITextEdit = new PolicySnippetInserter().getInsertEdit(policy, "inbound", 0, `<cors>\n    <allowed-origins />\n</cors>`);
+        assert.equal(applyEdit(policy, edit), [
+            "<policies>",
+            "    <inbound>",
+            "        <base />",
+            "        <cors>",
+            "            <allowed-origins />",
+            "        </cors>",
+            "    </inbound>",
+            "    <backend />",
+            "</policies>"
+        ].join("\n"));
+    });
+
+    test("Inserts after the policy at the cursor", () => {
+        const edit: ITextEdit = new PolicySnippetInserter().getInsertEdit(policy, "inbound", policy.indexOf("base"), "<rate-limit />");
+        assert.equal(applyEdit(policy, edit).split("\n")[3], "        <rate-limit />");
+    });
+
+    test("Expands an empty section and adds a missing one", () => {
+        const inserter: PolicySnippetInserter = new PolicySnippetInserter();
+        const expanded: string = applyEdit(policy, inserter.getInsertEdit(policy, "backend", 0, "<forward-request />"));
+        assert.equal(expanded.split("\n").slice(4, 7).join("\n"), "    <backend>\n        <forward-request />\n    </backend>");
+        const added: string = applyEdit(policy, inserter.getInsertEdit(policy, "on-error", 0, "<base />"));
+        assert.equal(added.split("\n").slice(5).join("\n"), "    <on-error>\n        <base />\n    </on-error>\n</policies>");
+    });
+});
@@ -0,0 +1,41 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { IPolicyTestResult, PolicyTestRunner } from '../extension.bundle';
+import { testFolderPath } from './global.test';
+
+suite("Policy Test Runner", () => {
+    const folder: string = path.join(testFolderPath, "policyTests");
+
+    suiteSetup(async () => {
+        await fse.outputJson(path.join(folder, "body.policytest.json"), {
+            context: { request: { body: { id: 42, tags: ["a"] } } },
+            expect: [
+                { expression: '@(context.Request.Body.As<JObject>())', value: { tags: ["a"], id: 42 } },
+                { expression: '@(context.Request.Missing)', error: "doesn't have a member" }
+            ]
+        });
+        await fse.outputJson(path.join(folder, "invalid.policytest.json"), { expect: [{ expression: '@(1)', value: 1 }, null] });
+    });
+
+    suiteTeardown(async () => {
+        await fse.remove(folder);
+    });
+
+    test("Compares objects regardless of the order of their keys", async () => {
+        const results: IPolicyTestResult[] = await new PolicyTestRunner().runFile(path.join(folder, "body.policytest.json"));
+        assert.deepEqual(results.map(r => r.passed), [true, true]);
+    });
+
+    test("Fails the test file with an invalid expectation", async () => {
+        const results: IPolicyTestResult[] = await new PolicyTestRunner().runFile(path.join(folder, "invalid.policytest.json"));
+        assert.equal(results.length, 1);
+        assert.equal(results[0].passed, false);
+        assert.ok(/Couldn't load the test case/.test(results[0].message));
+    });
+});
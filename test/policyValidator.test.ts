@@ -0,0 +1,75 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { IXmlDocument, IXmlProblem, PolicyValidator, PolicyXmlParser } from '../extension.bundle';
+
+suite("Policy Validator", () => {
+    function createPolicy(inbound: string): string {
+        return [
+            "<policies>",
+            "    <inbound>",
+            `        ${inbound}`,
+            "    </inbound>",
+            "    <backend>",
+            "        <forward-request />",
+            "    </backend>",
+            "    <outbound />",
+            "    <on-error />",
+            "</policies>"
+        ].join("\n");
+    }
+
+    function getLine(text: string, problem: IXmlProblem): number {
+        return text.substring(0, problem.start).split("\n").length - 1;
+    }
+
+    test("Accepts a valid policy with expressions", () => {
+        const policy: string = createPolicy(`<set-header name="x-id" exists-action="override"><value>@(context.Request.Headers.GetValueOrDefault("x-id", "<none>"))</value></set-header>`);
+        assert.deepEqual(new PolicyValidator("operation").validate(policy), []);
+    });
+
+    test("Skips quotes and braces inside expressions", () => {
+        const document: IXmlDocument = PolicyXmlParser.parse(`<a b="@(context.Variables["x"] == "}")"><c>@{ var s = @"say ""hi"""; return s.Length < 2 ? '<' : '>'; }</c></a>`);
+        assert.deepEqual(document.problems, []);
+        assert.equal(document.root ? document.root.children[0].name : undefined, "c");
+    });
+
+    test("Reports malformed XML at the line of the problem", () => {
+        const policy: string = createPolicy(`<set-header name="x-id">`);
+        const problems: IXmlProblem[] = new PolicyValidator().validate(policy);
+        assert.equal(problems[0].message, "Element <set-header> is not closed.");
+        assert.equal(getLine(policy, problems[0]), 2);
+    });
+
+    test("Reports missing and unknown sections", () => {
+        const messages: string[] = new PolicyValidator().validate("<policies><inbound /><outbound /><inbond /></policies>").map(p => p.message);
+        assert.deepEqual(messages, [
+            "<inbond> is not a policy section. Expected <inbound>, <backend>, <outbound> or <on-error>.",
+            "Section <backend> is missing.",
+            "Section <on-error> is missing."
+        ]);
+    });
+
+    test("Checks sections and scopes of policies", () => {
+        const policy: string = createPolicy(`<rate-limit calls="5" renewal-period="60" /><choose><when condition="true"><cache-store duration="10" /></when></choose><set-heder />`);
+        const problems: IXmlProblem[] = new PolicyValidator("global").validate(policy);
+        assert.deepEqual(problems.map(p => [p.severity, p.message, policy.substring(p.start, p.end)]), [
+            ["error", "Policy <rate-limit> can't be used at the global scope. It can be used at: product, api, operation.", "rate-limit"],
+            ["error", "Policy <cache-store> can't be used in the inbound section. It can be used in: outbound.", "cache-store"],
+            ["warning", "Unknown policy <set-heder>.", "set-heder"]
+        ]);
+        assert.equal(new PolicyValidator("product").validate(policy).length, 2);
+    });
+
+    test("Reports elements named like object members as unknown policies", () => {
+        const policy: string = createPolicy(`<constructor /><toString /><valueOf><hasOwnProperty /></valueOf>`);
+        assert.deepEqual(new PolicyValidator("api").validate(policy).map(p => p.message), [
+            "Unknown policy <constructor>.",
+            "Unknown policy <toString>.",
+            "Unknown policy <valueOf>."
+        ]);
+    });
+});
@@ -0,0 +1,59 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { SampleGenerator } from '../extension.bundle';
+
+// tslint:disable: no-any no-unsafe-any
+suite("Sample Generator", () => {
+    const swaggerDefinitions: any = {
+        definitions: {
+            Pet: {
+                type: "object",
+                properties: {
+                    id: { type: "integer", format: "int64", readOnly: true },
+                    name: { type: "string", example: "doggie" },
+                    status: { type: "string", enum: ["available", "sold"] },
+                    born: { type: "string", format: "date-time" },
+                    tags: { type: "array", items: { $ref: "#/definitions/Tag" } },
+                    owner: { $ref: "#/definitions/Owner" }
+                }
+            },
+            Tag: {
+                type: "object",
+                properties: { name: { type: "string" } }
+            },
+            Owner: {
+                allOf: [
+                    { type: "object", properties: { name: { type: "string" } } },
+                    { type: "object", properties: { pets: { type: "array", items: { $ref: "#/definitions/Pet" } } } }
+                ]
+            }
+        }
+    };
+
+    test("Generates a skeleton from swagger definitions", () => {
+        const generator: SampleGenerator = SampleGenerator.fromSchemas(<any[]>[{ contentType: "application/vnd.ms-azure-apim.swagger.definitions+json", document: swaggerDefinitions }]);
+        const sample: any = JSON.parse(<string>generator.generate("Pet"));
+        assert.deepEqual(sample, {
+            name: "doggie",
+            status: "available",
+            born: "2019-01-01T00:00:00Z",
+            tags: [{ name: "string" }],
+            owner: { name: "string", pets: [] }
+        });
+    });
+
+    test("Reads OpenAPI components from a JSON string document", () => {
+        const document: string = JSON.stringify({ components: { schemas: { Order: { properties: { quantity: { type: "integer", minimum: 1 }, complete: { type: "boolean" } } } } } });
+        const generator: SampleGenerator = SampleGenerator.fromSchemas(<any[]>[{ contentType: "application/vnd.oai.openapi.components+json", value: document }]);
+        assert.deepEqual(JSON.parse(<string>generator.generate("Order")), { quantity: 1, complete: true });
+    });
+
+    test("Returns undefined for unknown types", () => {
+        const generator: SampleGenerator = SampleGenerator.fromSchemas([]);
+        assert.equal(generator.generate("Pet"), undefined);
+    });
+});